@@ -15,5 +15,12 @@ module.exports = {
       { allowConstantExport: true },
     ],
   },
+  overrides: [
+    {
+      // Command-line scripts run in Node, not the browser
+      files: ['scripts/**'],
+      env: { browser: false, node: true },
+    },
+  ],
 }
 
@@ -0,0 +1,148 @@
+// Applies the SQL files in supabase/migrations to a Postgres database (e.g. your Supabase
+// project), in file-name order. Each one runs in a transaction and is recorded in the
+// schema_migrations table, so it's applied exactly once.
+//
+//   DATABASE_URL=postgres://... npm run migrate              apply everything pending
+//   DATABASE_URL=postgres://... npm run migrate -- status    list applied and pending migrations
+//   DATABASE_URL=postgres://... npm run migrate -- baseline 0013
+//       record 0001-0013 as applied without running them, for databases that were set up by
+//       running the SQL files by hand
+//
+// Needs `psql` on the PATH. The connection string is under Project Settings > Database.
+import { readdirSync, readFileSync } from 'node:fs';
+import { spawnSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+
+const MIGRATIONS_DIR = fileURLToPath(new URL('../supabase/migrations/', import.meta.url));
+// e.g. 0014_drop_legacy_trip_columns.sql - the name is written into SQL below, so keep it plain
+const FILE_PATTERN = /^(\d{4})_([a-z0-9_]+)\.sql$/;
+
+// Not exposed through the API: RLS is on and there are no policies
+const TRACKING_TABLE = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+  );
+  ALTER TABLE schema_migrations ENABLE ROW LEVEL SECURITY;
+`;
+
+const fail = (message) => {
+  console.error(message);
+  process.exit(1);
+};
+
+const databaseUrl = process.env.DATABASE_URL;
+if (!databaseUrl) fail('Set DATABASE_URL to the database connection string');
+
+// Runs SQL through psql, stopping at the first error; returns the rows as tab-separated lines
+const psql = (sql, { singleTransaction = false } = {}) => {
+  const args = [databaseUrl, '--no-psqlrc', '--quiet', '--tuples-only', '--no-align', '--field-separator=\t',
+    '--set=ON_ERROR_STOP=1', '--file=-'];
+  if (singleTransaction) args.push('--single-transaction');
+
+  const result = spawnSync('psql', args, { input: sql, encoding: 'utf8' });
+  if (result.error) fail(`Couldn't run psql: ${result.error.message}`);
+  if (result.status !== 0) fail(result.stderr.trim() || `psql exited with status ${result.status}`);
+  return result.stdout.split('\n').filter(line => line.length > 0);
+};
+
+const checksum = (sql) => createHash('sha256').update(sql).digest('hex');
+
+const readMigrations = () => {
+  const files = readdirSync(MIGRATIONS_DIR).filter(file => file.endsWith('.sql')).sort();
+  const migrations = files.map(file => {
+    const match = FILE_PATTERN.exec(file);
+    if (!match) fail(`Migration file names look like 0001_name.sql, got ${file}`);
+    const sql = readFileSync(MIGRATIONS_DIR + file, 'utf8');
+    return { version: match[1], name: match[2], file, sql, checksum: checksum(sql) };
+  });
+
+  const versions = new Set();
+  for (const migration of migrations) {
+    if (versions.has(migration.version)) fail(`Two migrations are numbered ${migration.version}`);
+    versions.add(migration.version);
+  }
+  return migrations;
+};
+
+const readApplied = () => {
+  psql(TRACKING_TABLE);
+  const rows = psql('SELECT version, checksum, applied_at FROM schema_migrations ORDER BY version;');
+  return new Map(rows.map(row => {
+    const [version, savedChecksum, appliedAt] = row.split('\t');
+    return [version, { checksum: savedChecksum, appliedAt }];
+  }));
+};
+
+const recordApplied = (migration) =>
+  `INSERT INTO schema_migrations (version, name, checksum) VALUES ('${migration.version}', '${migration.name}', '${migration.checksum}');`;
+
+// An applied migration that has since been edited won't be run again - say so rather than
+// letting the database and the repo drift apart quietly
+const warnIfEdited = (migrations, applied) => {
+  for (const migration of migrations) {
+    const entry = applied.get(migration.version);
+    if (entry && entry.checksum !== migration.checksum) {
+      console.warn(`Warning: ${migration.file} was changed after it was applied`);
+    }
+  }
+};
+
+const status = (migrations, applied) => {
+  for (const migration of migrations) {
+    const entry = applied.get(migration.version);
+    console.log(`${entry ? 'applied' : 'pending'}  ${migration.file}${entry ? `  (${entry.appliedAt})` : ''}`);
+  }
+  warnIfEdited(migrations, applied);
+};
+
+const up = (migrations, applied) => {
+  const pending = migrations.filter(migration => !applied.has(migration.version));
+  // A gap means a migration was added below ones already applied; running it now could see a
+  // schema it wasn't written for
+  const latest = [...applied.keys()].sort().pop();
+  const outOfOrder = pending.find(migration => latest && migration.version < latest);
+  if (outOfOrder) fail(`${outOfOrder.file} is older than the latest applied migration (${latest})`);
+
+  warnIfEdited(migrations, applied);
+  if (pending.length === 0) {
+    console.log('Database is up to date');
+    return;
+  }
+
+  for (const migration of pending) {
+    console.log(`Applying ${migration.file}...`);
+    psql(`${migration.sql}\n;\n${recordApplied(migration)}`, { singleTransaction: true });
+  }
+  console.log(`Applied ${pending.length} migration${pending.length === 1 ? '' : 's'}`);
+};
+
+const baseline = (migrations, applied, upTo) => {
+  if (!upTo || !migrations.some(migration => migration.version === upTo)) {
+    fail(`Pass the version of the last migration already in the database, e.g. baseline ${migrations.at(-1)?.version}`);
+  }
+  const skipped = migrations.filter(migration => migration.version <= upTo && !applied.has(migration.version));
+  if (skipped.length > 0) psql(skipped.map(recordApplied).join('\n'), { singleTransaction: true });
+  console.log(`Recorded ${skipped.length} migration${skipped.length === 1 ? '' : 's'} as applied`);
+};
+
+const [command = 'up', argument] = process.argv.slice(2);
+const migrations = readMigrations();
+const applied = readApplied();
+
+switch (command) {
+  case 'up':
+    up(migrations, applied);
+    break;
+  case 'status':
+    status(migrations, applied);
+    break;
+  case 'baseline':
+    baseline(migrations, applied, argument);
+    break;
+  default:
+    fail(`Unknown command "${command}" - use up, status or baseline <version>`);
+}
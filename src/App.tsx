@@ -1,20 +1,26 @@
 import { useState, useEffect } from 'react';
 import { LayoutDashboard, Plane, Heart, CalendarDays, User } from 'lucide-react';
-import { supabase } from './lib/supabase';
+import { useStorage } from './contexts/StorageContext';
 import { DataProvider } from './contexts/DataContext';
+import { HistoryProvider } from './contexts/HistoryProvider';
 import TripCalendar from './components/TripCalendar';
 import Wishlist from './components/Wishlist';
 import Dashboard from './components/Dashboard';
 import CalendarView from './components/CalendarView';
 import Profile from './components/Profile';
 import Auth from './components/Auth';
-import type { User as SupabaseUser } from '@supabase/supabase-js';
+import SyncStatus from './components/SyncStatus';
+import DataIssues from './components/DataIssues';
+import LegacyMigration from './components/LegacyMigration';
+import UndoSnackbar from './components/UndoSnackbar';
+import { StorageUser } from './utils/storageBackend';
 
 type Tab = 'dashboard' | 'trips' | 'wishlist' | 'calendar' | 'profile';
 
 function App() {
   const [activeTab, setActiveTab] = useState<Tab>('dashboard');
-  const [user, setUser] = useState<SupabaseUser | null>(null);
+  const storage = useStorage();
+  const [user, setUser] = useState<StorageUser | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -29,9 +35,9 @@ function App() {
     }, 5000);
 
     // Check active session
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    storage.auth.getUser().then((sessionUser) => {
       if (mounted) {
-        setUser(session?.user ?? null);
+        setUser(sessionUser);
         setLoading(false);
       }
     }).catch((error) => {
@@ -42,27 +48,17 @@ function App() {
     });
 
     // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    const unsubscribe = storage.auth.onAuthStateChange((_event, sessionUser) => {
       if (mounted) {
-        setUser(session?.user ?? null);
+        setUser(sessionUser);
         setLoading(false);
       }
     });
 
-    // Track when tab becomes hidden
-    let hiddenTime: number | null = null;
-    
+    // Coming back to the tab is a good moment to send anything written while away
     const handleVisibilityChange = () => {
-      if (document.visibilityState === 'hidden') {
-        hiddenTime = Date.now();
-      } else if (document.visibilityState === 'visible' && hiddenTime) {
-        // If tab was hidden for more than 2 seconds, reload the page
-        // This ensures a fresh Supabase connection
-        const timeHidden = Date.now() - hiddenTime;
-        if (timeHidden > 2000) {
-          window.location.reload();
-        }
-        hiddenTime = null;
+      if (document.visibilityState === 'visible') {
+        storage.sync?.flush();
       }
     };
 
@@ -71,7 +67,7 @@ function App() {
     return () => {
       mounted = false;
       clearTimeout(timeout);
-      subscription.unsubscribe();
+      unsubscribe();
       document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
   }, []);
@@ -96,14 +92,22 @@ function App() {
     return <Auth />;
   }
 
+  // Undo history lasts for the signed-in session
   return (
+    <HistoryProvider>
     <DataProvider>
       <div className="min-h-screen bg-slate-900">
       {/* Header */}
       <header className="bg-slate-800 border-b border-slate-700">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
-          <h1 className="text-3xl font-bold text-white">🌍 AbroadBuddy</h1>
-          <p className="text-gray-400 mt-1">Your Study Abroad Budget Planner</p>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-white">🌍 AbroadBuddy</h1>
+            <p className="text-gray-400 mt-1">Your Study Abroad Budget Planner</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <DataIssues />
+            <SyncStatus />
+          </div>
         </div>
       </header>
 
@@ -142,6 +146,9 @@ function App() {
         {activeTab === 'profile' && <Profile />}
       </main>
 
+      <LegacyMigration />
+      <UndoSnackbar />
+
       {/* Footer */}
       <footer className="bg-slate-800 border-t border-slate-700 mt-12">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
@@ -152,6 +159,7 @@ function App() {
       </footer>
       </div>
     </DataProvider>
+    </HistoryProvider>
   );
 }
 
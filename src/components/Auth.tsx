@@ -1,8 +1,9 @@
 import { useState } from 'react';
-import { supabase } from '../lib/supabase';
+import { useStorage } from '../contexts/StorageContext';
 import { LogIn, UserPlus } from 'lucide-react';
 
 export default function Auth() {
+  const storage = useStorage();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isSignUp, setIsSignUp] = useState(false);
@@ -16,18 +17,10 @@ export default function Auth() {
 
     try {
       if (isSignUp) {
-        const { error } = await supabase.auth.signUp({
-          email,
-          password,
-        });
-        if (error) throw error;
-        alert('Check your email for the confirmation link!');
+        const { needsConfirmation } = await storage.auth.signUp(email, password);
+        if (needsConfirmation) alert('Check your email for the confirmation link!');
       } else {
-        const { error } = await supabase.auth.signInWithPassword({
-          email,
-          password,
-        });
-        if (error) throw error;
+        await storage.auth.signIn(email, password);
       }
     } catch (error: any) {
       setError(error.message);
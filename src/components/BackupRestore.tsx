@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { Upload, HardDrive, RotateCcw } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
+import { ExportBundle } from '../utils/dataExport';
+import RestorePlanSummary from './RestorePlanSummary';
+import {
+  RestoreMode,
+  RestorePlan,
+  planHasChanges,
+  planRestore,
+  readLegacyLocalStorage,
+  upgradeBundle,
+} from '../utils/dataImport';
+import { errorMessage } from '../utils/errors';
+
+export default function BackupRestore() {
+  const { loadExportBundle, applyRestore } = useData();
+  const [source, setSource] = useState<{ label: string; bundle: ExportBundle } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [current, setCurrent] = useState<ExportBundle | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const legacyData = readLegacyLocalStorage();
+
+  // Dry run: compare the backup with what's in the account without writing anything
+  const preview = async (bundle: ExportBundle, restoreMode: RestoreMode) => {
+    setIsWorking(true);
+    try {
+      const currentBundle = await loadExportBundle();
+      setCurrent(currentBundle);
+      setPlan(planRestore(bundle, currentBundle, restoreMode));
+    } catch (error) {
+      alert('Error reading your data: ' + errorMessage(error));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const loadSource = async (label: string, raw: unknown) => {
+    try {
+      const bundle = upgradeBundle(raw);
+      setSource({ label, bundle });
+      await preview(bundle, mode);
+    } catch (error) {
+      alert('Error reading backup: ' + errorMessage(error));
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch (error) {
+      alert('That file is not valid JSON');
+      return;
+    }
+    await loadSource(file.name, raw);
+  };
+
+  const handleModeChange = async (newMode: RestoreMode) => {
+    setMode(newMode);
+    if (source) await preview(source.bundle, newMode);
+  };
+
+  const handleRestore = async () => {
+    if (!plan || !current) return;
+    if (plan.mode === 'replace' && !confirm('Replace all of your current data with this backup? Anything not in the backup will be deleted.')) {
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      await applyRestore(plan, current);
+      setSource(null);
+      setPlan(null);
+      setCurrent(null);
+      alert('Restore complete');
+    } catch (error) {
+      alert('Error restoring data: ' + errorMessage(error));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const hasChanges = plan !== null && planHasChanges(plan);
+
+  return (
+    <div className="bg-slate-700 rounded-lg p-4 sm:p-6">
+      <h3 className="text-base sm:text-lg font-semibold text-white mb-1 flex items-center gap-2">
+        <RotateCcw className="w-5 h-5 text-primary-400" />
+        Restore from Backup
+      </h3>
+      <p className="text-xs sm:text-sm text-gray-400 mb-4">
+        Load a JSON export to bring your data back. Older backups are upgraded automatically.
+      </p>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <label className="flex-1 px-4 py-2.5 bg-slate-800 border-2 border-dashed border-slate-600 hover:border-primary-500 rounded-lg cursor-pointer text-gray-300 text-sm flex items-center justify-center gap-2 transition-colors">
+          <Upload className="w-4 h-4" />
+          {source ? `${source.label} - choose another file` : 'Choose a backup file'}
+          <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+        </label>
+        {legacyData && (
+          <button
+            onClick={() => loadSource('Data saved in this browser', legacyData)}
+            disabled={isWorking}
+            className="flex-1 px-4 py-2.5 bg-slate-600 hover:bg-slate-500 text-white rounded-lg transition-colors flex items-center justify-center gap-2 text-sm disabled:opacity-50"
+          >
+            <HardDrive className="w-4 h-4" />
+            Use data from the old offline version
+          </button>
+        )}
+      </div>
+
+      {source && (
+        <div className="mt-4 space-y-3">
+          <div className="flex flex-col sm:flex-row gap-2 text-sm">
+            <label className="flex items-center gap-2 text-gray-300">
+              <input
+                type="radio"
+                checked={mode === 'merge'}
+                onChange={() => handleModeChange('merge')}
+                className="accent-primary-500"
+              />
+              Merge with my data
+            </label>
+            <label className="flex items-center gap-2 text-gray-300 sm:ml-4">
+              <input
+                type="radio"
+                checked={mode === 'replace'}
+                onChange={() => handleModeChange('replace')}
+                className="accent-primary-500"
+              />
+              Replace all my data
+            </label>
+          </div>
+
+          {plan && <RestorePlanSummary plan={plan} />}
+
+          <button
+            onClick={handleRestore}
+            disabled={isWorking || !hasChanges}
+            className={`w-full px-4 py-2.5 text-white rounded-lg transition-colors text-sm sm:text-base disabled:opacity-50 ${
+              mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-primary-600 hover:bg-primary-700'
+            }`}
+          >
+            {isWorking ? 'Working...' : hasChanges ? (mode === 'replace' ? 'Replace My Data' : 'Merge Backup') : 'Nothing to restore'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
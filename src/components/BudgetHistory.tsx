@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { X, ArrowRight, Flag, Pencil, Wallet, Receipt, PiggyBank, Undo2, Redo2, ArchiveRestore } from 'lucide-react';
+import { BudgetChange, BudgetChangeReason, BudgetMode, BudgetSettings, RolloverPolicy } from '../types';
+import { useData } from '../contexts/DataContext';
+import { formatMoney } from '../utils/money';
+import { errorMessage } from '../utils/errors';
+
+interface BudgetHistoryProps {
+  onClose: () => void;
+}
+
+const REASON_INFO: Record<BudgetChangeReason, { label: string; icon: typeof Flag }> = {
+  setup: { label: 'Budget set up', icon: Flag },
+  edit: { label: 'Budget edited', icon: Pencil },
+  balance_update: { label: 'Balance updated', icon: Wallet },
+  expense: { label: 'Expense taken off the balance', icon: Receipt },
+  funding: { label: 'Funding', icon: PiggyBank },
+  undo: { label: 'Change undone', icon: Undo2 },
+  redo: { label: 'Change redone', icon: Redo2 },
+  restore: { label: 'Restored from a backup', icon: ArchiveRestore },
+};
+
+// What semesterBudget means in each mode
+const AMOUNT_LABELS: Record<BudgetMode, string> = {
+  remaining: 'Balance',
+  total: 'Semester budget',
+  tracking: 'Target',
+};
+
+const MODE_NAMES: Record<BudgetMode, string> = {
+  remaining: 'Remaining Budget',
+  total: 'Total Budget',
+  tracking: 'Spending Tracker',
+};
+
+const ROLLOVER_NAMES: Record<RolloverPolicy, string> = {
+  none: 'No rollover',
+  surplus: 'Carry savings',
+  deficit: 'Carry overspending',
+  both: 'Carry both',
+};
+
+const formatRolloverCap = (settings: BudgetSettings) =>
+  settings.rolloverCap !== undefined ? formatMoney(settings.rolloverCap, settings.homeCurrency) : 'no limit';
+
+const formatDay = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+
+// Everything but the amount that differs between two snapshots, as "label: before → after"
+const describeSettingChanges = (before: BudgetSettings | null, after: BudgetSettings) => {
+  if (!before) {
+    return [
+      `${MODE_NAMES[after.budgetMode]} · ${after.homeCurrency}`,
+      `${formatDay(after.startDate)} - ${formatDay(after.endDate)}`,
+      ...(after.rolloverPolicy && after.rolloverPolicy !== 'none'
+        ? [`${ROLLOVER_NAMES[after.rolloverPolicy]} · ${formatRolloverCap(after)}`]
+        : []),
+    ];
+  }
+
+  const changes: string[] = [];
+  if (before.budgetMode !== after.budgetMode) {
+    changes.push(`Mode: ${MODE_NAMES[before.budgetMode]} → ${MODE_NAMES[after.budgetMode]}`);
+  }
+  if (before.homeCurrency !== after.homeCurrency) {
+    changes.push(`Currency: ${before.homeCurrency} → ${after.homeCurrency}`);
+  }
+  if (before.startDate !== after.startDate || before.endDate !== after.endDate) {
+    changes.push(
+      `Dates: ${formatDay(before.startDate)} - ${formatDay(before.endDate)} → ${formatDay(after.startDate)} - ${formatDay(after.endDate)}`
+    );
+  }
+  // Old snapshots don't have the rollover settings, so there's nothing to compare them with
+  if (before.rolloverPolicy !== undefined && before.rolloverPolicy !== after.rolloverPolicy) {
+    changes.push(`Rollover: ${ROLLOVER_NAMES[before.rolloverPolicy]} → ${ROLLOVER_NAMES[after.rolloverPolicy ?? 'none']}`);
+  }
+  if (before.rolloverPolicy !== undefined && before.rolloverCap !== after.rolloverCap) {
+    changes.push(`Rollover limit: ${formatRolloverCap(before)} → ${formatRolloverCap(after)}`);
+  }
+  return changes;
+};
+
+// Timeline of every change to the budget settings, so it's clear why the balance moved
+export default function BudgetHistory({ onClose }: BudgetHistoryProps) {
+  const { budget, getBudgetChanges } = useData();
+  const [changes, setChanges] = useState<BudgetChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Picks up changes made while it's open (e.g. an undo)
+  useEffect(() => {
+    getBudgetChanges()
+      .then(loaded => {
+        setChanges(loaded);
+        setLoadError(null);
+      })
+      .catch(err => {
+        console.error('Error loading budget history:', err);
+        setLoadError(errorMessage(err));
+      })
+      .finally(() => setLoading(false));
+  }, [getBudgetChanges, budget]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-800 rounded-lg p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-2xl font-bold text-white">Budget History</h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-white hover:bg-slate-700 rounded transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <p className="text-gray-400 text-sm">Loading...</p>
+        ) : loadError ? (
+          <p className="text-red-300 text-sm">Couldn't load the budget history: {loadError}</p>
+        ) : changes.length === 0 ? (
+          <p className="text-gray-400 text-sm">
+            Changes to your budget, balance, mode, dates and rollover will show up here.
+          </p>
+        ) : (
+          <ol className="relative border-l border-slate-600 ml-3 space-y-4">
+            {changes.map((change) => {
+              const { label, icon: Icon } = REASON_INFO[change.reason];
+              const { before, after } = change;
+              const amountChanged = !before || before.semesterBudget !== after.semesterBudget;
+              // Amounts in different currencies can't be subtracted
+              const delta = before && before.homeCurrency === after.homeCurrency
+                ? after.semesterBudget - before.semesterBudget
+                : null;
+              return (
+                <li key={change.id} className="ml-6">
+                  <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-slate-700 ring-4 ring-slate-800">
+                    <Icon className="w-3.5 h-3.5 text-primary-400" />
+                  </span>
+                  <div className="bg-slate-700 rounded-lg p-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="text-sm font-medium text-white">{label}</p>
+                      <p className="text-xs text-gray-400 whitespace-nowrap">
+                        {format(parseISO(change.changedAt), 'MMM d, yyyy h:mm a')}
+                      </p>
+                    </div>
+                    {amountChanged && (
+                      <p className="text-sm text-gray-300 mt-1 flex flex-wrap items-center gap-1">
+                        {AMOUNT_LABELS[after.budgetMode]}:
+                        {before && (
+                          <>
+                            <span>{formatMoney(before.semesterBudget, before.homeCurrency)}</span>
+                            <ArrowRight className="w-3 h-3 text-gray-400" />
+                          </>
+                        )}
+                        <span className="text-white font-medium">{formatMoney(after.semesterBudget, after.homeCurrency)}</span>
+                        {delta !== null && delta !== 0 && (
+                          <span className={delta > 0 ? 'text-green-400' : 'text-red-400'}>
+                            ({delta > 0 ? '+' : '-'}{formatMoney(Math.abs(delta), after.homeCurrency)})
+                          </span>
+                        )}
+                      </p>
+                    )}
+                    {describeSettingChanges(before, after).map((line) => (
+                      <p key={line} className="text-xs text-gray-400 mt-1">{line}</p>
+                    ))}
+                    {change.note && (
+                      <p className="text-xs text-gray-400 mt-1 italic">{change.note}</p>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
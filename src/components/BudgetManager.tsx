@@ -1,9 +1,10 @@
 import { useState, useEffect } from 'react';
 import { Budget, WishlistItem } from '../types';
-import { storage } from '../utils/supabaseStorage';
+import { useStorage } from '../contexts/StorageContext';
 import { DollarSign, Calendar, TrendingUp, Heart } from 'lucide-react';
 
 export default function BudgetManager() {
+  const storage = useStorage();
   const [budget, setBudget] = useState<Budget | null>(null);
   const [wishlist, setWishlist] = useState<WishlistItem[]>([]);
   const [loading, setLoading] = useState(true);
@@ -45,7 +46,7 @@ export default function BudgetManager() {
     };
     
     loadData();
-  }, []);
+  }, [storage]);
 
   const handleSave = async () => {
     if (!semesterBudget || !startDate || !endDate) {
@@ -19,13 +19,28 @@ import {
   isBefore,
   isToday
 } from 'date-fns';
-import { ChevronLeft, ChevronRight, Heart, X, Plus, Trash2 } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Heart, X, Plus, Trash2, Repeat } from 'lucide-react';
 import { useData } from '../contexts/DataContext';
-import { Trip, WeeklyPlan, WeeklyPlanEvent } from '../types';
-import { storage } from '../utils/supabaseStorage';
+import { Cents, RecurringExpense, Trip, WeeklyPlan, WeeklyPlanEvent } from '../types';
+import { getHomeCurrency } from '../utils/currency';
+import { divideCents, formatMoney, parseMoneyInput, sumCents } from '../utils/money';
+import { createConverter } from '../utils/exchangeRates';
+import { calculateUpcomingRecurring, getUpcomingOccurrences } from '../utils/recurring';
+import {
+  calculateDailyAllowance,
+  calculateFundingTotals,
+  calculateGoalAdjustment,
+  calculateGoalSetAside,
+  calculateWeeklyBudgets,
+} from '../utils/budgetCalculations';
+import { patchById } from '../utils/storageBackend';
 
 export default function CalendarView() {
-  const { budget, trips, wishlist, expenses, loading } = useData();
+  const {
+    budget, trips, wishlist, expenses, recurringExpenses, funding, savingsGoals, exchangeRates, loading,
+    subscribeToWeeklyPlanEvents, addWeeklyPlanEvent, deleteWeeklyPlanEvent, getWeeklyPlan, createOrGetWeeklyPlan,
+  } = useData();
+  const convert = createConverter(budget, exchangeRates);
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDay, setSelectedDay] = useState<Date | null>(null);
   const [includeWishlist, setIncludeWishlist] = useState(false);
@@ -45,7 +60,7 @@ export default function CalendarView() {
       setLoadingPlan(true);
       try {
         const weekStart = format(selectedWeek, 'yyyy-MM-dd');
-        const plan = await storage.getWeeklyPlan(weekStart);
+        const plan = await getWeeklyPlan(weekStart);
         setWeeklyPlan(plan);
         
         // Also update the cache
@@ -60,7 +75,34 @@ export default function CalendarView() {
     };
     
     loadWeeklyPlan();
-  }, [selectedWeek]);
+  }, [selectedWeek, getWeeklyPlan]);
+
+  // Planned events added, edited or deleted on another device, or put back by undo
+  useEffect(() => subscribeToWeeklyPlanEvents(change => {
+    const patch = (plan: WeeklyPlan | null): WeeklyPlan | null => {
+      if (!plan) return plan;
+      // A deleted event only comes with its id, so look for it in every plan
+      if (change.record && change.record.planId !== plan.id) return plan;
+      const events = patchById(plan.events, change.id, change.record);
+      // Unchanged for deletes of events that aren't here, e.g. another user's
+      return events === plan.events ? plan : { ...plan, events };
+    };
+    setWeeklyPlan(patch);
+    setWeeklyPlansCache(prev => {
+      const patched = Array.from(prev, ([weekStart, plan]) => [weekStart, patch(plan)] as const);
+      return patched.some(([weekStart, plan]) => plan !== prev.get(weekStart)) ? new Map(patched) : prev;
+    });
+
+    // The first event of a week with no plan yet here belongs to a plan made on the other device
+    if (change.record && !weeklyPlan) {
+      const weekStart = format(selectedWeek, 'yyyy-MM-dd');
+      getWeeklyPlan(weekStart).then(plan => {
+        if (!plan) return;
+        setWeeklyPlan(plan);
+        setWeeklyPlansCache(prev => new Map(prev).set(weekStart, plan));
+      }).catch(err => console.error('Error loading weekly plan:', err));
+    }
+  }), [subscribeToWeeklyPlanEvents, weeklyPlan, selectedWeek, getWeeklyPlan]);
 
   const handlePreviousWeek = () => {
     setSelectedWeek(subWeeks(selectedWeek, 1));
@@ -79,14 +121,14 @@ export default function CalendarView() {
       // Create or get the plan for this week
       let plan = weeklyPlan;
       if (!plan) {
-        plan = await storage.createOrGetWeeklyPlan(weekStart);
+        plan = await createOrGetWeeklyPlan(weekStart);
       }
       
       // Add the event
-      const newEvent = await storage.addWeeklyPlanEvent(plan.id, {
+      const newEvent = await addWeeklyPlanEvent(plan.id, {
         dayOfWeek: newEventDay,
         eventName: newEventName.trim(),
-        amount: parseFloat(newEventAmount) || 0,
+        amount: parseMoneyInput(newEventAmount) ?? 0,
       });
       
       // Update local state
@@ -110,16 +152,16 @@ export default function CalendarView() {
     }
   };
 
-  const handleDeleteEvent = async (eventId: string) => {
+  const handleDeleteEvent = async (event: WeeklyPlanEvent) => {
     if (!weeklyPlan) return;
     
     try {
-      await storage.deleteWeeklyPlanEvent(eventId);
+      await deleteWeeklyPlanEvent(event);
       
       // Update local state
       const updatedPlan = {
         ...weeklyPlan,
-        events: weeklyPlan.events.filter(e => e.id !== eventId),
+        events: weeklyPlan.events.filter(e => e.id !== event.id),
       };
       setWeeklyPlan(updatedPlan);
       
@@ -137,26 +179,36 @@ export default function CalendarView() {
     return weeklyPlan.events.filter(e => e.dayOfWeek === dayOfWeek);
   };
 
-  const getDayTotal = (dayOfWeek: number): number => {
-    return getEventsForDay(dayOfWeek).reduce((sum, e) => sum + e.amount, 0);
+  const getDayTotal = (dayOfWeek: number): Cents => {
+    return sumCents(getEventsForDay(dayOfWeek), e => e.amount);
   };
 
-  const getWeekTotal = (): number => {
+  const getWeekTotal = (): Cents => {
     if (!weeklyPlan) return 0;
-    return weeklyPlan.events.reduce((sum, e) => sum + e.amount, 0);
+    return sumCents(weeklyPlan.events, e => e.amount);
   };
 
   // State to store weekly plans for different weeks (cache)
   const [weeklyPlansCache, setWeeklyPlansCache] = useState<Map<string, WeeklyPlan | null>>(new Map());
 
-  // Calculate allocated amount for a specific day (expenses + weekly plan events)
-  const getAllocatedForDay = (date: Date): number => {
+  // Recurring expenses not yet posted that fall on a given day
+  const getRecurringForDay = (date: Date): RecurringExpense[] => {
+    const dateStr = format(date, 'yyyy-MM-dd');
+    const today = format(new Date(), 'yyyy-MM-dd');
+    return recurringExpenses.filter(series => getUpcomingOccurrences(series, today, dateStr).includes(dateStr));
+  };
+
+  // Calculate allocated amount for a specific day (expenses + recurring expenses + weekly plan events)
+  const getAllocatedForDay = (date: Date): Cents => {
     let total = 0;
     
     // Add expenses for this date
     const dateStr = format(date, 'yyyy-MM-dd');
     const dayExpenses = expenses.filter(e => e.date === dateStr);
-    total += dayExpenses.reduce((sum, e) => sum + e.amount, 0);
+    total += sumCents(dayExpenses, e => convert(e.amount, e.currency, e.date));
+
+    // Add recurring expenses that will be posted on this date
+    total += sumCents(getRecurringForDay(date), series => convert(series.amount, series.currency, dateStr));
     
     // Add weekly plan events for this day
     const dayOfWeek = (date.getDay() + 6) % 7; // Convert to 0=Mon, 6=Sun
@@ -167,14 +219,14 @@ export default function CalendarView() {
     const cachedPlan = weeklyPlansCache.get(weekStartStr);
     if (cachedPlan) {
       const dayEvents = cachedPlan.events.filter(e => e.dayOfWeek === dayOfWeek);
-      total += dayEvents.reduce((sum, e) => sum + e.amount, 0);
+      total += sumCents(dayEvents, e => e.amount);
     } else if (format(dateWeekStart, 'yyyy-MM-dd') === format(selectedWeek, 'yyyy-MM-dd') && weeklyPlan) {
       // Use currently loaded weekly plan if it matches
       const dayEvents = weeklyPlan.events.filter(e => e.dayOfWeek === dayOfWeek);
-      total += dayEvents.reduce((sum, e) => sum + e.amount, 0);
+      total += sumCents(dayEvents, e => e.amount);
     } else {
       // Load this week's plan asynchronously and cache it
-      storage.getWeeklyPlan(weekStartStr).then(plan => {
+      getWeeklyPlan(weekStartStr).then(plan => {
         if (plan) {
           setWeeklyPlansCache(prev => new Map(prev).set(weekStartStr, plan));
         }
@@ -202,32 +254,43 @@ export default function CalendarView() {
 
   const budgetStart = parseISO(budget.startDate);
   const budgetEnd = parseISO(budget.endDate);
+
+  // All summary amounts are in the budget's home currency
+  const homeCurrency = getHomeCurrency(budget);
+  const money = (amount: Cents, fractionDigits: number = 2) => formatMoney(amount, homeCurrency, fractionDigits);
   
   // Calculate wishlist total cost
-  const wishlistTotal = wishlist.reduce((sum, item) => sum + item.estimatedCost, 0);
+  const wishlistTotal = sumCents(wishlist, item => convert(item.estimatedCost, item.currency));
   
-  // Calculate trip costs
-  const totalPlanned = trips.reduce((sum, trip) => sum + trip.plannedCost, 0);
+  // Calculate trip costs plus recurring expenses still to come
+  const totalPlanned = sumCents(trips, trip => convert(trip.plannedCost, trip.currency, trip.startDate))
+    + calculateUpcomingRecurring(budget, recurringExpenses, convert);
   
   // Calculate remaining budget with/without wishlist
   // For tracking mode, there's no budget limit, so we show 0
   const totalSpent = budget.spent;
-  const hasLimit = budget.budgetMode !== 'tracking' && budget.semesterBudget > 0;
+
+  // Income still to arrive counts towards the budget (received income too, in total mode)
+  const { received: fundingReceived, pending: fundingPending } = calculateFundingTotals(budget, funding, exchangeRates);
+  const availableFunds = budget.budgetMode === 'remaining'
+    ? budget.semesterBudget + fundingPending
+    : budget.semesterBudget + fundingReceived + fundingPending;
+  const hasLimit = budget.budgetMode !== 'tracking' && availableFunds > 0;
   
   // For "remaining" mode: semesterBudget is what user currently has, don't subtract spent
-  // For "total" mode: semesterBudget is total budget, subtract both spent and planned
+  // For "total" mode: semesterBudget is starting funds, subtract both spent and planned
   let remainingBudget = 0;
   let remainingBudgetWithWishlist = 0;
   
   if (hasLimit) {
     if (budget.budgetMode === 'remaining') {
       // In remaining mode, semesterBudget IS the current remaining, only subtract planned
-      remainingBudget = budget.semesterBudget - totalPlanned;
-      remainingBudgetWithWishlist = budget.semesterBudget - totalPlanned - wishlistTotal;
+      remainingBudget = availableFunds - totalPlanned;
+      remainingBudgetWithWishlist = availableFunds - totalPlanned - wishlistTotal;
     } else {
       // In total mode, subtract both spent and planned
-      remainingBudget = budget.semesterBudget - totalSpent - totalPlanned;
-      remainingBudgetWithWishlist = budget.semesterBudget - totalSpent - totalPlanned - wishlistTotal;
+      remainingBudget = availableFunds - totalSpent - totalPlanned;
+      remainingBudgetWithWishlist = availableFunds - totalSpent - totalPlanned - wishlistTotal;
     }
   }
 
@@ -246,15 +309,32 @@ export default function CalendarView() {
     remainingDays = differenceInDays(budgetEnd, today) + 1;
   }
 
-  // Calculate daily budget: divide remaining budget evenly across remaining days
+  // Savings goals change what's spread over the remaining days (see calculateGoalAdjustment),
+  // and each week's contributions are kept out of that week's allowance
+  const goalAdjustment = hasLimit ? calculateGoalAdjustment(budget, savingsGoals, trips, exchangeRates) : 0;
+  const goalSetAside = hasLimit ? calculateGoalSetAside(savingsGoals, startOfWeek(new Date(), { weekStartsOn: 1 })) : 0;
+
+  // Calculate daily budget: divide remaining budget evenly across remaining days, but never more
+  // than what's on hand until the next payment arrives, then take out this week's goal contributions
   // For tracking mode, show 0 since there's no limit
-  const dailyBudget = hasLimit ? remainingBudget / remainingDays : 0;
-  const dailyBudgetWithWishlist = hasLimit ? remainingBudgetWithWishlist / remainingDays : 0;
+  const baseDailyBudget = hasLimit ? calculateDailyAllowance(budget, remainingBudget + goalAdjustment, funding, exchangeRates) : 0;
+  const baseDailyBudgetWithWishlist = hasLimit
+    ? calculateDailyAllowance(budget, remainingBudgetWithWishlist + goalAdjustment, funding, exchangeRates)
+    : 0;
+  const dailyBudget = baseDailyBudget - divideCents(goalSetAside, 7);
+  const dailyBudgetWithWishlist = baseDailyBudgetWithWishlist - divideCents(goalSetAside, 7);
   
   // Calculate weekly budget
   const weeklyBudget = dailyBudget * 7;
   const weeklyBudgetWithWishlist = dailyBudgetWithWishlist * 7;
 
+  // With a rollover policy, the planner uses the selected week's own allowance instead: its share
+  // of the budget plus what earlier weeks carried over (see calculateWeeklyBudgets)
+  const plannerWeek = hasLimit && (budget.rolloverPolicy ?? 'none') !== 'none'
+    ? calculateWeeklyBudgets(budget, trips, expenses, exchangeRates, funding)
+      .find(week => week.week === format(selectedWeek, 'yyyy-MM-dd')) || null
+    : null;
+
   // Get all days in the current month view
   const monthStart = startOfMonth(currentDate);
   const monthEnd = endOfMonth(currentDate);
@@ -335,13 +415,13 @@ export default function CalendarView() {
             <div className="bg-slate-700 rounded-lg p-4">
               <div className="text-sm text-gray-400 mb-1">Total Spent</div>
               <div className="text-2xl font-bold text-red-400">
-                ${totalSpent.toFixed(2)}
+                {money(totalSpent)}
               </div>
             </div>
             <div className="bg-slate-700 rounded-lg p-4">
               <div className="text-sm text-gray-400 mb-1">Planned Spending</div>
               <div className="text-2xl font-bold text-yellow-400">
-                ${totalPlanned.toFixed(2)}
+                {money(totalPlanned)}
               </div>
             </div>
             <div className="bg-slate-700 rounded-lg p-4">
@@ -363,7 +443,7 @@ export default function CalendarView() {
                   ? 'text-white' 
                   : 'text-red-400'
               }`}>
-                ${(includeWishlist ? remainingBudgetWithWishlist : remainingBudget).toFixed(2)}
+                {money(includeWishlist ? remainingBudgetWithWishlist : remainingBudget)}
               </div>
               <div className="text-xs text-gray-400 mt-1">
                 {budget.budgetMode === 'remaining' ? 'Remaining - Planned' : 'After spent + planned'}
@@ -398,7 +478,7 @@ export default function CalendarView() {
                       ? 'text-green-400' 
                       : 'text-red-400'
                   }`}>
-                    ${(includeWishlist ? dailyBudgetWithWishlist : dailyBudget).toFixed(2)}
+                    {money(includeWishlist ? dailyBudgetWithWishlist : dailyBudget)}
                   </span>
                   <span className="text-sm text-gray-400">/ day</span>
                 </div>
@@ -408,10 +488,15 @@ export default function CalendarView() {
                       ? 'text-blue-400' 
                       : 'text-red-400'
                   }`}>
-                    ${(includeWishlist ? weeklyBudgetWithWishlist : weeklyBudget).toFixed(2)}
+                    {money(includeWishlist ? weeklyBudgetWithWishlist : weeklyBudget)}
                   </span>
                   <span className="text-sm text-gray-400">/ week</span>
                 </div>
+                {goalSetAside > 0 && (
+                  <div className="text-xs text-gray-400">
+                    After {money(goalSetAside)} a week for savings goals
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -428,12 +513,12 @@ export default function CalendarView() {
             ) : selectedDayInfo?.inBudgetPeriod && selectedDayInfo?.isFutureDay ? (
               (() => {
                 const allocated = getAllocatedForDay(selectedDay);
-                const budget = (includeWishlist ? dailyBudgetWithWishlist : dailyBudget);
+                const dayBudget = (includeWishlist ? dailyBudgetWithWishlist : dailyBudget);
                 
                 return (
                   <div className="flex items-center gap-2">
                     <span className={`text-lg font-bold ${allocated > 0 ? 'text-yellow-400' : 'text-green-400'}`}>
-                      {allocated > 0 ? `$${allocated.toFixed(2)}/$${budget.toFixed(2)}` : `$${budget.toFixed(2)}`}
+                      {allocated > 0 ? `${money(allocated)}/${money(dayBudget)}` : money(dayBudget)}
                     </span>
                     <span className="text-sm text-gray-400">daily budget</span>
                   </div>
@@ -472,6 +557,10 @@ export default function CalendarView() {
           <div className="w-4 h-4 bg-slate-600 border-2 border-slate-400 rounded"></div>
           <span className="text-gray-300">Outside Budget Period</span>
         </div>
+        <div className="flex items-center gap-2">
+          <Repeat className="w-4 h-4 text-yellow-400" />
+          <span className="text-gray-300">Recurring Expense</span>
+        </div>
       </div>
 
       {/* Calendar Grid */}
@@ -498,6 +587,7 @@ export default function CalendarView() {
           const isCurrentDay = isToday(day);
           const isCurrentMonth = isSameMonth(day, currentDate);
           const isSelected = selectedDay && isSameDay(day, selectedDay);
+          const dayRecurring = getRecurringForDay(day);
 
           return (
             <button
@@ -520,6 +610,15 @@ export default function CalendarView() {
                 <div className={`text-sm font-semibold ${isCurrentDay ? 'text-yellow-400' : trip ? 'text-white' : 'text-gray-300'}`}>
                   {format(day, 'd')}
                 </div>
+                {dayRecurring.length > 0 && (
+                  <div
+                    className={`text-xs truncate flex items-center gap-1 ${trip ? 'text-white' : 'text-yellow-400'}`}
+                    title={dayRecurring.map(series => `${series.description}: ${formatMoney(series.amount, series.currency)}`).join('\n')}
+                  >
+                    <Repeat className="w-3 h-3 flex-shrink-0" />
+                    <span className="truncate">{dayRecurring.map(series => series.description).join(', ')}</span>
+                  </div>
+                )}
                 {trip && (
                   <div className="mt-auto text-xs text-white truncate" title={trip.name}>
                     {trip.name}
@@ -584,7 +683,7 @@ export default function CalendarView() {
                     <div className="flex items-center justify-between mb-2">
                       <div className="text-sm font-semibold text-gray-300">{day}</div>
                       {dayTotal > 0 && (
-                        <div className="text-xs font-bold text-yellow-400">${dayTotal.toFixed(0)}</div>
+                        <div className="text-xs font-bold text-yellow-400">{money(dayTotal, 0)}</div>
                       )}
                     </div>
                     
@@ -601,11 +700,11 @@ export default function CalendarView() {
                             <div className="flex-1 min-w-0">
                               <div className="text-xs text-white truncate">{event.eventName}</div>
                               {event.amount > 0 && (
-                                <div className="text-xs text-green-400">${event.amount.toFixed(0)}</div>
+                                <div className="text-xs text-green-400">{money(event.amount, 0)}</div>
                               )}
                             </div>
                             <button
-                              onClick={() => handleDeleteEvent(event.id)}
+                              onClick={() => handleDeleteEvent(event)}
                               className="p-1 text-gray-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
                             >
                               <Trash2 className="w-3 h-3" />
@@ -622,7 +721,11 @@ export default function CalendarView() {
             {/* Week Plan Summary */}
             {(() => {
               const plannedTotal = getWeekTotal();
-              const actualWeeklyBudget = includeWishlist ? weeklyBudgetWithWishlist : weeklyBudget;
+              // Goal contributions for the week shown, which may differ from this week's
+              const plannerSetAside = hasLimit ? calculateGoalSetAside(savingsGoals, selectedWeek) : 0;
+              const actualWeeklyBudget = (plannerWeek
+                ? plannerWeek.allowance
+                : (includeWishlist ? baseDailyBudgetWithWishlist : baseDailyBudget) * 7) - plannerSetAside;
               const difference = actualWeeklyBudget - plannedTotal;
               
               return (
@@ -630,7 +733,7 @@ export default function CalendarView() {
                   <div className="bg-slate-700 rounded-lg p-3">
                     <div className="text-xs text-gray-400 mb-1">Planned This Week</div>
                     <div className="text-xl font-bold text-yellow-400">
-                      ${plannedTotal.toFixed(2)}
+                      {money(plannedTotal)}
                     </div>
                     <div className="text-xs text-gray-500 mt-1">
                       {weeklyPlan?.events.length || 0} events
@@ -639,15 +742,30 @@ export default function CalendarView() {
                   <div className="bg-slate-700 rounded-lg p-3">
                     <div className="text-xs text-gray-400 mb-1">Weekly Budget</div>
                     <div className={`text-xl font-bold ${actualWeeklyBudget >= 0 ? 'text-blue-400' : 'text-red-400'}`}>
-                      ${actualWeeklyBudget.toFixed(2)}
+                      {money(actualWeeklyBudget)}
                     </div>
+                    {plannerWeek && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        {money(plannerWeek.budget)} this week
+                        {plannerWeek.carriedOver !== 0 && (
+                          <span className={plannerWeek.carriedOver > 0 ? 'text-green-400' : 'text-red-400'}>
+                            {' '}{plannerWeek.carriedOver > 0 ? '+' : '-'} {money(Math.abs(plannerWeek.carriedOver))} carried over
+                          </span>
+                        )}
+                      </div>
+                    )}
+                    {plannerSetAside > 0 && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        {money(plannerSetAside)} kept for savings goals
+                      </div>
+                    )}
                   </div>
                   <div className="bg-slate-700 rounded-lg p-3">
                     <div className="text-xs text-gray-400 mb-1">
                       {difference >= 0 ? 'Under Budget' : 'Over Budget'}
                     </div>
                     <div className={`text-xl font-bold ${difference >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                      ${Math.abs(difference).toFixed(2)}
+                      {money(Math.abs(difference))}
                     </div>
                   </div>
                 </div>
@@ -709,7 +827,7 @@ export default function CalendarView() {
               
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-2">
-                  Amount ($)
+                  Amount ({homeCurrency})
                 </label>
                 <input
                   type="number"
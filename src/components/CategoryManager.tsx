@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { Plus, Trash2, X, Edit2 } from 'lucide-react';
+import { CategoryCapPeriod, ExpenseCategory } from '../types';
+import { useData } from '../contexts/DataContext';
+import { CATEGORY_COLORS, CATEGORY_ICONS, CategoryIcon, getCategoryIcon } from '../utils/categories';
+import { getHomeCurrency } from '../utils/currency';
+import { centsToDecimal, formatMoney, parseMoneyInput } from '../utils/money';
+import { errorMessage } from '../utils/errors';
+
+interface CategoryManagerProps {
+  onClose: () => void;
+}
+
+const emptyForm = {
+  name: '',
+  color: CATEGORY_COLORS[0],
+  icon: 'tag',
+  cap: '',
+  capPeriod: 'monthly' as CategoryCapPeriod,
+};
+
+export default function CategoryManager({ onClose }: CategoryManagerProps) {
+  const { budget, categories, addCategory, updateCategory, deleteCategory } = useData();
+  const homeCurrency = getHomeCurrency(budget);
+  const [editingCategory, setEditingCategory] = useState<ExpenseCategory | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const handleEdit = (category?: ExpenseCategory) => {
+    if (category) {
+      setEditingCategory(category);
+      setFormData({
+        name: category.name,
+        color: category.color,
+        icon: category.icon,
+        cap: category.cap !== undefined ? centsToDecimal(category.cap) : '',
+        capPeriod: category.capPeriod,
+      });
+    } else {
+      setEditingCategory(null);
+      setFormData(emptyForm);
+    }
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = formData.name.trim();
+    const duplicate = categories.find(c => c.name.toLowerCase() === name.toLowerCase() && c.id !== editingCategory?.id);
+    if (duplicate) {
+      alert(`A category called "${duplicate.name}" already exists`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const category: ExpenseCategory = {
+        id: editingCategory?.id || crypto.randomUUID(),
+        name,
+        color: formData.color,
+        icon: formData.icon,
+        cap: parseMoneyInput(formData.cap) ?? undefined,
+        capPeriod: formData.capPeriod,
+      };
+
+      if (editingCategory) {
+        await updateCategory(editingCategory.id, category);
+      } else {
+        await addCategory(category);
+      }
+
+      setShowForm(false);
+      setEditingCategory(null);
+    } catch (error) {
+      alert('Error saving category: ' + errorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (category: ExpenseCategory) => {
+    if (!confirm(`Delete "${category.name}"? Its expenses will become uncategorised.`)) return;
+
+    try {
+      await deleteCategory(category.id);
+    } catch (error) {
+      alert('Error deleting category: ' + errorMessage(error));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-800 rounded-lg p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-2xl font-bold text-white">Categories</h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-white hover:bg-slate-700 rounded transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {showForm ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Name *
+              </label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Colour
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {CATEGORY_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => setFormData({ ...formData, color })}
+                    className={`w-7 h-7 rounded-full border-2 ${formData.color === color ? 'border-white' : 'border-transparent'}`}
+                    style={{ backgroundColor: color }}
+                  />
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Icon
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(CATEGORY_ICONS) as CategoryIcon[]).map((icon) => {
+                  const Icon = CATEGORY_ICONS[icon];
+                  return (
+                    <button
+                      key={icon}
+                      type="button"
+                      onClick={() => setFormData({ ...formData, icon })}
+                      className={`p-2 rounded-lg border-2 ${formData.icon === icon ? 'border-primary-500 bg-primary-500/10' : 'border-slate-600 bg-slate-700'}`}
+                    >
+                      <Icon className="w-4 h-4" style={{ color: formData.color }} />
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Cap ({homeCurrency})
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.cap}
+                  onChange={(e) => setFormData({ ...formData, cap: e.target.value })}
+                  className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                  placeholder="No cap"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Per
+                </label>
+                <select
+                  value={formData.capPeriod}
+                  onChange={(e) => setFormData({ ...formData, capPeriod: e.target.value as CategoryCapPeriod })}
+                  className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                >
+                  <option value="monthly">Month</option>
+                  <option value="semester">Semester</option>
+                </select>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="flex-1 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : editingCategory ? 'Update Category' : 'Add Category'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="flex-1 px-4 py-2 bg-slate-600 hover:bg-slate-700 text-white rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-3">
+            {categories.map((category) => {
+              const Icon = getCategoryIcon(category.icon);
+              return (
+                <div key={category.id} className="bg-slate-700 rounded-lg p-3 flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg" style={{ backgroundColor: `${category.color}33` }}>
+                      <Icon className="w-4 h-4" style={{ color: category.color }} />
+                    </div>
+                    <div>
+                      <p className="text-white font-medium">{category.name}</p>
+                      <p className="text-xs text-gray-400">
+                        {category.cap !== undefined
+                          ? `Cap ${formatMoney(category.cap, homeCurrency)} / ${category.capPeriod === 'semester' ? 'semester' : 'month'}`
+                          : 'No cap'}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => handleEdit(category)}
+                      className="p-2 text-primary-400 hover:bg-slate-600 rounded transition-colors"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(category)}
+                      className="p-2 text-red-400 hover:bg-slate-600 rounded transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+            <button
+              onClick={() => handleEdit()}
+              className="w-full px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors flex items-center justify-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add Category
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
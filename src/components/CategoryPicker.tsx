@@ -0,0 +1,38 @@
+import { ExpenseCategory } from '../types';
+import { getCategoryIcon } from '../utils/categories';
+
+interface CategoryPickerProps {
+  categories: ExpenseCategory[];
+  value: string;               // Selected category id, '' for none
+  onChange: (categoryId: string) => void;
+}
+
+export default function CategoryPicker({ categories, value, onChange }: CategoryPickerProps) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {categories.map((category) => {
+        const Icon = getCategoryIcon(category.icon);
+        const selected = value === category.id;
+        return (
+          <button
+            key={category.id}
+            type="button"
+            onClick={() => onChange(selected ? '' : category.id)}
+            className={`px-3 py-1.5 rounded-lg border-2 text-sm flex items-center gap-1.5 transition-colors ${
+              selected
+                ? 'text-white'
+                : 'border-slate-600 bg-slate-700 text-gray-300 hover:border-slate-500'
+            }`}
+            style={selected ? { borderColor: category.color, backgroundColor: `${category.color}33` } : undefined}
+          >
+            <Icon className="w-4 h-4" style={{ color: category.color }} />
+            {category.name}
+          </button>
+        );
+      })}
+      {categories.length === 0 && (
+        <p className="text-xs text-gray-500">No categories yet.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { GitMerge, X } from 'lucide-react';
+
+export interface ConflictField<T> {
+  key: keyof T;
+  label: string;
+  // How to show a value, e.g. as money in the record's currency
+  format?: (record: T) => string;
+}
+
+interface ConflictMergeProps<T> {
+  what: string;                 // "trip", "wishlist item", "budget"
+  mine: T;                      // What this device tried to save
+  theirs: T | null;             // As saved by the other device, null when it was deleted there
+  fields: ConflictField<T>[];
+  // Called with the merged record to save (carrying the other device's version), or null to
+  // keep the other device's copy as it is
+  onResolve: (merged: T | null) => Promise<void>;
+  // Back to the edit form
+  onClose: () => void;
+}
+
+const showValue = <T,>(record: T, field: ConflictField<T>): string => {
+  if (field.format) return field.format(record);
+  const value = record[field.key];
+  return value === undefined || value === null || value === '' ? '—' : String(value);
+};
+
+// Shown when an edit is rejected because another device saved the same record first. Lists
+// the fields that differ so each one can be taken from either side.
+export default function ConflictMerge<T extends { version?: number }>({
+  what,
+  mine,
+  theirs,
+  fields,
+  onResolve,
+  onClose,
+}: ConflictMergeProps<T>) {
+  const differing = theirs ? fields.filter(field => showValue(mine, field) !== showValue(theirs, field)) : [];
+  const [useMine, setUseMine] = useState<Set<keyof T>>(() => new Set(differing.map(field => field.key)));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const resolve = async (merged: T | null) => {
+    setIsSaving(true);
+    try {
+      await onResolve(merged);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveMerged = () => {
+    if (!theirs) {
+      resolve({ ...mine, version: undefined });
+      return;
+    }
+    const merged = { ...theirs };
+    differing.forEach(field => {
+      if (useMine.has(field.key)) merged[field.key] = mine[field.key];
+    });
+    resolve(merged);
+  };
+
+  const choose = (key: keyof T, mineWins: boolean) => {
+    const next = new Set(useMine);
+    if (mineWins) {
+      next.add(key);
+    } else {
+      next.delete(key);
+    }
+    setUseMine(next);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-800 rounded-lg p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-2xl font-bold text-white flex items-center gap-2">
+            <GitMerge className="w-6 h-6 text-yellow-400" />
+            {theirs ? 'Changed on Another Device' : 'Deleted on Another Device'}
+          </h3>
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="p-2 text-gray-400 hover:text-white hover:bg-slate-700 rounded transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!theirs ? (
+          <p className="text-sm text-gray-300 mb-4">
+            This {what} was deleted on another device while you were editing it. Save it again with your
+            changes, or let the deletion stand.
+          </p>
+        ) : differing.length === 0 ? (
+          <p className="text-sm text-gray-300 mb-4">
+            This {what} was saved on another device while you were editing it, with the same values as yours.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-300 mb-4">
+              This {what} was saved on another device while you were editing it. Pick which value to keep for
+              each field that differs.
+            </p>
+            <div className="space-y-3 mb-4">
+              {differing.map(field => (
+                <div key={String(field.key)} className="bg-slate-700 rounded-lg p-3">
+                  <p className="text-xs font-medium text-gray-400 mb-2">{field.label}</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {[true, false].map(mineWins => (
+                      <button
+                        key={String(mineWins)}
+                        type="button"
+                        onClick={() => choose(field.key, mineWins)}
+                        className={`text-left px-3 py-2 rounded-lg border text-sm transition-colors ${
+                          useMine.has(field.key) === mineWins
+                            ? 'border-primary-500 bg-primary-500/20 text-white'
+                            : 'border-slate-600 text-gray-300 hover:bg-slate-600'
+                        }`}
+                      >
+                        <span className="block text-xs text-gray-400">{mineWins ? 'Yours' : 'Other device'}</span>
+                        <span className="break-words">{showValue(mineWins ? mine : theirs, field)}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={handleSaveMerged}
+            disabled={isSaving}
+            className="flex-1 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : theirs ? 'Save Merged' : 'Save Again'}
+          </button>
+          <button
+            onClick={() => resolve(null)}
+            disabled={isSaving}
+            className="flex-1 px-4 py-2 bg-slate-600 hover:bg-slate-700 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            {theirs ? 'Keep Theirs' : 'Discard Mine'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
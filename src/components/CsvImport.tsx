@@ -0,0 +1,324 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Upload, X, Save, Trash2 } from 'lucide-react';
+import { Expense } from '../types';
+import { useData } from '../contexts/DataContext';
+import { CURRENCIES, getHomeCurrency } from '../utils/currency';
+import { formatMoney } from '../utils/money';
+import {
+  CSV_DATE_FORMATS,
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvImportPreset,
+  flagDuplicates,
+  guessMapping,
+  mapCsvRows,
+  parseCsv,
+} from '../utils/csvImport';
+import { errorMessage } from '../utils/errors';
+import CategoryPicker from './CategoryPicker';
+
+interface CsvImportProps {
+  onClose: () => void;
+}
+
+export default function CsvImport({ onClose }: CsvImportProps) {
+  const { budget, expenses, categories, addExpenses, csvPresets: presets, saveCsvPreset, deleteCsvPreset } = useData();
+  const homeCurrency = getHomeCurrency(budget);
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [presetName, setPresetName] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  // Lines the user has unticked (duplicates start unticked)
+  const [skippedLines, setSkippedLines] = useState<Set<number>>(new Set());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const preview = mapping ? mapCsvRows(csvRows, mapping) : { rows: [], errors: [] };
+  const previewRows = flagDuplicates(preview.rows, expenses);
+  const selectedRows = previewRows.filter(row => !skippedLines.has(row.line));
+
+  // Column names from the header row, or "Column N" when there isn't one
+  const columns = (csvRows[0] || []).map((name, index) =>
+    mapping?.hasHeader && name ? name : `Column ${index + 1}`
+  );
+
+  const applyMapping = (newMapping: CsvColumnMapping, rows: string[][] = csvRows) => {
+    setMapping(newMapping);
+    // Untick likely duplicates every time the mapping changes
+    const duplicates = flagDuplicates(mapCsvRows(rows, newMapping).rows, expenses)
+      .filter(row => row.duplicateOf)
+      .map(row => row.line);
+    setSkippedLines(new Set(duplicates));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const rows = parseCsv(await file.text());
+    if (rows.length === 0) {
+      alert('That file has no rows');
+      return;
+    }
+    setCsvRows(rows);
+    applyMapping(mapping || guessMapping(rows[0], homeCurrency), rows);
+  };
+
+  const updateMapping = (updates: Partial<CsvColumnMapping>) => {
+    if (mapping) applyMapping({ ...mapping, ...updates });
+  };
+
+  const handleSelectPreset = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (!preset) return;
+    setPresetName(preset.name);
+    applyMapping(preset.mapping);
+  };
+
+  const handleSavePreset = async () => {
+    const name = presetName.trim();
+    if (!mapping || !name) {
+      alert('Enter a name for this preset, e.g. your bank');
+      return;
+    }
+
+    try {
+      const existing = presets.find(p => p.name.toLowerCase() === name.toLowerCase());
+      await saveCsvPreset({ id: existing?.id || crypto.randomUUID(), name: existing?.name || name, mapping });
+    } catch (error) {
+      alert('Error saving preset: ' + errorMessage(error));
+    }
+  };
+
+  const handleDeletePreset = async (preset: CsvImportPreset) => {
+    if (!confirm(`Delete the "${preset.name}" preset?`)) return;
+
+    try {
+      await deleteCsvPreset(preset.id);
+    } catch (error) {
+      alert('Error deleting preset: ' + errorMessage(error));
+    }
+  };
+
+  const toggleLine = (line: number) => {
+    const next = new Set(skippedLines);
+    if (next.has(line)) {
+      next.delete(line);
+    } else {
+      next.add(line);
+    }
+    setSkippedLines(next);
+  };
+
+  const handleImport = async () => {
+    if (selectedRows.length === 0) return;
+    setIsSaving(true);
+
+    try {
+      const newExpenses: Expense[] = selectedRows.map(row => ({
+        id: crypto.randomUUID(),
+        description: row.description,
+        amount: row.amount,
+        currency: row.currency,
+        date: row.date,
+        categoryId: categoryId || undefined,
+      }));
+
+      await addExpenses(newExpenses);
+      onClose();
+    } catch (error) {
+      alert('Error importing expenses: ' + errorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectClass = 'w-full px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-800 rounded-lg p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-2xl font-bold text-white">Import Bank Statement</h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-white hover:bg-slate-700 rounded transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-3">
+            <label className="flex-1 px-4 py-3 bg-slate-700 border-2 border-dashed border-slate-600 hover:border-primary-500 rounded-lg cursor-pointer text-gray-300 text-sm flex items-center justify-center gap-2 transition-colors">
+              <Upload className="w-4 h-4" />
+              {csvRows.length > 0 ? `${csvRows.length} rows loaded - choose another file` : 'Choose a CSV file'}
+              <input type="file" accept=".csv,text/csv,text/plain" onChange={handleFile} className="hidden" />
+            </label>
+            {presets.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => handleSelectPreset(e.target.value)}
+                className="sm:w-48 px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none text-sm"
+              >
+                <option value="" disabled>Use a preset...</option>
+                {presets.map((preset) => (
+                  <option key={preset.id} value={preset.id}>{preset.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {mapping && (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">Date</label>
+                  <select value={mapping.dateColumn} onChange={(e) => updateMapping({ dateColumn: Number(e.target.value) })} className={selectClass}>
+                    {columns.map((name, index) => <option key={index} value={index}>{name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">Description</label>
+                  <select value={mapping.descriptionColumn} onChange={(e) => updateMapping({ descriptionColumn: Number(e.target.value) })} className={selectClass}>
+                    {columns.map((name, index) => <option key={index} value={index}>{name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">Amount</label>
+                  <select value={mapping.amountColumn} onChange={(e) => updateMapping({ amountColumn: Number(e.target.value) })} className={selectClass}>
+                    {columns.map((name, index) => <option key={index} value={index}>{name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">Currency</label>
+                  <select
+                    value={mapping.currencyColumn ?? ''}
+                    onChange={(e) => updateMapping({ currencyColumn: e.target.value === '' ? null : Number(e.target.value) })}
+                    className={selectClass}
+                  >
+                    <option value="">Always {mapping.defaultCurrency}</option>
+                    {columns.map((name, index) => <option key={index} value={index}>{name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">Date format</label>
+                  <select value={mapping.dateFormat} onChange={(e) => updateMapping({ dateFormat: e.target.value as CsvDateFormat })} className={selectClass}>
+                    {CSV_DATE_FORMATS.map((dateFormat) => <option key={dateFormat} value={dateFormat}>{dateFormat}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">Default currency</label>
+                  <select value={mapping.defaultCurrency} onChange={(e) => updateMapping({ defaultCurrency: e.target.value })} className={selectClass}>
+                    {CURRENCIES.map(({ code }) => <option key={code} value={code}>{code}</option>)}
+                  </select>
+                </div>
+                <div className="col-span-2 flex flex-col justify-end gap-1 text-sm text-gray-300">
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={mapping.hasHeader} onChange={(e) => updateMapping({ hasHeader: e.target.checked })} />
+                    First row is a header
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={mapping.decimalComma} onChange={(e) => updateMapping({ decimalComma: e.target.checked })} />
+                    Amounts use a decimal comma (1.234,56)
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={mapping.debitsNegative} onChange={(e) => updateMapping({ debitsNegative: e.target.checked })} />
+                    Spending is negative (skip money in)
+                  </label>
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  className="flex-1 px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none text-sm"
+                  placeholder="Preset name, e.g. Revolut"
+                />
+                <button
+                  onClick={handleSavePreset}
+                  className="px-3 py-2 text-sm bg-slate-600 hover:bg-slate-700 text-white rounded-lg transition-colors flex items-center gap-2"
+                >
+                  <Save className="w-4 h-4" />
+                  Save Preset
+                </button>
+              </div>
+              {presets.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {presets.map((preset) => (
+                    <span key={preset.id} className="text-xs px-2 py-1 bg-slate-700 text-gray-300 rounded flex items-center gap-1">
+                      {preset.name}
+                      <button onClick={() => handleDeletePreset(preset)} className="text-gray-500 hover:text-red-400">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {preview.errors.length > 0 && (
+                <div className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-xs text-red-300 space-y-1 max-h-24 overflow-y-auto">
+                  {preview.errors.map((error) => <p key={error}>{error}</p>)}
+                </div>
+              )}
+
+              <div className="max-h-72 overflow-y-auto rounded-lg border border-slate-700">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-700 text-gray-400 text-xs sticky top-0">
+                    <tr>
+                      <th className="p-2 w-8"></th>
+                      <th className="p-2 text-left">Date</th>
+                      <th className="p-2 text-left">Description</th>
+                      <th className="p-2 text-right">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {previewRows.map((row) => (
+                      <tr key={row.line} className={`border-t border-slate-700 ${skippedLines.has(row.line) ? 'opacity-50' : ''}`}>
+                        <td className="p-2">
+                          <input type="checkbox" checked={!skippedLines.has(row.line)} onChange={() => toggleLine(row.line)} />
+                        </td>
+                        <td className="p-2 text-gray-300 whitespace-nowrap">{format(parseISO(row.date), 'MMM d, yyyy')}</td>
+                        <td className="p-2 text-white">
+                          {row.description}
+                          {row.duplicateOf && (
+                            <span className="ml-2 text-xs px-1.5 py-0.5 bg-yellow-500/20 text-yellow-400 rounded">
+                              Possible duplicate
+                            </span>
+                          )}
+                        </td>
+                        <td className="p-2 text-right text-red-400 whitespace-nowrap">{formatMoney(row.amount, row.currency)}</td>
+                      </tr>
+                    ))}
+                    {previewRows.length === 0 && (
+                      <tr>
+                        <td colSpan={4} className="p-4 text-center text-gray-400">No expenses found with this mapping</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Category for imported expenses
+                </label>
+                <CategoryPicker categories={categories} value={categoryId} onChange={setCategoryId} />
+              </div>
+
+              <button
+                onClick={handleImport}
+                disabled={isSaving || selectedRows.length === 0}
+                className="w-full px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                {isSaving ? 'Importing...' : `Import ${selectedRows.length} Expense${selectedRows.length === 1 ? '' : 's'}`}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,26 @@
 import { useState, useEffect } from 'react';
-import { Budget, Expense, BudgetMode } from '../types';
-import { storage } from '../utils/supabaseStorage';
+import { Budget, Expense, BudgetMode, Cents, Funding, RolloverPolicy } from '../types';
 import { useData } from '../contexts/DataContext';
-import { Calendar, Plus, DollarSign, X, Heart, TrendingUp, Target, Wallet, BarChart3 } from 'lucide-react';
+import { HistoryGroup, useHistory } from '../contexts/HistoryContext';
+import { CURRENCIES, DEFAULT_CURRENCY } from '../utils/currency';
+import { centsToDecimal, formatMoney, parseMoneyInput, sumCents } from '../utils/money';
+import { createConverter, getMissingRates } from '../utils/exchangeRates';
+import { calculateBalanceForecast, calculateCategorySpending, calculateFundingTotals, calculateWeeklyBudgets, getCurrentWeekBudget } from '../utils/budgetCalculations';
+import { findCategory, getCategoryIcon } from '../utils/categories';
+import ExchangeRatesManager from './ExchangeRatesManager';
+import CategoryPicker from './CategoryPicker';
+import CategoryManager from './CategoryManager';
+import RecurringExpensesManager from './RecurringExpensesManager';
+import FundingSources from './FundingSources';
+import SavingsGoals from './SavingsGoals';
+import CsvImport from './CsvImport';
+import BudgetHistory from './BudgetHistory';
+import ScenarioPlanner from './ScenarioPlanner';
+import { calculateUpcomingRecurring } from '../utils/recurring';
+import { StorageConflictError } from '../utils/storageBackend';
+import { errorMessage } from '../utils/errors';
+import ConflictMerge, { ConflictField } from './ConflictMerge';
+import { Calendar, CalendarRange, Plus, DollarSign, X, Heart, TrendingUp, Target, Wallet, BarChart3, Tags, Repeat, Upload, History, TrendingDown, FlaskConical } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 
 const BUDGET_MODE_INFO = {
@@ -23,42 +41,88 @@ const BUDGET_MODE_INFO = {
   },
 };
 
+const ROLLOVER_INFO: Record<RolloverPolicy, { name: string; description: string }> = {
+  none: { name: 'No rollover', description: 'Every week starts afresh' },
+  surplus: { name: 'Carry savings', description: 'Money left at the end of a week is added to the next' },
+  deficit: { name: 'Carry overspending', description: 'Going over in one week is taken off the next' },
+  both: { name: 'Carry both', description: 'Savings and overspending both move on to the next week' },
+};
+
+const BUDGET_FIELDS: ConflictField<Budget>[] = [
+  { key: 'budgetMode', label: 'Budget Mode', format: budget => BUDGET_MODE_INFO[budget.budgetMode].name },
+  { key: 'semesterBudget', label: 'Amount', format: budget => formatMoney(budget.semesterBudget, budget.homeCurrency) },
+  { key: 'startDate', label: 'Start Date' },
+  { key: 'endDate', label: 'End Date' },
+  { key: 'homeCurrency', label: 'Home Currency' },
+  { key: 'rolloverPolicy', label: 'Weekly Rollover', format: budget => ROLLOVER_INFO[budget.rolloverPolicy ?? 'none'].name },
+  {
+    key: 'rolloverCap',
+    label: 'Rollover Limit',
+    format: budget => budget.rolloverCap !== undefined ? formatMoney(budget.rolloverCap, budget.homeCurrency) : 'No limit',
+  },
+];
+
 export default function Dashboard() {
-  const { budget, wishlist, trips, expenses, loading, refreshData, updateBudget } = useData();
+  const {
+    budget, wishlist, trips, expenses, categories, recurringExpenses, funding, exchangeRates, loading,
+    saveBudget, addExpense, deleteExpense, addFunding,
+  } = useData();
+  const { group } = useHistory();
   const [isEditingBudget, setIsEditingBudget] = useState(false);
+  const [budgetConflict, setBudgetConflict] = useState<{ mine: Budget; theirs: Budget | null } | null>(null);
   const [budgetMode, setBudgetMode] = useState<BudgetMode>('remaining');
   const [semesterBudget, setSemesterBudget] = useState('');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
+  const [homeCurrency, setHomeCurrency] = useState(DEFAULT_CURRENCY);
+  const [rolloverPolicy, setRolloverPolicy] = useState<RolloverPolicy>('none');
+  const [rolloverCap, setRolloverCap] = useState('');
   const [includeWishlist, setIncludeWishlist] = useState(false);
   const [showExpenseModal, setShowExpenseModal] = useState(false);
+  const [showCategoryManager, setShowCategoryManager] = useState(false);
+  const [showRecurringManager, setShowRecurringManager] = useState(false);
+  const [showCsvImport, setShowCsvImport] = useState(false);
+  const [showBudgetHistory, setShowBudgetHistory] = useState(false);
+  const [showScenarioPlanner, setShowScenarioPlanner] = useState(false);
   const [expenseModalTab, setExpenseModalTab] = useState<'expense' | 'balance'>('expense');
   const [showExpenseConfirm, setShowExpenseConfirm] = useState(false);
   const [showBalanceConfirm, setShowBalanceConfirm] = useState(false);
   const [newBalanceAmount, setNewBalanceAmount] = useState('');
   const [pendingExpense, setPendingExpense] = useState<{
     description: string;
-    amount: number;
+    amount: Cents;
+    currency: string;
     date: string;
-    category?: string;
+    categoryId?: string;
     notes?: string;
   } | null>(null);
   const [expenseForm, setExpenseForm] = useState({
     description: '',
     amount: '',
+    currency: DEFAULT_CURRENCY,
     date: format(new Date(), 'yyyy-MM-dd'),
-    category: '',
+    categoryId: '',
     notes: '',
   });
 
+  // Budget amounts are shown in the budget's home currency
+  const budgetCurrency = budget?.homeCurrency || DEFAULT_CURRENCY;
+  const money = (amount: Cents) => formatMoney(amount, budgetCurrency);
+  // Converts with the rate from each row's own date
+  const convert = createConverter(budget, exchangeRates);
+
   useEffect(() => {
     // Only set edit mode if budget is null AND not loading
     // This prevents showing edit mode during initial load
     if (budget) {
       setBudgetMode(budget.budgetMode);
-      setSemesterBudget(budget.semesterBudget.toString());
+      setSemesterBudget(centsToDecimal(budget.semesterBudget));
       setStartDate(budget.startDate);
       setEndDate(budget.endDate);
+      setHomeCurrency(budget.homeCurrency);
+      setRolloverPolicy(budget.rolloverPolicy ?? 'none');
+      setRolloverCap(budget.rolloverCap !== undefined ? centsToDecimal(budget.rolloverCap) : '');
+      setExpenseForm(form => ({ ...form, currency: budget.homeCurrency }));
       setIsEditingBudget(false);
     } else if (!loading) {
       // Only show edit mode if we're done loading and still have no budget
@@ -72,57 +136,112 @@ export default function Dashboard() {
       return;
     }
 
+    // An empty limit means carry-over isn't limited
+    const parsedRolloverCap = rolloverCap.trim() ? parseMoneyInput(rolloverCap) : undefined;
+    if (parsedRolloverCap === null || (parsedRolloverCap !== undefined && parsedRolloverCap < 0)) {
+      alert('Please enter a valid rollover limit');
+      return;
+    }
+
+    const newBudget: Budget = {
+      budgetMode,
+      semesterBudget: budgetMode === 'tracking' ? 0 : parseMoneyInput(semesterBudget) ?? 0,
+      startDate,
+      endDate,
+      homeCurrency,
+      spent: budget?.spent || 0,
+      plannedSpending: budget?.plannedSpending || 0,
+      rolloverPolicy,
+      rolloverCap: rolloverPolicy !== 'none' ? parsedRolloverCap : undefined,
+      // Rejected if another device saved the budget since this one loaded it
+      version: budget?.version,
+    };
+
     try {
-      const newBudget: Budget = {
-        budgetMode,
-        semesterBudget: budgetMode === 'tracking' ? 0 : parseFloat(semesterBudget),
-        startDate,
-        endDate,
-        spent: budget?.spent || 0,
-        plannedSpending: budget?.plannedSpending || 0,
-      };
+      await saveBudget(newBudget, { reason: budget ? 'edit' : 'setup' });
+      setIsEditingBudget(false);
+    } catch (error) {
+      if (error instanceof StorageConflictError) {
+        setBudgetConflict({ mine: newBudget, theirs: error.current as Budget | null });
+        return;
+      }
+      alert('Error saving budget: ' + errorMessage(error));
+    }
+  };
 
-      await storage.saveBudget(newBudget);
-      updateBudget(newBudget);
+  // `merged` is null when keeping the other device's budget
+  const handleResolveBudgetConflict = async (merged: Budget | null) => {
+    try {
+      if (merged) await saveBudget(merged, { reason: 'edit', note: 'Merged with changes from another device' });
+      setBudgetConflict(null);
       setIsEditingBudget(false);
-    } catch (error: any) {
-      alert('Error saving budget: ' + (error.message || 'Unknown error'));
+    } catch (error) {
+      if (error instanceof StorageConflictError && merged) {
+        setBudgetConflict({ mine: merged, theirs: error.current as Budget | null });
+        return;
+      }
+      alert('Error saving budget: ' + errorMessage(error));
     }
   };
 
   const handleCancelBudget = () => {
     if (budget) {
       setBudgetMode(budget.budgetMode);
-      setSemesterBudget(budget.semesterBudget.toString());
+      setSemesterBudget(centsToDecimal(budget.semesterBudget));
       setStartDate(budget.startDate);
       setEndDate(budget.endDate);
+      setHomeCurrency(budget.homeCurrency);
+      setRolloverPolicy(budget.rolloverPolicy ?? 'none');
+      setRolloverCap(budget.rolloverCap !== undefined ? centsToDecimal(budget.rolloverCap) : '');
       setIsEditingBudget(false);
     }
   };
 
-  // Calculate wishlist total cost
-  const wishlistTotal = wishlist.reduce((sum, item) => sum + item.estimatedCost, 0);
+  // Foreign currencies used anywhere, so the user can set a rate for each of them
+  const usedCurrencies = Array.from(new Set([
+    ...trips.map(trip => trip.currency),
+    ...wishlist.map(item => item.currency),
+    ...expenses.map(expense => expense.currency),
+    ...recurringExpenses.map(series => series.currency),
+    ...funding.map(item => item.currency),
+  ])).filter(code => code !== homeCurrency).sort();
+  const missingRates = getMissingRates(usedCurrencies, budget, exchangeRates);
+
+  // Calculate wishlist total cost (converted to the home currency)
+  // Wishlist items have no date, so they use the latest rate
+  const wishlistTotal = sumCents(wishlist, item => convert(item.estimatedCost, item.currency));
   
   // Calculate trip totals
-  const tripsPrepaid = trips.reduce((sum, trip) => sum + trip.prepaidCost, 0);
-  const tripsPlanned = trips.reduce((sum, trip) => sum + trip.plannedCost, 0);
-  const expensesTotal = expenses.reduce((sum, expense) => sum + expense.amount, 0);
+  const tripsPrepaid = sumCents(trips, trip => convert(trip.prepaidCost, trip.currency, trip.startDate));
+  const tripsPlanned = sumCents(trips, trip => convert(trip.plannedCost, trip.currency, trip.startDate));
+  const expensesTotal = sumCents(expenses, expense => convert(expense.amount, expense.currency, expense.date));
+  // Recurring expenses still to come before the budget period ends
+  const recurringPlanned = budget ? calculateUpcomingRecurring(budget, recurringExpenses, convert) : 0;
   
   // Total spent = prepaid trips + expenses
   const totalSpent = tripsPrepaid + expensesTotal;
-  // Total planned = planned trip costs
-  const totalPlanned = tripsPlanned;
+  // Total planned = planned trip costs + upcoming recurring expenses
+  const totalPlanned = tripsPlanned + recurringPlanned;
+
+  // Income: received money and money still to arrive
+  const { received: fundingReceived, pending: fundingPending } = budget
+    ? calculateFundingTotals(budget, funding, exchangeRates)
+    : { received: 0, pending: 0 };
+  // Total mode: starting funds plus all income, including what hasn't arrived yet
+  const totalFunds = budget ? budget.semesterBudget + fundingReceived + fundingPending : 0;
+  // Remaining mode: the balance already includes received money, so only add what's still to come
+  const balanceWithPending = budget ? budget.semesterBudget + fundingPending : 0;
   
   // Calculate budget with/without wishlist
   const totalSpentWithWishlist = totalSpent + wishlistTotal;
-  const remaining = budget ? budget.semesterBudget - totalSpent : 0;
-  const remainingWithWishlist = budget ? budget.semesterBudget - totalSpentWithWishlist : 0;
+  const remaining = budget ? totalFunds - totalSpent : 0;
+  const remainingWithWishlist = budget ? totalFunds - totalSpentWithWishlist : 0;
   const remainingAfterPlanned = remaining - totalPlanned;
   const remainingAfterPlannedWithWishlist = remainingWithWishlist - totalPlanned;
   
-  const percentageUsed = budget && budget.semesterBudget > 0 ? (totalSpent / budget.semesterBudget) * 100 : 0;
-  const percentageUsedWithWishlist = budget && budget.semesterBudget > 0 ? (totalSpentWithWishlist / budget.semesterBudget) * 100 : 0;
-  const percentageCommitted = budget && budget.semesterBudget > 0 ? ((totalSpent + totalPlanned) / budget.semesterBudget) * 100 : 0;
+  const percentageUsed = totalFunds > 0 ? (totalSpent / totalFunds) * 100 : 0;
+  const percentageUsedWithWishlist = totalFunds > 0 ? (totalSpentWithWishlist / totalFunds) * 100 : 0;
+  const percentageCommitted = totalFunds > 0 ? ((totalSpent + totalPlanned) / totalFunds) * 100 : 0;
 
   const [isSaving, setIsSaving] = useState(false);
 
@@ -135,15 +254,20 @@ export default function Dashboard() {
       return;
     }
 
-    const amount = parseFloat(expenseForm.amount);
+    const amount = parseMoneyInput(expenseForm.amount);
+    if (amount === null) {
+      alert('Please enter a valid amount');
+      return;
+    }
     
     // For remaining budget mode, show confirmation with new balance
     if (budget?.budgetMode === 'remaining') {
       setPendingExpense({
         description: expenseForm.description,
         amount,
+        currency: expenseForm.currency,
         date: expenseForm.date,
-        category: expenseForm.category || undefined,
+        categoryId: expenseForm.categoryId || undefined,
         notes: expenseForm.notes || undefined,
       });
       setShowExpenseConfirm(true);
@@ -152,8 +276,9 @@ export default function Dashboard() {
       handleAddExpense({
         description: expenseForm.description,
         amount,
+        currency: expenseForm.currency,
         date: expenseForm.date,
-        category: expenseForm.category || undefined,
+        categoryId: expenseForm.categoryId || undefined,
         notes: expenseForm.notes || undefined,
       });
     }
@@ -161,11 +286,12 @@ export default function Dashboard() {
 
   const handleAddExpense = async (expenseData: {
     description: string;
-    amount: number;
+    amount: Cents;
+    currency: string;
     date: string;
-    category?: string;
+    categoryId?: string;
     notes?: string;
-  }) => {
+  }, historyGroup?: HistoryGroup) => {
     if (isSaving) return; // Prevent double submission
     setIsSaving(true);
 
@@ -180,23 +306,22 @@ export default function Dashboard() {
         id: crypto.randomUUID(),
         description: expenseData.description,
         amount: expenseData.amount,
+        currency: expenseData.currency,
         date: expenseData.date,
-        category: expenseData.category,
+        categoryId: expenseData.categoryId,
         notes: expenseData.notes,
       };
 
-      await storage.addExpense(expense);
+      await addExpense(expense, historyGroup);
       clearTimeout(timeoutId);
-      
-      // Refresh all data to update budget spent amount
-      await refreshData();
 
       // Reset form and close modal
       setExpenseForm({
         description: '',
         amount: '',
+        currency: budgetCurrency,
         date: format(new Date(), 'yyyy-MM-dd'),
-        category: '',
+        categoryId: '',
         notes: '',
       });
       setPendingExpense(null);
@@ -232,7 +357,7 @@ export default function Dashboard() {
     }, 10000);
 
     try {
-      const newBalance = parseFloat(newBalanceAmount);
+      const newBalance = parseMoneyInput(newBalanceAmount) ?? 0;
       const currentBalance = budget.semesterBudget;
       const difference = currentBalance - newBalance;
 
@@ -242,23 +367,43 @@ export default function Dashboard() {
         semesterBudget: newBalance,
       };
 
-      // If difference is positive, add an expense for the difference
-      if (difference > 0) {
-        const expense: Expense = {
-          id: crypto.randomUUID(),
-          description: 'Balance Update',
-          amount: difference,
-          date: format(new Date(), 'yyyy-MM-dd'),
-          category: 'Balance Adjustment',
-          notes: `Balance updated from $${currentBalance.toLocaleString()} to $${newBalance.toLocaleString()}`,
-        };
-        await storage.addExpense(expense);
-      }
+      // Undone in one go: the budget and the expense or funding recording the difference
+      await group(`Updated balance to ${money(newBalance)}`, async historyGroup => {
+        // Money went out: record the difference as an expense
+        if (difference > 0) {
+          const expense: Expense = {
+            id: crypto.randomUUID(),
+            description: 'Balance Update',
+            amount: difference,
+            currency: budget.homeCurrency,
+            date: format(new Date(), 'yyyy-MM-dd'),
+            notes: `Balance updated from ${money(currentBalance)} to ${money(newBalance)}`,
+          };
+          await addExpense(expense, historyGroup);
+        }
+
+        // Money came in: record it as received funding so income stays visible
+        if (difference < 0) {
+          const today = format(new Date(), 'yyyy-MM-dd');
+          const topUp: Funding = {
+            id: crypto.randomUUID(),
+            name: 'Balance top-up',
+            kind: 'other',
+            amount: -difference,
+            currency: budget.homeCurrency,
+            expectedDate: today,
+            receivedDate: today,
+            notes: `Balance updated from ${money(currentBalance)} to ${money(newBalance)}`,
+          };
+          await addFunding(topUp, historyGroup);
+        }
 
-      await storage.saveBudget(updatedBudget);
+        await saveBudget(updatedBudget, {
+          reason: 'balance_update',
+          note: `Balance updated from ${money(currentBalance)} to ${money(newBalance)}`,
+        }, historyGroup);
+      });
       clearTimeout(timeoutId);
-      
-      await refreshData();
 
       // Reset and close
       setNewBalanceAmount('');
@@ -275,16 +420,18 @@ export default function Dashboard() {
   const handleDeleteExpense = async (id: string) => {
     if (confirm('Are you sure you want to delete this expense?')) {
       try {
-        await storage.deleteExpense(id);
-        
-        // Refresh all data to update budget spent amount
-        await refreshData();
+        await deleteExpense(id);
       } catch (error: any) {
         alert('Error deleting expense: ' + (error.message || 'Unknown error'));
       }
     }
   };
 
+  const categorySpending = budget ? calculateCategorySpending(budget, categories, expenses, exchangeRates) : [];
+  // This week's allowance, with whatever the rollover policy carried over from earlier weeks
+  const currentWeek = budget ? getCurrentWeekBudget(calculateWeeklyBudgets(budget, trips, expenses, exchangeRates, funding)) : null;
+  const forecast = budget ? calculateBalanceForecast(budget, trips, expenses, recurringExpenses, funding, exchangeRates) : null;
+
   const upcomingTrips = trips.filter(trip => {
     const tripDate = parseISO(trip.startDate);
     return tripDate > new Date();
@@ -329,6 +476,20 @@ export default function Dashboard() {
               >
                 Edit Mode
               </button>
+              <button
+                onClick={() => setShowBudgetHistory(true)}
+                className="px-4 py-2 text-sm sm:text-base bg-slate-600 hover:bg-slate-700 text-white rounded-lg transition-colors flex items-center justify-center gap-2"
+              >
+                <History className="w-4 h-4" />
+                History
+              </button>
+              <button
+                onClick={() => setShowScenarioPlanner(true)}
+                className="px-4 py-2 text-sm sm:text-base bg-slate-600 hover:bg-slate-700 text-white rounded-lg transition-colors flex items-center justify-center gap-2"
+              >
+                <FlaskConical className="w-4 h-4" />
+                What If
+              </button>
             </div>
           )}
         </div>
@@ -368,14 +529,14 @@ export default function Dashboard() {
             {budgetMode !== 'tracking' && (
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-2">
-                  {budgetMode === 'total' ? 'Total Budget ($)' : 'Current Remaining ($)'}
+                  {budgetMode === 'total' ? `Starting Funds (${homeCurrency})` : `Current Remaining (${homeCurrency})`}
                 </label>
                 <input
                   type="number"
                   value={semesterBudget}
                   onChange={(e) => setSemesterBudget(e.target.value)}
                   className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
-                  placeholder={budgetMode === 'total' ? 'Enter your total budget' : 'Enter how much you have left'}
+                  placeholder={budgetMode === 'total' ? 'Enter what you start with' : 'Enter how much you have left'}
                   required
                 />
                 {budgetMode === 'remaining' && (
@@ -383,6 +544,11 @@ export default function Dashboard() {
                     Enter the amount you currently have available. Add prepaid expenses as trips.
                   </p>
                 )}
+                {budgetMode === 'total' && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    What you have at the start. Add scholarships, transfers and pay under Income & Funding.
+                  </p>
+                )}
               </div>
             )}
 
@@ -421,6 +587,70 @@ export default function Dashboard() {
               </div>
             </div>
 
+            {/* Weekly rollover - only for modes with a budget */}
+            {budgetMode !== 'tracking' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Weekly Rollover
+                </label>
+                <select
+                  value={rolloverPolicy}
+                  onChange={(e) => setRolloverPolicy(e.target.value as RolloverPolicy)}
+                  className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                >
+                  {(Object.keys(ROLLOVER_INFO) as RolloverPolicy[]).map((policy) => (
+                    <option key={policy} value={policy}>
+                      {ROLLOVER_INFO[policy].name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  {ROLLOVER_INFO[rolloverPolicy].description}.
+                </p>
+                {rolloverPolicy !== 'none' && (
+                  <div className="mt-3">
+                    <label className="block text-sm font-medium text-gray-300 mb-2">
+                      Rollover Limit ({homeCurrency}, optional)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={rolloverCap}
+                      onChange={(e) => setRolloverCap(e.target.value)}
+                      className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                      placeholder="No limit"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      The most that moves from one week to the next.
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Home currency and exchange rates */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Home Currency
+              </label>
+              <select
+                value={homeCurrency}
+                onChange={(e) => setHomeCurrency(e.target.value)}
+                className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+              >
+                {CURRENCIES.map((currency) => (
+                  <option key={currency.code} value={currency.code}>
+                    {currency.code} - {currency.name}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Totals are shown in this currency. Expenses and trips keep their original currency.
+              </p>
+            </div>
+
+            <ExchangeRatesManager homeCurrency={homeCurrency} suggestedCurrencies={usedCurrencies} />
+
             <div className="flex gap-2">
               <button
                 onClick={handleSaveBudget}
@@ -449,6 +679,12 @@ export default function Dashboard() {
               <span>{BUDGET_MODE_INFO[budget.budgetMode].name}</span>
             </div>
 
+            {missingRates.length > 0 && (
+              <div className="bg-yellow-500/10 border border-yellow-500 rounded-lg p-3 text-sm text-gray-300">
+                No exchange rate set for {missingRates.join(', ')} - these amounts are counted 1:1 in {budgetCurrency}. Add rates in Edit Mode.
+              </div>
+            )}
+
             {/* Toggle for including wishlist - only for modes with a budget */}
             {budget.budgetMode !== 'tracking' && (
               <div className="flex items-center justify-between bg-slate-700 rounded-lg p-4">
@@ -460,7 +696,7 @@ export default function Dashboard() {
                     </label>
                     <p className="text-xs text-gray-400">
                       {wishlist.length > 0 
-                        ? `${wishlist.length} item(s) • $${wishlistTotal.toLocaleString()} total`
+                        ? `${wishlist.length} item(s) • ${money(wishlistTotal)} total`
                         : 'No wishlist items'}
                     </p>
                   </div>
@@ -488,10 +724,10 @@ export default function Dashboard() {
                       <span className="text-sm">Total Spent</span>
                     </div>
                     <p className="text-2xl font-bold text-red-400">
-                      ${totalSpent.toLocaleString()}
+                      {money(totalSpent)}
                     </p>
                     <p className="text-xs text-gray-400 mt-1">
-                      Trips: ${tripsPrepaid.toLocaleString()} | Expenses: ${expensesTotal.toLocaleString()}
+                      Trips: {money(tripsPrepaid)} | Expenses: {money(expensesTotal)}
                     </p>
                   </div>
                   <div className="bg-slate-700 rounded-lg p-4">
@@ -500,7 +736,7 @@ export default function Dashboard() {
                       <span className="text-sm">Planned Spending</span>
                     </div>
                     <p className="text-2xl font-bold text-yellow-400">
-                      ${totalPlanned.toLocaleString()}
+                      {money(totalPlanned)}
                     </p>
                     <p className="text-xs text-gray-400 mt-1">
                       Future trip costs
@@ -512,7 +748,7 @@ export default function Dashboard() {
                       <span className="text-sm">Total Committed</span>
                     </div>
                     <p className="text-2xl font-bold text-primary-400">
-                      ${(totalSpent + totalPlanned).toLocaleString()}
+                      {money(totalSpent + totalPlanned)}
                     </p>
                     <p className="text-xs text-gray-400 mt-1">
                       Spent + Planned
@@ -526,7 +762,7 @@ export default function Dashboard() {
                       <span className="text-sm">Wishlist Total</span>
                     </div>
                     <p className="text-xl font-bold text-gray-300">
-                      ${wishlistTotal.toLocaleString()}
+                      {money(wishlistTotal)}
                     </p>
                   </div>
                 )}
@@ -542,7 +778,7 @@ export default function Dashboard() {
                       <span className="text-sm">Current Remaining</span>
                     </div>
                     <p className="text-2xl font-bold text-green-400">
-                      ${budget.semesterBudget.toLocaleString()}
+                      {money(budget.semesterBudget)}
                     </p>
                     <p className="text-xs text-gray-400 mt-1">
                       Your available funds
@@ -555,7 +791,7 @@ export default function Dashboard() {
                       <span className="text-sm">Planned</span>
                     </div>
                     <p className="text-2xl font-bold text-yellow-400">
-                      ${(includeWishlist ? totalPlanned + wishlistTotal : totalPlanned).toLocaleString()}
+                      {money(includeWishlist ? totalPlanned + wishlistTotal : totalPlanned)}
                     </p>
                     <p className="text-xs text-gray-400 mt-1">
                       Future trip costs
@@ -568,14 +804,14 @@ export default function Dashboard() {
                       <span className="text-sm">After Planned</span>
                     </div>
                     <p className={`text-2xl font-bold ${
-                      (budget.semesterBudget - (includeWishlist ? totalPlanned + wishlistTotal : totalPlanned)) >= 0 
+                      (balanceWithPending - (includeWishlist ? totalPlanned + wishlistTotal : totalPlanned)) >= 0 
                         ? 'text-primary-400' 
                         : 'text-red-400'
                     }`}>
-                      ${(budget.semesterBudget - (includeWishlist ? totalPlanned + wishlistTotal : totalPlanned)).toLocaleString()}
+                      {money(balanceWithPending - (includeWishlist ? totalPlanned + wishlistTotal : totalPlanned))}
                     </p>
                     <p className="text-xs text-gray-400 mt-1">
-                      Remaining - Planned
+                      {fundingPending > 0 ? `Remaining + ${money(fundingPending)} to arrive - Planned` : 'Remaining - Planned'}
                     </p>
                   </div>
                   {/* 4. Spent/Prepaid */}
@@ -585,7 +821,7 @@ export default function Dashboard() {
                       <span className="text-sm">Spent / Prepaid</span>
                     </div>
                     <p className="text-2xl font-bold text-red-400">
-                      ${totalSpent.toLocaleString()}
+                      {money(totalSpent)}
                     </p>
                     <p className="text-xs text-gray-400 mt-1">
                       Already paid
@@ -598,17 +834,17 @@ export default function Dashboard() {
                   <div>
                     <div className="flex justify-between text-sm text-gray-300 mb-1">
                       <span>Planned Usage</span>
-                      <span>{budget.semesterBudget > 0 ? (((includeWishlist ? totalPlanned + wishlistTotal : totalPlanned) / budget.semesterBudget) * 100).toFixed(1) : 0}%</span>
+                      <span>{balanceWithPending > 0 ? (((includeWishlist ? totalPlanned + wishlistTotal : totalPlanned) / balanceWithPending) * 100).toFixed(1) : 0}%</span>
                     </div>
                     <div className="w-full bg-slate-700 rounded-full h-2">
                       <div
                         className={`h-2 rounded-full transition-all ${
-                          (includeWishlist ? totalPlanned + wishlistTotal : totalPlanned) > budget.semesterBudget
+                          (includeWishlist ? totalPlanned + wishlistTotal : totalPlanned) > balanceWithPending
                             ? 'bg-red-500'
                             : 'bg-yellow-400'
                         }`}
                         style={{ 
-                          width: `${Math.min(budget.semesterBudget > 0 ? ((includeWishlist ? totalPlanned + wishlistTotal : totalPlanned) / budget.semesterBudget) * 100 : 0, 100)}%` 
+                          width: `${Math.min(balanceWithPending > 0 ? ((includeWishlist ? totalPlanned + wishlistTotal : totalPlanned) / balanceWithPending) * 100 : 0, 100)}%` 
                         }}
                       />
                     </div>
@@ -625,8 +861,13 @@ export default function Dashboard() {
                       <span className="text-sm">Total Budget</span>
                     </div>
                     <p className="text-2xl font-bold text-white">
-                      ${budget.semesterBudget.toLocaleString()}
+                      {money(totalFunds)}
                     </p>
+                    {fundingPending > 0 && (
+                      <p className="text-xs text-gray-400 mt-1">
+                        Incl. {money(fundingPending)} still to arrive
+                      </p>
+                    )}
                   </div>
                   <div className="bg-slate-700 rounded-lg p-4">
                     <div className="flex items-center gap-2 text-gray-300 mb-1">
@@ -634,11 +875,11 @@ export default function Dashboard() {
                       <span className="text-sm">Spent</span>
                     </div>
                     <p className="text-2xl font-bold text-red-400">
-                      ${(includeWishlist ? totalSpentWithWishlist : totalSpent).toLocaleString()}
+                      {money(includeWishlist ? totalSpentWithWishlist : totalSpent)}
                     </p>
                     {includeWishlist && wishlistTotal > 0 && (
                       <p className="text-xs text-gray-400 mt-1">
-                        Actual: ${totalSpent.toLocaleString()}
+                        Actual: {money(totalSpent)}
                       </p>
                     )}
                   </div>
@@ -648,7 +889,7 @@ export default function Dashboard() {
                       <span className="text-sm">Planned</span>
                     </div>
                     <p className="text-2xl font-bold text-yellow-400">
-                      ${totalPlanned.toLocaleString()}
+                      {money(totalPlanned)}
                     </p>
                     <p className="text-xs text-gray-400 mt-1">
                       Future trip costs
@@ -664,7 +905,7 @@ export default function Dashboard() {
                         ? 'text-green-400' 
                         : 'text-red-400'
                     }`}>
-                      ${(includeWishlist ? remainingAfterPlannedWithWishlist : remainingAfterPlanned).toLocaleString()}
+                      {money(includeWishlist ? remainingAfterPlannedWithWishlist : remainingAfterPlanned)}
                     </p>
                     <p className="text-xs text-gray-400 mt-1">
                       After planned spending
@@ -709,6 +950,96 @@ export default function Dashboard() {
                 </div>
               </div>
             )}
+
+            {/* This week - only for modes with a budget */}
+            {budget.budgetMode !== 'tracking' && currentWeek && (
+              <div className="bg-slate-700 rounded-lg p-4">
+                <div className="flex items-center justify-between gap-2 mb-3">
+                  <div className="flex items-center gap-2 text-gray-300">
+                    <CalendarRange className="w-4 h-4" />
+                    <span className="text-sm">This Week</span>
+                  </div>
+                  <span className="text-xs text-gray-400">{ROLLOVER_INFO[budget.rolloverPolicy ?? 'none'].name}</span>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div>
+                    <p className="text-xs text-gray-400">Allowance</p>
+                    <p className="text-xl font-bold text-white">{money(currentWeek.allowance)}</p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {money(currentWeek.budget)} this week
+                      {currentWeek.carriedOver !== 0 && (
+                        <span className={currentWeek.carriedOver > 0 ? 'text-green-400' : 'text-red-400'}>
+                          {' '}{currentWeek.carriedOver > 0 ? '+' : '-'} {money(Math.abs(currentWeek.carriedOver))} carried over
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-400">Spent</p>
+                    <p className="text-xl font-bold text-red-400">{money(currentWeek.spent)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-400">Planned</p>
+                    <p className="text-xl font-bold text-yellow-400">{money(currentWeek.planned)}</p>
+                    <p className="text-xs text-gray-400 mt-1">Trip days this week</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-400">Left</p>
+                    <p className={`text-xl font-bold ${currentWeek.remaining >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {money(currentWeek.remaining)}
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Where the balance is heading by the end date, at recent spending */}
+            {forecast && (
+              <div className="bg-slate-700 rounded-lg p-4">
+                <div className="flex items-center justify-between gap-2 mb-3">
+                  <div className="flex items-center gap-2 text-gray-300">
+                    <TrendingDown className="w-4 h-4" />
+                    <span className="text-sm">End-of-Semester Forecast</span>
+                  </div>
+                  <span className="text-xs text-gray-400">{format(parseISO(budget.endDate), 'MMM d, yyyy')}</span>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <p className="text-xs text-gray-400">Projected Balance</p>
+                    <p className={`text-xl font-bold ${forecast.expected.endBalance >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {money(forecast.expected.endBalance)}
+                    </p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {money(forecast.worst.endBalance)} to {money(forecast.best.endBalance)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-400">Runs Out</p>
+                    {forecast.expected.runOutDate ? (
+                      <p className="text-xl font-bold text-red-400">{format(parseISO(forecast.expected.runOutDate), 'MMM d')}</p>
+                    ) : (
+                      <p className="text-xl font-bold text-green-400">Lasts</p>
+                    )}
+                    {forecast.worst.runOutDate && forecast.worst.runOutDate !== forecast.expected.runOutDate && (
+                      <p className="text-xs text-gray-400 mt-1">
+                        As early as {format(parseISO(forecast.worst.runOutDate), 'MMM d')} at the higher rate
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-400">Daily Spending</p>
+                    <p className="text-xl font-bold text-white">{money(forecast.expected.dailySpending)}</p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {money(forecast.last14Days)} last 14 days, {money(forecast.last30Days)} last 30
+                    </p>
+                  </div>
+                </div>
+                <p className="text-xs text-gray-400 mt-3">
+                  Recent day-to-day spending (not trips or recurring expenses) continued to the end date, plus planned trip costs,
+                  upcoming recurring expenses{budget.budgetMode !== 'tracking' && ' and income still expected'}.
+                </p>
+              </div>
+            )}
           </div>
         ) : null}
       </div>
@@ -719,6 +1050,77 @@ export default function Dashboard() {
         </div>
       ) : (
         <>
+      {budget && <FundingSources />}
+
+      {budget && <SavingsGoals />}
+
+      {budget && (
+        <div className="bg-slate-800 rounded-lg p-6 shadow-lg">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+              <Tags className="w-6 h-6 text-primary-400" />
+              Spending by Category
+            </h2>
+            <button
+              onClick={() => setShowCategoryManager(true)}
+              className="px-3 py-2 text-sm bg-slate-600 hover:bg-slate-700 text-white rounded-lg transition-colors"
+            >
+              Manage
+            </button>
+          </div>
+          <div className="space-y-3">
+            {categorySpending.map(({ category, spent, cap, overCap }) => {
+              const Icon = getCategoryIcon(category.icon);
+              const percentage = cap ? Math.min((spent / cap) * 100, 100) : 0;
+              return (
+                <div key={category.id}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="flex items-center gap-2 text-gray-300">
+                      <Icon className="w-4 h-4" style={{ color: category.color }} />
+                      {category.name}
+                      <span className="text-xs text-gray-500">
+                        {category.capPeriod === 'semester' ? 'this semester' : 'this month'}
+                      </span>
+                    </span>
+                    <span className={overCap ? 'text-red-400 font-medium' : 'text-gray-300'}>
+                      {money(spent)}{cap !== undefined && ` / ${money(cap)}`}
+                    </span>
+                  </div>
+                  {cap !== undefined && (
+                    <div className="w-full bg-slate-700 rounded-full h-2">
+                      <div
+                        className="h-2 rounded-full transition-all"
+                        style={{ width: `${percentage}%`, backgroundColor: overCap ? '#ef4444' : category.color }}
+                      />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {showBudgetHistory && (
+        <BudgetHistory onClose={() => setShowBudgetHistory(false)} />
+      )}
+
+      {showScenarioPlanner && (
+        <ScenarioPlanner onClose={() => setShowScenarioPlanner(false)} />
+      )}
+
+      {showCsvImport && (
+        <CsvImport onClose={() => setShowCsvImport(false)} />
+      )}
+
+      {showRecurringManager && (
+        <RecurringExpensesManager onClose={() => setShowRecurringManager(false)} />
+      )}
+
+      {showCategoryManager && (
+        <CategoryManager onClose={() => setShowCategoryManager(false)} />
+      )}
+
       {upcomingTrips.length > 0 && (
         <div className="bg-slate-800 rounded-lg p-6 shadow-lg">
           <h2 className="text-2xl font-bold text-white mb-4 flex items-center gap-2">
@@ -738,10 +1140,10 @@ export default function Dashboard() {
                   </div>
                   <div className="text-right">
                     <p className="text-lg font-bold text-primary-400">
-                      ${(trip.prepaidCost + trip.plannedCost).toLocaleString()}
+                      {formatMoney(trip.prepaidCost + trip.plannedCost, trip.currency)}
                     </p>
                     {trip.prepaidCost > 0 && (
-                      <p className="text-xs text-green-400">Prepaid: ${trip.prepaidCost.toLocaleString()}</p>
+                      <p className="text-xs text-green-400">Prepaid: {formatMoney(trip.prepaidCost, trip.currency)}</p>
                     )}
                   </div>
                 </div>
@@ -752,10 +1154,30 @@ export default function Dashboard() {
       )}
 
       <div className="bg-slate-800 rounded-lg p-6 shadow-lg">
-        <h2 className="text-2xl font-bold text-white mb-4 flex items-center gap-2">
-          <DollarSign className="w-6 h-6 text-primary-400" />
-          Recent Expenses
-        </h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+            <DollarSign className="w-6 h-6 text-primary-400" />
+            Recent Expenses
+          </h2>
+          {budget && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => setShowCsvImport(true)}
+                className="px-3 py-2 text-sm bg-slate-600 hover:bg-slate-700 text-white rounded-lg transition-colors flex items-center gap-2"
+              >
+                <Upload className="w-4 h-4" />
+                Import CSV
+              </button>
+              <button
+                onClick={() => setShowRecurringManager(true)}
+                className="px-3 py-2 text-sm bg-slate-600 hover:bg-slate-700 text-white rounded-lg transition-colors flex items-center gap-2"
+              >
+                <Repeat className="w-4 h-4" />
+                Recurring{recurringExpenses.length > 0 && ` (${recurringExpenses.length})`}
+              </button>
+            </div>
+          )}
+        </div>
         {recentExpenses.length === 0 ? (
           <p className="text-gray-400">No expenses recorded yet. Click "Add Expense" to track your spending.</p>
         ) : (
@@ -765,11 +1187,25 @@ export default function Dashboard() {
                 <div className="flex-1">
                   <div className="flex items-center gap-3">
                     <h3 className="text-lg font-semibold text-white">{expense.description}</h3>
-                    {expense.category && (
-                      <span className="text-xs px-2 py-1 bg-primary-600 text-white rounded">
-                        {expense.category}
+                    {expense.recurringExpenseId && (
+                      <span title="Posted from a recurring expense">
+                        <Repeat className="w-4 h-4 text-gray-400" />
                       </span>
                     )}
+                    {(() => {
+                      const category = findCategory(categories, expense.categoryId);
+                      if (!category) return null;
+                      const Icon = getCategoryIcon(category.icon);
+                      return (
+                        <span
+                          className="text-xs px-2 py-1 text-white rounded flex items-center gap-1"
+                          style={{ backgroundColor: category.color }}
+                        >
+                          <Icon className="w-3 h-3" />
+                          {category.name}
+                        </span>
+                      );
+                    })()}
                   </div>
                   <div className="flex items-center gap-4 mt-1 text-sm text-gray-400">
                     <span>{format(parseISO(expense.date), 'MMM d, yyyy')}</span>
@@ -777,9 +1213,16 @@ export default function Dashboard() {
                   </div>
                 </div>
                 <div className="flex items-center gap-4">
-                  <span className="text-xl font-bold text-red-400">
-                    ${expense.amount.toFixed(2)}
-                  </span>
+                  <div className="text-right">
+                    <span className="text-xl font-bold text-red-400">
+                      {formatMoney(expense.amount, expense.currency)}
+                    </span>
+                    {expense.currency !== budgetCurrency && (
+                      <p className="text-xs text-gray-400">
+                        ≈ {money(convert(expense.amount, expense.currency, expense.date))}
+                      </p>
+                    )}
+                  </div>
                   <button
                     onClick={() => handleDeleteExpense(expense.id)}
                     className="p-2 text-red-400 hover:bg-slate-600 rounded transition-colors"
@@ -869,7 +1312,7 @@ export default function Dashboard() {
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-300 mb-2">
-                      Amount ($) *
+                      Amount *
                     </label>
                     <input
                       type="number"
@@ -882,27 +1325,41 @@ export default function Dashboard() {
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-300 mb-2">
-                      Date *
+                      Currency
                     </label>
-                    <input
-                      type="date"
-                      value={expenseForm.date}
-                      onChange={(e) => setExpenseForm({ ...expenseForm, date: e.target.value })}
+                    <select
+                      value={expenseForm.currency}
+                      onChange={(e) => setExpenseForm({ ...expenseForm, currency: e.target.value })}
                       className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
-                      required
-                    />
+                    >
+                      {CURRENCIES.map((currency) => (
+                        <option key={currency.code} value={currency.code}>
+                          {currency.code}
+                        </option>
+                      ))}
+                    </select>
                   </div>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-2">
-                    Category
+                    Date *
                   </label>
                   <input
-                    type="text"
-                    value={expenseForm.category}
-                    onChange={(e) => setExpenseForm({ ...expenseForm, category: e.target.value })}
+                    type="date"
+                    value={expenseForm.date}
+                    onChange={(e) => setExpenseForm({ ...expenseForm, date: e.target.value })}
                     className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
-                    placeholder="e.g., Food, Transport, Shopping"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Category
+                  </label>
+                  <CategoryPicker
+                    categories={categories}
+                    value={expenseForm.categoryId}
+                    onChange={(categoryId) => setExpenseForm({ ...expenseForm, categoryId })}
                   />
                 </div>
                 <div>
@@ -949,32 +1406,34 @@ export default function Dashboard() {
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-400">Amount:</span>
-                      <span className="text-red-400">${pendingExpense.amount.toLocaleString()}</span>
+                      <span className="text-red-400">{formatMoney(pendingExpense.amount, pendingExpense.currency)}</span>
                     </div>
                   </div>
                 </div>
                 <div className="bg-primary-500/10 border border-primary-500 rounded-lg p-4">
                   <p className="text-sm text-gray-300 mb-2">Your new Current Remaining will be:</p>
                   <p className="text-2xl font-bold text-green-400">
-                    ${(budget.semesterBudget - pendingExpense.amount).toLocaleString()}
+                    {money(budget.semesterBudget - convert(pendingExpense.amount, pendingExpense.currency, pendingExpense.date))}
                   </p>
                   <p className="text-xs text-gray-400 mt-1">
-                    (was ${budget.semesterBudget.toLocaleString()})
+                    (was {money(budget.semesterBudget)})
                   </p>
                 </div>
                 <div className="flex gap-2">
                   <button
-                    onClick={() => {
-                      handleAddExpense(pendingExpense);
+                    onClick={() => group(`Added expense "${pendingExpense.description}"`, async historyGroup => {
+                      await handleAddExpense(pendingExpense, historyGroup);
                       // Also update the budget's remaining amount
                       if (budget) {
                         const updatedBudget: Budget = {
                           ...budget,
-                          semesterBudget: budget.semesterBudget - pendingExpense.amount,
+                          semesterBudget: budget.semesterBudget - convert(pendingExpense.amount, pendingExpense.currency, pendingExpense.date),
                         };
-                        storage.saveBudget(updatedBudget);
+                        await saveBudget(updatedBudget, { reason: 'expense', note: pendingExpense.description }, historyGroup).catch(error => {
+                          alert('Error saving budget: ' + errorMessage(error));
+                        });
                       }
-                    }}
+                    })}
                     disabled={isSaving}
                     className="flex-1 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                   >
@@ -1000,12 +1459,12 @@ export default function Dashboard() {
                 <div className="bg-slate-700 rounded-lg p-4">
                   <p className="text-sm text-gray-400 mb-1">Current Remaining</p>
                   <p className="text-xl font-bold text-green-400">
-                    ${budget.semesterBudget.toLocaleString()}
+                    {money(budget.semesterBudget)}
                   </p>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-2">
-                    New Remaining Amount ($)
+                    New Remaining Amount ({budgetCurrency})
                   </label>
                   <input
                     type="number"
@@ -1042,7 +1501,7 @@ export default function Dashboard() {
             {expenseModalTab === 'balance' && showBalanceConfirm && budget && newBalanceAmount && (
               <div className="space-y-4">
                 {(() => {
-                  const newBalance = parseFloat(newBalanceAmount);
+                  const newBalance = parseMoneyInput(newBalanceAmount) ?? 0;
                   const difference = budget.semesterBudget - newBalance;
                   return (
                     <>
@@ -1051,13 +1510,13 @@ export default function Dashboard() {
                           <div>
                             <p className="text-sm text-gray-400 mb-1">Old Balance</p>
                             <p className="text-lg font-bold text-white">
-                              ${budget.semesterBudget.toLocaleString()}
+                              {money(budget.semesterBudget)}
                             </p>
                           </div>
                           <div>
                             <p className="text-sm text-gray-400 mb-1">New Balance</p>
                             <p className="text-lg font-bold text-green-400">
-                              ${newBalance.toLocaleString()}
+                              {money(newBalance)}
                             </p>
                           </div>
                         </div>
@@ -1065,16 +1524,19 @@ export default function Dashboard() {
                       {difference > 0 ? (
                         <div className="bg-yellow-500/10 border border-yellow-500 rounded-lg p-4">
                           <p className="text-sm text-gray-300 mb-2">
-                            Your balance decreased by <span className="text-red-400 font-bold">${difference.toLocaleString()}</span>
+                            Your balance decreased by <span className="text-red-400 font-bold">{money(difference)}</span>
                           </p>
                           <p className="text-sm text-gray-400">
-                            Do you want to add ${difference.toLocaleString()} to your Spent/Prepaid total?
+                            Do you want to add {money(difference)} to your Spent/Prepaid total?
                           </p>
                         </div>
                       ) : difference < 0 ? (
                         <div className="bg-green-500/10 border border-green-500 rounded-lg p-4">
                           <p className="text-sm text-gray-300">
-                            Your balance increased by <span className="text-green-400 font-bold">${Math.abs(difference).toLocaleString()}</span>
+                            Your balance increased by <span className="text-green-400 font-bold">{money(Math.abs(difference))}</span>
+                          </p>
+                          <p className="text-sm text-gray-400 mt-2">
+                            It will be recorded as received funding under Income & Funding.
                           </p>
                         </div>
                       ) : (
@@ -1108,6 +1570,18 @@ export default function Dashboard() {
       )}
         </>
       )}
+
+      {budgetConflict && (
+        <ConflictMerge
+          key={budgetConflict.theirs?.version ?? 'deleted'}
+          what="budget"
+          mine={budgetConflict.mine}
+          theirs={budgetConflict.theirs}
+          fields={BUDGET_FIELDS}
+          onResolve={handleResolveBudgetConflict}
+          onClose={() => setBudgetConflict(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { AlertTriangle, RefreshCw, X } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
+
+// What each table holds, for the list of rows that couldn't be read
+const TABLE_LABELS: Record<string, string> = {
+  budgets: 'Budget',
+  budget_changes: 'Budget history entry',
+  trips: 'Trip',
+  wishlist_items: 'Wishlist item',
+  expenses: 'Expense',
+  expense_categories: 'Category',
+  recurring_expenses: 'Recurring expense',
+  funding: 'Funding',
+  savings_goals: 'Savings goal',
+  csv_import_presets: 'CSV import preset',
+  budget_scenarios: 'Scenario',
+  exchange_rates: 'Exchange rate',
+  weekly_plans: 'Weekly plan',
+  weekly_plan_events: 'Planned event',
+};
+
+// Header badge for data that couldn't be loaded: a failed load (with a retry) or rows the server
+// sent that don't fit their schema, which are left out of every list and total until fixed.
+// Hidden when there's nothing to report.
+export default function DataIssues() {
+  const { loadError, malformedRows, refreshData } = useData();
+  const [showDetails, setShowDetails] = useState(false);
+  const [retrying, setRetrying] = useState(false);
+
+  if (!loadError && malformedRows.length === 0) return null;
+
+  const handleRetry = async () => {
+    setRetrying(true);
+    try {
+      await refreshData();
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const text = loadError
+    ? "Couldn't load your data"
+    : `${malformedRows.length} record${malformedRows.length === 1 ? '' : 's'} couldn't be read`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setShowDetails(!showDetails)}
+        className="px-3 py-1.5 border rounded-full text-xs sm:text-sm flex items-center gap-2 bg-red-500/20 text-red-300 border-red-500/50"
+      >
+        <AlertTriangle className="w-4 h-4" />
+        <span className="hidden sm:inline">{text}</span>
+        <span className="sm:hidden">{loadError ? '!' : malformedRows.length}</span>
+      </button>
+
+      {showDetails && (
+        <div className="absolute right-0 mt-2 w-80 max-w-[90vw] bg-slate-800 border border-slate-600 rounded-lg shadow-xl z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+            <h4 className="text-sm font-semibold text-white">Data problems</h4>
+            <button
+              onClick={() => setShowDetails(false)}
+              className="p-1 text-gray-400 hover:text-white hover:bg-slate-700 rounded transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {loadError && (
+            <div className="px-4 py-3 border-b border-slate-700 text-sm">
+              <p className="text-gray-200">The latest data couldn't be loaded. What's shown may be out of date.</p>
+              <p className="text-xs text-red-300 break-words mt-1">{loadError}</p>
+              <button
+                onClick={handleRetry}
+                disabled={retrying}
+                className="mt-2 px-2 py-1 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white rounded text-xs transition-colors flex items-center gap-1"
+              >
+                <RefreshCw className={`w-3 h-3 ${retrying ? 'animate-spin' : ''}`} />
+                Retry
+              </button>
+            </div>
+          )}
+
+          {malformedRows.length > 0 && (
+            <>
+              <p className="px-4 pt-3 text-xs text-gray-400">
+                These records have values the app can't read, so they're left out of lists and totals.
+                Fix them in the database and reload.
+              </p>
+              <ul className="max-h-80 overflow-y-auto divide-y divide-slate-700">
+                {malformedRows.map(row => (
+                  <li key={`${row.table}:${row.id ?? row.problems.join()}`} className="px-4 py-2 text-sm">
+                    <span className="text-gray-200">{TABLE_LABELS[row.table] || row.table}</span>
+                    {row.id && <p className="text-xs text-gray-500 break-all">{row.id}</p>}
+                    {row.problems.map(problem => (
+                      <p key={problem} className="text-xs text-red-300 break-words">{problem}</p>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
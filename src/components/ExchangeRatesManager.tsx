@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Upload, Plus, Trash2, X } from 'lucide-react';
+import { CurrencyCode, ExchangeRate } from '../types';
+import { useData } from '../contexts/DataContext';
+import { CURRENCIES, DEFAULT_CURRENCY } from '../utils/currency';
+import { parseRatesImport } from '../utils/exchangeRates';
+import { errorMessage } from '../utils/errors';
+
+interface ExchangeRatesManagerProps {
+  homeCurrency: CurrencyCode;
+  // Foreign currencies in use, suggested first in the picker
+  suggestedCurrencies: CurrencyCode[];
+}
+
+export default function ExchangeRatesManager({ homeCurrency, suggestedCurrencies }: ExchangeRatesManagerProps) {
+  const { exchangeRates, saveExchangeRates, deleteExchangeRate } = useData();
+  const [isSaving, setIsSaving] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [rateForm, setRateForm] = useState({
+    baseCurrency: suggestedCurrencies[0] || (homeCurrency === DEFAULT_CURRENCY ? 'EUR' : DEFAULT_CURRENCY),
+    rate: '',
+    date: format(new Date(), 'yyyy-MM-dd'),
+  });
+
+  // Newest first, grouped by pair
+  const sortedRates = [...exchangeRates].sort((a, b) =>
+    a.baseCurrency === b.baseCurrency && a.quoteCurrency === b.quoteCurrency
+      ? b.date.localeCompare(a.date)
+      : `${a.baseCurrency}${a.quoteCurrency}`.localeCompare(`${b.baseCurrency}${b.quoteCurrency}`)
+  );
+
+  const saveRates = async (newRates: Omit<ExchangeRate, 'id'>[]) => {
+    if (isSaving) return;
+    setIsSaving(true);
+
+    try {
+      await saveExchangeRates(newRates);
+      return true;
+    } catch (error) {
+      alert('Error saving exchange rates: ' + errorMessage(error));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddRate = async () => {
+    const rate = parseFloat(rateForm.rate);
+    if (!(rate > 0) || !rateForm.date || rateForm.baseCurrency === homeCurrency) {
+      alert('Please enter a rate greater than 0 for a currency other than ' + homeCurrency);
+      return;
+    }
+
+    const saved = await saveRates([{
+      baseCurrency: rateForm.baseCurrency,
+      quoteCurrency: homeCurrency,
+      rate,
+      date: rateForm.date,
+      source: 'manual',
+    }]);
+    if (saved) {
+      setRateForm({ ...rateForm, rate: '' });
+    }
+  };
+
+  const handleImport = async () => {
+    const { rates: parsed, errors } = parseRatesImport(importText);
+    setImportErrors(errors);
+    if (errors.length > 0 || parsed.length === 0) return;
+
+    const saved = await saveRates(parsed);
+    if (saved) {
+      setImportText('');
+      setShowImport(false);
+    }
+  };
+
+  const handleDeleteRate = async (id: string) => {
+    if (!confirm('Delete this exchange rate?')) return;
+
+    try {
+      await deleteExchangeRate(id);
+    } catch (error) {
+      alert('Error deleting exchange rate: ' + errorMessage(error));
+    }
+  };
+
+  const currencyOptions = [
+    ...suggestedCurrencies,
+    ...CURRENCIES.map(c => c.code).filter(code => !suggestedCurrencies.includes(code)),
+  ].filter(code => code !== homeCurrency);
+
+  return (
+    <div className="bg-slate-700 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-gray-300">Exchange Rates</p>
+        <button
+          type="button"
+          onClick={() => setShowImport(!showImport)}
+          className="text-xs text-primary-400 hover:text-primary-300 flex items-center gap-1"
+        >
+          {showImport ? <X className="w-3 h-3" /> : <Upload className="w-3 h-3" />}
+          {showImport ? 'Close import' : 'Import'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Each expense uses the latest rate on or before its own date.
+      </p>
+
+      {showImport ? (
+        <div className="space-y-2">
+          <textarea
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            className="w-full px-3 py-2 bg-slate-600 text-white rounded border border-slate-500 focus:border-primary-500 focus:outline-none font-mono text-xs"
+            rows={5}
+            placeholder={'date,base,quote,rate\n2024-09-01,EUR,USD,1.08'}
+          />
+          {importErrors.length > 0 && (
+            <div className="text-xs text-red-400 space-y-1">
+              {importErrors.map((error) => <p key={error}>{error}</p>)}
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={isSaving || !importText.trim()}
+            className="w-full px-3 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded text-sm transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Importing...' : 'Import Rates'}
+          </button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+          <span>1</span>
+          <select
+            value={rateForm.baseCurrency}
+            onChange={(e) => setRateForm({ ...rateForm, baseCurrency: e.target.value })}
+            className="px-2 py-1 bg-slate-600 text-white rounded border border-slate-500 focus:border-primary-500 focus:outline-none"
+          >
+            {currencyOptions.map((code) => (
+              <option key={code} value={code}>{code}</option>
+            ))}
+          </select>
+          <span>=</span>
+          <input
+            type="number"
+            step="0.0001"
+            min="0"
+            value={rateForm.rate}
+            onChange={(e) => setRateForm({ ...rateForm, rate: e.target.value })}
+            className="w-24 px-2 py-1 bg-slate-600 text-white rounded border border-slate-500 focus:border-primary-500 focus:outline-none"
+            placeholder="Rate"
+          />
+          <span>{homeCurrency} on</span>
+          <input
+            type="date"
+            value={rateForm.date}
+            onChange={(e) => setRateForm({ ...rateForm, date: e.target.value })}
+            className="px-2 py-1 bg-slate-600 text-white rounded border border-slate-500 focus:border-primary-500 focus:outline-none"
+          />
+          <button
+            type="button"
+            onClick={handleAddRate}
+            disabled={isSaving || !rateForm.rate}
+            className="p-2 bg-primary-600 hover:bg-primary-700 text-white rounded transition-colors disabled:opacity-50"
+            title="Add rate"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {sortedRates.length > 0 && (
+        <div className="max-h-48 overflow-y-auto space-y-1">
+          {sortedRates.map((rate) => (
+            <div key={rate.id} className="flex items-center justify-between bg-slate-600 rounded px-3 py-1 text-xs text-gray-300">
+              <span>{format(parseISO(rate.date), 'MMM d, yyyy')}</span>
+              <span>1 {rate.baseCurrency} = {rate.rate} {rate.quoteCurrency}</span>
+              <span className="text-gray-500">{rate.source}</span>
+              <button
+                type="button"
+                onClick={() => handleDeleteRate(rate.id)}
+                className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Plus, Trash2, X, Edit2, Check, PiggyBank } from 'lucide-react';
+import { Budget, Funding, FundingKind } from '../types';
+import { useData } from '../contexts/DataContext';
+import { HistoryGroup, useHistory } from '../contexts/HistoryContext';
+import { CURRENCIES, getHomeCurrency } from '../utils/currency';
+import { centsToDecimal, formatMoney, parseMoneyInput } from '../utils/money';
+import { createConverter } from '../utils/exchangeRates';
+import { calculateFundingTotals } from '../utils/budgetCalculations';
+import { errorMessage } from '../utils/errors';
+
+const FUNDING_KINDS: Record<FundingKind, string> = {
+  scholarship: 'Scholarship',
+  family: 'Family',
+  job: 'Job',
+  other: 'Other',
+};
+
+export default function FundingSources() {
+  const { budget, funding, exchangeRates, saveBudget, addFunding, updateFunding, deleteFunding } = useData();
+  const { group } = useHistory();
+  const homeCurrency = getHomeCurrency(budget);
+  const convert = createConverter(budget, exchangeRates);
+  const [editingFunding, setEditingFunding] = useState<Funding | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const emptyForm = {
+    name: '',
+    kind: 'scholarship' as FundingKind,
+    amount: '',
+    currency: homeCurrency,
+    expectedDate: format(new Date(), 'yyyy-MM-dd'),
+    received: false,
+    notes: '',
+  };
+  const [formData, setFormData] = useState(emptyForm);
+
+  if (!budget) return null;
+
+  const { received, pending } = calculateFundingTotals(budget, funding, exchangeRates);
+
+  // Amount an entry has added to the balance so far (only received money counts)
+  const receivedAmount = (item: Funding | null) =>
+    item?.receivedDate ? convert(item.amount, item.currency, item.receivedDate) : 0;
+
+  // In remaining mode the balance is kept by hand, so received money is added to it directly
+  // `note` (what happened to the funding) shows in the budget history
+  const adjustBalance = async (delta: number, note: string, historyGroup?: HistoryGroup) => {
+    if (budget.budgetMode !== 'remaining' || delta === 0) return;
+
+    const updatedBudget: Budget = { ...budget, semesterBudget: budget.semesterBudget + delta };
+    await saveBudget(updatedBudget, { reason: 'funding', note }, historyGroup);
+  };
+
+  const handleEdit = (item?: Funding) => {
+    if (item) {
+      setEditingFunding(item);
+      setFormData({
+        name: item.name,
+        kind: item.kind,
+        amount: centsToDecimal(item.amount),
+        currency: item.currency,
+        expectedDate: item.expectedDate,
+        received: !!item.receivedDate,
+        notes: item.notes || '',
+      });
+    } else {
+      setEditingFunding(null);
+      setFormData(emptyForm);
+    }
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseMoneyInput(formData.amount);
+    if (amount === null || amount <= 0) {
+      alert('Please enter a valid amount');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const item: Funding = {
+        id: editingFunding?.id || crypto.randomUUID(),
+        name: formData.name.trim(),
+        kind: formData.kind,
+        amount,
+        currency: formData.currency,
+        expectedDate: formData.expectedDate,
+        // Keep the original arrival date when editing something already received
+        receivedDate: formData.received
+          ? editingFunding?.receivedDate || format(new Date(), 'yyyy-MM-dd')
+          : undefined,
+        notes: formData.notes || undefined,
+      };
+
+      // Undone together with the balance change it makes
+      const label = `${editingFunding ? 'Edited' : 'Added'} funding "${item.name}"`;
+      await group(label, async historyGroup => {
+        if (editingFunding) {
+          await updateFunding(item.id, item, historyGroup);
+        } else {
+          await addFunding(item, historyGroup);
+        }
+        await adjustBalance(receivedAmount(item) - receivedAmount(editingFunding), label, historyGroup);
+      });
+
+      setShowForm(false);
+      setEditingFunding(null);
+    } catch (error) {
+      alert('Error saving funding: ' + errorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMarkReceived = async (item: Funding) => {
+    try {
+      const receivedDate = format(new Date(), 'yyyy-MM-dd');
+      const label = `Marked "${item.name}" received`;
+      await group(label, async historyGroup => {
+        await updateFunding(item.id, { receivedDate }, historyGroup);
+        await adjustBalance(receivedAmount({ ...item, receivedDate }), label, historyGroup);
+      });
+    } catch (error) {
+      alert('Error updating funding: ' + errorMessage(error));
+    }
+  };
+
+  const handleDelete = async (item: Funding) => {
+    if (!confirm(`Delete "${item.name}"?`)) return;
+
+    try {
+      const label = `Deleted funding "${item.name}"`;
+      await group(label, async historyGroup => {
+        await deleteFunding(item.id, historyGroup);
+        await adjustBalance(-receivedAmount(item), label, historyGroup);
+      });
+    } catch (error) {
+      alert('Error deleting funding: ' + errorMessage(error));
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-6 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+          <PiggyBank className="w-6 h-6 text-primary-400" />
+          Income & Funding
+        </h2>
+        <button
+          onClick={() => handleEdit()}
+          className="px-3 py-2 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          Add
+        </button>
+      </div>
+
+      {funding.length === 0 ? (
+        <p className="text-gray-400">
+          Add scholarship disbursements, transfers from home or part-time pay with the date you expect them.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div className="bg-slate-700 rounded-lg p-3">
+              <p className="text-sm text-gray-400">Received</p>
+              <p className="text-xl font-bold text-green-400">{formatMoney(received, homeCurrency)}</p>
+            </div>
+            <div className="bg-slate-700 rounded-lg p-3">
+              <p className="text-sm text-gray-400">Still to arrive</p>
+              <p className="text-xl font-bold text-yellow-400">{formatMoney(pending, homeCurrency)}</p>
+            </div>
+          </div>
+          <div className="space-y-3">
+            {funding.map((item) => (
+              <div key={item.id} className="bg-slate-700 rounded-lg p-4 flex items-center justify-between">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-white font-semibold">{item.name}</h3>
+                    <span className="text-xs px-2 py-0.5 bg-slate-600 text-gray-300 rounded">{FUNDING_KINDS[item.kind]}</span>
+                  </div>
+                  <p className="text-sm text-gray-400 mt-1">
+                    {item.receivedDate
+                      ? `Received ${format(parseISO(item.receivedDate), 'MMM d, yyyy')}`
+                      : `Expected ${format(parseISO(item.expectedDate), 'MMM d, yyyy')}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="text-right">
+                    <span className={`text-lg font-bold ${item.receivedDate ? 'text-green-400' : 'text-yellow-400'}`}>
+                      {formatMoney(item.amount, item.currency)}
+                    </span>
+                    {item.currency !== homeCurrency && (
+                      <p className="text-xs text-gray-400">
+                        ≈ {formatMoney(convert(item.amount, item.currency, item.receivedDate || item.expectedDate), homeCurrency)}
+                      </p>
+                    )}
+                  </div>
+                  {!item.receivedDate && (
+                    <button
+                      onClick={() => handleMarkReceived(item)}
+                      className="p-2 text-green-400 hover:bg-slate-600 rounded transition-colors"
+                      title="Mark as received"
+                    >
+                      <Check className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleEdit(item)}
+                    className="p-2 text-primary-400 hover:bg-slate-600 rounded transition-colors"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(item)}
+                    className="p-2 text-red-400 hover:bg-slate-600 rounded transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-slate-800 rounded-lg p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-2xl font-bold text-white">
+                {editingFunding ? 'Edit Funding' : 'Add Funding'}
+              </h3>
+              <button
+                onClick={() => setShowForm(false)}
+                className="p-2 text-gray-400 hover:text-white hover:bg-slate-700 rounded transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Name *
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                  placeholder="e.g., Spring scholarship, October transfer"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Type
+                </label>
+                <select
+                  value={formData.kind}
+                  onChange={(e) => setFormData({ ...formData, kind: e.target.value as FundingKind })}
+                  className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                >
+                  {(Object.keys(FUNDING_KINDS) as FundingKind[]).map((kind) => (
+                    <option key={kind} value={kind}>{FUNDING_KINDS[kind]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Amount *
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.amount}
+                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                    className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Currency
+                  </label>
+                  <select
+                    value={formData.currency}
+                    onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                    className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                  >
+                    {CURRENCIES.map(({ code }) => (
+                      <option key={code} value={code}>{code}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Expected Date *
+                </label>
+                <input
+                  type="date"
+                  value={formData.expectedDate}
+                  onChange={(e) => setFormData({ ...formData, expectedDate: e.target.value })}
+                  className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                  required
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={formData.received}
+                  onChange={(e) => setFormData({ ...formData, received: e.target.checked })}
+                />
+                Already received
+              </label>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Notes
+                </label>
+                <textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                  rows={2}
+                />
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="flex-1 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : editingFunding ? 'Update' : 'Add Funding'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowForm(false)}
+                  className="flex-1 px-4 py-2 bg-slate-600 hover:bg-slate-700 text-white rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
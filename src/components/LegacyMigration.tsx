@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react';
+import { HardDrive, X } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
+import { ExportBundle } from '../utils/dataExport';
+import {
+  RestorePlan,
+  getLegacyMigration,
+  markLegacyMigrated,
+  planHasChanges,
+  planLegacyMigration,
+  readLegacyLocalStorage,
+} from '../utils/dataImport';
+import { getHomeCurrency } from '../utils/currency';
+import { errorMessage } from '../utils/errors';
+import RestorePlanSummary from './RestorePlanSummary';
+
+// Offers to upload data saved by the old localStorage-only build the first time someone signs in
+// on a browser that still has it
+export default function LegacyMigration() {
+  const { user, loading, loadExportBundle, applyRestore } = useData();
+  const userId = user?.id;
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [current, setCurrent] = useState<ExportBundle | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    // Wait for the first load so new accounts already have their default categories to match against
+    if (loading || !userId || getLegacyMigration()) return;
+    const legacy = readLegacyLocalStorage();
+    if (!legacy) return;
+
+    let cancelled = false;
+    const prepare = async () => {
+      try {
+        const currentBundle = await loadExportBundle();
+        if (cancelled) return;
+
+        const legacyPlan = planLegacyMigration(legacy, currentBundle);
+        if (!planHasChanges(legacyPlan)) {
+          // Everything is already in the account (imported by hand from the Profile page)
+          markLegacyMigrated(userId);
+          return;
+        }
+        setCurrent(currentBundle);
+        setPlan(legacyPlan);
+      } catch (error) {
+        console.error('Error checking for data from the old version:', error);
+      }
+    };
+    prepare();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loading, userId, loadExportBundle]);
+
+  if (!plan || !current) return null;
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      if (!user) throw new Error('User not authenticated');
+      await applyRestore(plan, current);
+      markLegacyMigrated(user.id);
+      setPlan(null);
+    } catch (error) {
+      alert('Error importing data: ' + errorMessage(error));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-800 rounded-lg p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-2xl font-bold text-white flex items-center gap-2">
+            <HardDrive className="w-6 h-6 text-primary-400" />
+            Bring Over Your Data
+          </h3>
+          <button
+            onClick={() => setPlan(null)}
+            className="p-2 text-gray-400 hover:text-white hover:bg-slate-700 rounded transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-300 mb-4">
+          This browser still has data from the earlier offline version of the app. Import it into your account
+          so it's backed up and available on your other devices.
+        </p>
+
+        <div className="bg-slate-700 rounded-lg p-4 mb-4">
+          <RestorePlanSummary plan={plan} />
+        </div>
+
+        <ul className="text-xs text-gray-400 space-y-1 mb-4 list-disc list-inside">
+          <li>Trip costs are converted: the actual cost becomes prepaid, and whatever is left of the estimate becomes planned.</li>
+          <li>The old version had no currencies, so amounts are imported in {getHomeCurrency(current.budget)}.</li>
+          {current.budget && <li>Your account already has a budget, so the old one is left out.</li>}
+          <li>The old data stays in this browser. Not now? You can import it later from Profile → Restore from Backup.</li>
+        </ul>
+
+        <div className="flex gap-3">
+          <button
+            onClick={handleImport}
+            disabled={isImporting}
+            className="flex-1 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isImporting ? 'Importing...' : 'Import My Data'}
+          </button>
+          <button
+            onClick={() => setPlan(null)}
+            disabled={isImporting}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+          >
+            Not Now
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
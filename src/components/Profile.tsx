@@ -1,58 +1,54 @@
-import { useState, useEffect, useRef } from 'react';
-import { supabase } from '../lib/supabase';
-import { User, LogOut, LogIn, UserPlus, Mail } from 'lucide-react';
-import type { User as SupabaseUser } from '@supabase/supabase-js';
+import { useState } from 'react';
+import { User, LogOut, LogIn, UserPlus, Mail, Download, FileJson, FileSpreadsheet } from 'lucide-react';
+import { format } from 'date-fns';
 import Auth from './Auth';
-
-// Cache user at module level so it persists across remounts
-let cachedUser: SupabaseUser | null = null;
-let hasLoadedOnce = false;
+import BackupRestore from './BackupRestore';
+import Trash from './Trash';
+import { useData } from '../contexts/DataContext';
+import { ExportFile, buildCsvExports, downloadFile } from '../utils/dataExport';
+import { errorMessage } from '../utils/errors';
 
 export default function Profile() {
-  // Initialize from cache if available - prevents loading flash on remount
-  const [user, setUser] = useState<SupabaseUser | null>(cachedUser);
-  const [loading, setLoading] = useState(!hasLoadedOnce);
-  const mountedRef = useRef(true);
+  const { user, loading, loadExportBundle, countUnsyncedWrites, signOut } = useData();
+  const [isExporting, setIsExporting] = useState(false);
+  const [csvFiles, setCsvFiles] = useState<ExportFile[]>([]);
 
-  useEffect(() => {
-    mountedRef.current = true;
-    
-    // If we've already loaded once, just use cached data - don't show loading
-    if (hasLoadedOnce && cachedUser) {
-      setUser(cachedUser);
-      setLoading(false);
-    } else {
-      // First load - get session
-      supabase.auth.getSession().then(({ data: { session } }) => {
-        if (mountedRef.current) {
-          const sessionUser = session?.user ?? null;
-          cachedUser = sessionUser;
-          hasLoadedOnce = true;
-          setUser(sessionUser);
-          setLoading(false);
-        }
-      });
+  const handleSignOut = async () => {
+    // Writes still waiting to sync are dropped with the rest of this device's copy
+    const pending = countUnsyncedWrites();
+    if (pending > 0 && !confirm(`${pending} change${pending === 1 ? ' has' : 's have'}n't synced yet and will be lost if you sign out. Sign out anyway?`)) {
+      return;
     }
+    await signOut();
+  };
 
-    // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
-      if (mountedRef.current) {
-        const sessionUser = session?.user ?? null;
-        cachedUser = sessionUser;
-        hasLoadedOnce = true;
-        setUser(sessionUser);
-        setLoading(false);
-      }
-    });
+  const filePrefix = `abroadbuddy-${format(new Date(), 'yyyy-MM-dd')}`;
 
-    return () => {
-      mountedRef.current = false;
-      subscription.unsubscribe();
-    };
-  }, []);
+  const handleExportJson = async () => {
+    setIsExporting(true);
+    try {
+      const bundle = await loadExportBundle();
+      downloadFile({
+        filename: `${filePrefix}.json`,
+        content: JSON.stringify(bundle, null, 2),
+        mimeType: 'application/json',
+      });
+    } catch (error) {
+      alert('Error exporting data: ' + errorMessage(error));
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
-  const handleSignOut = async () => {
-    await supabase.auth.signOut();
+  const handlePrepareCsv = async () => {
+    setIsExporting(true);
+    try {
+      setCsvFiles(buildCsvExports(await loadExportBundle()));
+    } catch (error) {
+      alert('Error exporting data: ' + errorMessage(error));
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   if (loading) {
@@ -110,7 +106,7 @@ export default function Profile() {
             <div>
               <p className="text-sm text-gray-400 mb-1">Account Created</p>
               <p className="text-white text-sm sm:text-base">
-                {new Date(user.created_at).toLocaleDateString('en-US', {
+                {new Date(user.createdAt).toLocaleDateString('en-US', {
                   year: 'numeric',
                   month: 'long',
                   day: 'numeric'
@@ -120,6 +116,53 @@ export default function Profile() {
           </div>
         </div>
 
+        {/* Data Export */}
+        <div className="bg-slate-700 rounded-lg p-4 sm:p-6">
+          <h3 className="text-base sm:text-lg font-semibold text-white mb-1 flex items-center gap-2">
+            <Download className="w-5 h-5 text-primary-400" />
+            Export Your Data
+          </h3>
+          <p className="text-xs sm:text-sm text-gray-400 mb-4">
+            Download everything as one JSON file, or as spreadsheets (including a monthly spending summary).
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <button
+              onClick={handleExportJson}
+              disabled={isExporting}
+              className="flex-1 px-4 py-2.5 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors flex items-center justify-center gap-2 text-sm sm:text-base disabled:opacity-50"
+            >
+              <FileJson className="w-4 h-4" />
+              Download JSON
+            </button>
+            <button
+              onClick={handlePrepareCsv}
+              disabled={isExporting}
+              className="flex-1 px-4 py-2.5 bg-slate-600 hover:bg-slate-500 text-white rounded-lg transition-colors flex items-center justify-center gap-2 text-sm sm:text-base disabled:opacity-50"
+            >
+              <FileSpreadsheet className="w-4 h-4" />
+              {csvFiles.length > 0 ? 'Refresh CSVs' : 'Prepare CSVs'}
+            </button>
+          </div>
+          {csvFiles.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-3">
+              {csvFiles.map((file) => (
+                <button
+                  key={file.filename}
+                  onClick={() => downloadFile({ ...file, filename: `${filePrefix}-${file.filename}` })}
+                  className="px-3 py-2 bg-slate-800 hover:bg-slate-600 text-gray-300 rounded-lg transition-colors flex items-center gap-2 text-sm"
+                >
+                  <Download className="w-4 h-4" />
+                  {file.filename}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <BackupRestore />
+
+        <Trash />
+
         {/* Sign Out Button */}
         <div className="bg-slate-700 rounded-lg p-4 sm:p-6">
           <h3 className="text-base sm:text-lg font-semibold text-white mb-4">Account Actions</h3>
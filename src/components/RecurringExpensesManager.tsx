@@ -0,0 +1,328 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Plus, Trash2, X, Edit2, Square } from 'lucide-react';
+import { RecurrenceCadence, RecurringExpense } from '../types';
+import { useData } from '../contexts/DataContext';
+import { CURRENCIES, getHomeCurrency } from '../utils/currency';
+import { centsToDecimal, formatMoney, parseMoneyInput } from '../utils/money';
+import { findCategory } from '../utils/categories';
+import { CADENCE_LABELS, getNextOccurrence } from '../utils/recurring';
+import { errorMessage } from '../utils/errors';
+import CategoryPicker from './CategoryPicker';
+
+interface RecurringExpensesManagerProps {
+  onClose: () => void;
+}
+
+export default function RecurringExpensesManager({ onClose }: RecurringExpensesManagerProps) {
+  const { budget, categories, recurringExpenses, addRecurringExpense, updateRecurringExpense, deleteRecurringExpense } = useData();
+  const homeCurrency = getHomeCurrency(budget);
+  const [editingSeries, setEditingSeries] = useState<RecurringExpense | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const emptyForm = {
+    description: '',
+    amount: '',
+    currency: homeCurrency,
+    categoryId: '',
+    cadence: 'monthly' as RecurrenceCadence,
+    startDate: format(new Date(), 'yyyy-MM-dd'),
+    endDate: '',
+    notes: '',
+  };
+  const [formData, setFormData] = useState(emptyForm);
+
+  const handleEdit = (series?: RecurringExpense) => {
+    if (series) {
+      setEditingSeries(series);
+      setFormData({
+        description: series.description,
+        amount: centsToDecimal(series.amount),
+        currency: series.currency,
+        categoryId: series.categoryId || '',
+        cadence: series.cadence,
+        startDate: series.startDate,
+        endDate: series.endDate || '',
+        notes: series.notes || '',
+      });
+    } else {
+      setEditingSeries(null);
+      setFormData(emptyForm);
+    }
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseMoneyInput(formData.amount);
+    if (amount === null || amount <= 0) {
+      alert('Please enter a valid amount');
+      return;
+    }
+    if (formData.endDate && formData.endDate < formData.startDate) {
+      alert('End date must be on or after the start date');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const series = {
+        description: formData.description.trim(),
+        amount,
+        currency: formData.currency,
+        categoryId: formData.categoryId || undefined,
+        cadence: formData.cadence,
+        startDate: formData.startDate,
+        endDate: formData.endDate || undefined,
+        notes: formData.notes || undefined,
+      };
+
+      if (editingSeries) {
+        // Occurrences already posted keep their original amount and date
+        // '' clears the category
+        // Both post anything already due
+        await updateRecurringExpense(editingSeries.id, { ...series, categoryId: formData.categoryId });
+      } else {
+        await addRecurringExpense({ ...series, id: crypto.randomUUID() });
+      }
+
+      setShowForm(false);
+      setEditingSeries(null);
+    } catch (error) {
+      alert('Error saving recurring expense: ' + errorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Ending a series stops future occurrences but keeps everything posted so far
+  const handleEnd = async (series: RecurringExpense) => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const endDate = series.lastPostedDate && series.lastPostedDate > today ? series.lastPostedDate : today;
+    if (!confirm(`Stop "${series.description}" after ${format(parseISO(endDate), 'MMM d, yyyy')}?`)) return;
+
+    try {
+      await updateRecurringExpense(series.id, { endDate });
+    } catch (error) {
+      alert('Error ending recurring expense: ' + errorMessage(error));
+    }
+  };
+
+  const handleDelete = async (series: RecurringExpense) => {
+    if (!confirm(`Delete "${series.description}"? Expenses already posted from it are kept.`)) return;
+
+    try {
+      await deleteRecurringExpense(series.id);
+    } catch (error) {
+      alert('Error deleting recurring expense: ' + errorMessage(error));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-800 rounded-lg p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-2xl font-bold text-white">Recurring Expenses</h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-white hover:bg-slate-700 rounded transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {showForm ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Description *
+              </label>
+              <input
+                type="text"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                placeholder="e.g., Rent, Phone plan, Metro pass"
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Amount *
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Currency
+                </label>
+                <select
+                  value={formData.currency}
+                  onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                  className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                >
+                  {CURRENCIES.map(({ code }) => (
+                    <option key={code} value={code}>{code}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Repeats
+              </label>
+              <select
+                value={formData.cadence}
+                onChange={(e) => setFormData({ ...formData, cadence: e.target.value as RecurrenceCadence })}
+                className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+              >
+                {(Object.keys(CADENCE_LABELS) as RecurrenceCadence[]).map((cadence) => (
+                  <option key={cadence} value={cadence}>{CADENCE_LABELS[cadence]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Starts *
+                </label>
+                <input
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                  className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Ends
+                </label>
+                <input
+                  type="date"
+                  value={formData.endDate}
+                  onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                  className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Category
+              </label>
+              <CategoryPicker
+                categories={categories}
+                value={formData.categoryId}
+                onChange={(categoryId) => setFormData({ ...formData, categoryId })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Notes
+              </label>
+              <textarea
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                rows={2}
+              />
+            </div>
+            {editingSeries && (
+              <p className="text-xs text-gray-400">
+                Changes apply to future occurrences only. Expenses already posted stay as they are.
+              </p>
+            )}
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="flex-1 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : editingSeries ? 'Update' : 'Add Recurring Expense'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="flex-1 px-4 py-2 bg-slate-600 hover:bg-slate-700 text-white rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-3">
+            {recurringExpenses.length === 0 && (
+              <p className="text-gray-400 text-sm">
+                Add rent, phone plans or transit passes once and they are posted as expenses on each due date.
+              </p>
+            )}
+            {recurringExpenses.map((series) => {
+              const next = getNextOccurrence(series);
+              const category = findCategory(categories, series.categoryId);
+              return (
+                <div key={series.id} className="bg-slate-700 rounded-lg p-3 flex items-center justify-between">
+                  <div>
+                    <p className="text-white font-medium">
+                      {series.description}
+                      {category && (
+                        <span className="ml-2 text-xs" style={{ color: category.color }}>{category.name}</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {formatMoney(series.amount, series.currency)} · {CADENCE_LABELS[series.cadence]}
+                      {' · '}
+                      {next ? `Next ${format(parseISO(next), 'MMM d, yyyy')}` : 'Ended'}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => handleEdit(series)}
+                      className="p-2 text-primary-400 hover:bg-slate-600 rounded transition-colors"
+                      title="Edit"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    {next && (
+                      <button
+                        onClick={() => handleEnd(series)}
+                        className="p-2 text-yellow-400 hover:bg-slate-600 rounded transition-colors"
+                        title="End series"
+                      >
+                        <Square className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDelete(series)}
+                      className="p-2 text-red-400 hover:bg-slate-600 rounded transition-colors"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+            <button
+              onClick={() => handleEdit()}
+              className="w-full px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors flex items-center justify-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add Recurring Expense
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { RestorePlan, summarizePlan } from '../utils/dataImport';
+
+// Dry-run table: what a restore or migration would create, update, leave alone or delete
+export default function RestorePlanSummary({ plan }: { plan: RestorePlan }) {
+  const summary = summarizePlan(plan);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-gray-400 text-left">
+            <th className="py-1 pr-2 font-medium">What</th>
+            <th className="py-1 px-2 font-medium text-right">New</th>
+            <th className="py-1 px-2 font-medium text-right">Updated</th>
+            <th className="py-1 px-2 font-medium text-right">Unchanged</th>
+            {plan.mode === 'replace' && <th className="py-1 pl-2 font-medium text-right">Deleted</th>}
+          </tr>
+        </thead>
+        <tbody className="text-gray-200">
+          <tr className="border-t border-slate-600">
+            <td className="py-1 pr-2">Budget</td>
+            <td colSpan={plan.mode === 'replace' ? 4 : 3} className="py-1 px-2 text-right text-gray-400">
+              {plan.budget === 'create' ? 'will be set' : plan.budget === 'update' ? 'will be overwritten' : 'unchanged'}
+            </td>
+          </tr>
+          {summary.map(row => (
+            <tr key={row.label} className="border-t border-slate-600">
+              <td className="py-1 pr-2">{row.label}</td>
+              <td className="py-1 px-2 text-right">{row.create}</td>
+              <td className="py-1 px-2 text-right">{row.update}</td>
+              <td className="py-1 px-2 text-right">{row.skip}</td>
+              {plan.mode === 'replace' && <td className="py-1 pl-2 text-right text-red-300">{row.remove}</td>}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,369 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Plus, Trash2, X, Edit2, Goal, Coins } from 'lucide-react';
+import { Cents, SavingsGoal } from '../types';
+import { useData } from '../contexts/DataContext';
+import { getHomeCurrency } from '../utils/currency';
+import { centsToDecimal, formatMoney, parseMoneyInput } from '../utils/money';
+import { createConverter } from '../utils/exchangeRates';
+import { GoalStatus, calculateGoalProgress } from '../utils/budgetCalculations';
+import { errorMessage } from '../utils/errors';
+
+const STATUS_INFO: Record<GoalStatus, { label: string; className: string }> = {
+  reached: { label: 'Reached', className: 'bg-green-500/20 text-green-300' },
+  on_track: { label: 'On track', className: 'bg-green-500/20 text-green-300' },
+  behind: { label: 'Behind', className: 'bg-yellow-500/20 text-yellow-300' },
+  missed: { label: 'Missed', className: 'bg-red-500/20 text-red-300' },
+};
+
+// The form's "Saving for" choice, e.g. "trip:<id>" - empty when it isn't linked to anything
+const linkValue = (goal: Pick<SavingsGoal, 'tripId' | 'wishlistItemId'>) =>
+  goal.tripId ? `trip:${goal.tripId}` : goal.wishlistItemId ? `wishlistItem:${goal.wishlistItemId}` : '';
+
+export default function SavingsGoals() {
+  const { budget, trips, wishlist, savingsGoals, exchangeRates, addSavingsGoal, updateSavingsGoal, deleteSavingsGoal } = useData();
+  const homeCurrency = getHomeCurrency(budget);
+  const convert = createConverter(budget, exchangeRates);
+  const [editingGoal, setEditingGoal] = useState<SavingsGoal | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const emptyForm = {
+    link: '',
+    name: '',
+    target: '',
+    saved: '',
+    targetDate: '',
+  };
+  const [formData, setFormData] = useState(emptyForm);
+
+  if (!budget) return null;
+
+  const money = (amount: Cents) => formatMoney(amount, homeCurrency);
+  const today = format(new Date(), 'yyyy-MM-dd');
+  // Trips still to come, plus the one the goal being edited is for
+  const upcomingTrips = trips.filter(trip => trip.startDate >= today || trip.id === editingGoal?.tripId);
+
+  const describeLink = (goal: SavingsGoal) => {
+    const trip = goal.tripId ? trips.find(entry => entry.id === goal.tripId) : undefined;
+    if (trip) return `Trip to ${trip.destination}`;
+    const item = goal.wishlistItemId ? wishlist.find(entry => entry.id === goal.wishlistItemId) : undefined;
+    if (item) return `Wishlist: ${item.location}`;
+    return null;
+  };
+
+  const handleEdit = (goal?: SavingsGoal) => {
+    if (goal) {
+      setEditingGoal(goal);
+      setFormData({
+        link: linkValue(goal),
+        name: goal.name,
+        target: centsToDecimal(goal.target),
+        saved: centsToDecimal(goal.saved),
+        targetDate: goal.targetDate,
+      });
+    } else {
+      setEditingGoal(null);
+      setFormData(emptyForm);
+    }
+    setShowForm(true);
+  };
+
+  // Picking a trip or wishlist item fills in its name, what's still to pay (in the home currency)
+  // and, for a trip, its start date - anything already typed is kept
+  const handleLinkChange = (link: string) => {
+    const [kind, id] = link.split(':');
+    const trip = kind === 'trip' ? trips.find(entry => entry.id === id) : undefined;
+    const item = kind === 'wishlistItem' ? wishlist.find(entry => entry.id === id) : undefined;
+    const cost = trip
+      ? convert(trip.plannedCost, trip.currency, trip.startDate)
+      : item ? convert(item.estimatedCost, item.currency) : null;
+
+    setFormData({
+      ...formData,
+      link,
+      name: formData.name || trip?.name || item?.name || '',
+      target: formData.target || (cost ? centsToDecimal(cost) : ''),
+      targetDate: formData.targetDate || trip?.startDate || '',
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const target = parseMoneyInput(formData.target);
+    if (target === null || target <= 0) {
+      alert('Please enter a valid target amount');
+      return;
+    }
+    const saved = formData.saved.trim() ? parseMoneyInput(formData.saved) : 0;
+    if (saved === null || saved < 0) {
+      alert('Please enter a valid amount saved');
+      return;
+    }
+    const startDate = editingGoal?.startDate || today;
+    if (formData.targetDate < startDate) {
+      alert('The target date must be after the goal was started');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const [kind, id] = formData.link.split(':');
+      const goal: SavingsGoal = {
+        id: editingGoal?.id || crypto.randomUUID(),
+        name: formData.name.trim(),
+        tripId: kind === 'trip' ? id : undefined,
+        wishlistItemId: kind === 'wishlistItem' ? id : undefined,
+        target,
+        saved,
+        startDate,
+        targetDate: formData.targetDate,
+      };
+
+      if (editingGoal) {
+        await updateSavingsGoal(goal.id, goal);
+      } else {
+        await addSavingsGoal(goal);
+      }
+
+      setShowForm(false);
+      setEditingGoal(null);
+    } catch (error) {
+      alert('Error saving goal: ' + errorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Record this week's contribution as put aside
+  const handlePutAside = async (goal: SavingsGoal, amount: Cents) => {
+    try {
+      await updateSavingsGoal(goal.id, { saved: Math.min(goal.target, goal.saved + amount) });
+    } catch (error) {
+      alert('Error updating goal: ' + errorMessage(error));
+    }
+  };
+
+  const handleDelete = async (goal: SavingsGoal) => {
+    if (!confirm(`Delete the "${goal.name}" goal?`)) return;
+
+    try {
+      await deleteSavingsGoal(goal.id);
+    } catch (error) {
+      alert('Error deleting goal: ' + errorMessage(error));
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-6 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+          <Goal className="w-6 h-6 text-primary-400" />
+          Savings Goals
+        </h2>
+        <button
+          onClick={() => handleEdit()}
+          className="px-3 py-2 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          Add
+        </button>
+      </div>
+
+      {savingsGoals.length === 0 ? (
+        <p className="text-gray-400">
+          Put money aside week by week for a big trip or a wishlist item. Each week's share is kept out of
+          your spendable weekly budget in the calendar.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {savingsGoals.map((goal) => {
+            const progress = calculateGoalProgress(goal);
+            const status = STATUS_INFO[progress.status];
+            const link = describeLink(goal);
+            const percentage = Math.min(100, (goal.saved / goal.target) * 100);
+
+            return (
+              <div key={goal.id} className="bg-slate-700 rounded-lg p-4">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-white font-semibold">{goal.name}</h3>
+                      <span className={`text-xs px-2 py-0.5 rounded ${status.className}`}>{status.label}</span>
+                    </div>
+                    <p className="text-sm text-gray-400 mt-1">
+                      {link && `${link} · `}By {format(parseISO(goal.targetDate), 'MMM d, yyyy')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {progress.weeklyContribution > 0 && (
+                      <button
+                        onClick={() => handlePutAside(goal, progress.weeklyContribution)}
+                        className="p-2 text-green-400 hover:bg-slate-600 rounded transition-colors"
+                        title={`Put aside ${money(progress.weeklyContribution)}`}
+                      >
+                        <Coins className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleEdit(goal)}
+                      className="p-2 text-primary-400 hover:bg-slate-600 rounded transition-colors"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(goal)}
+                      className="p-2 text-red-400 hover:bg-slate-600 rounded transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="mt-3">
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="text-gray-300">{money(goal.saved)} of {money(goal.target)}</span>
+                    <span className="text-gray-400">{percentage.toFixed(0)}%</span>
+                  </div>
+                  <div className="w-full bg-slate-600 rounded-full h-2">
+                    <div
+                      className={`h-2 rounded-full transition-all ${progress.status === 'behind' ? 'bg-yellow-500' : progress.status === 'missed' ? 'bg-red-500' : 'bg-green-500'}`}
+                      style={{ width: `${percentage}%` }}
+                    />
+                  </div>
+                  {progress.weeklyContribution > 0 && (
+                    <p className="text-xs text-gray-400 mt-2">
+                      {money(progress.weeklyContribution)} a week, kept out of your weekly budget
+                      {progress.status === 'behind' && ` · ${money(progress.expectedByNow - goal.saved)} behind schedule`}
+                    </p>
+                  )}
+                  {progress.status === 'missed' && (
+                    <p className="text-xs text-red-300 mt-2">{money(goal.target - goal.saved)} short on the target date</p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-slate-800 rounded-lg p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-2xl font-bold text-white">
+                {editingGoal ? 'Edit Goal' : 'Add Goal'}
+              </h3>
+              <button
+                onClick={() => setShowForm(false)}
+                className="p-2 text-gray-400 hover:text-white hover:bg-slate-700 rounded transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Saving For
+                </label>
+                <select
+                  value={formData.link}
+                  onChange={(e) => handleLinkChange(e.target.value)}
+                  className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                >
+                  <option value="">Nothing in particular</option>
+                  {upcomingTrips.length > 0 && (
+                    <optgroup label="Trips">
+                      {upcomingTrips.map(trip => (
+                        <option key={trip.id} value={`trip:${trip.id}`}>{trip.name}</option>
+                      ))}
+                    </optgroup>
+                  )}
+                  {wishlist.length > 0 && (
+                    <optgroup label="Wishlist">
+                      {wishlist.map(item => (
+                        <option key={item.id} value={`wishlistItem:${item.id}`}>{item.name}</option>
+                      ))}
+                    </optgroup>
+                  )}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Name *
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                  placeholder="e.g., Spring break in Lisbon"
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Target ({homeCurrency}) *
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.target}
+                    onChange={(e) => setFormData({ ...formData, target: e.target.value })}
+                    className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Saved So Far
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.saved}
+                    onChange={(e) => setFormData({ ...formData, saved: e.target.value })}
+                    className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                    placeholder="0.00"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Target Date *
+                </label>
+                <input
+                  type="date"
+                  value={formData.targetDate}
+                  onChange={(e) => setFormData({ ...formData, targetDate: e.target.value })}
+                  className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                  required
+                />
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="flex-1 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : editingGoal ? 'Update' : 'Add Goal'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowForm(false)}
+                  className="flex-1 px-4 py-2 bg-slate-600 hover:bg-slate-700 text-white rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { FlaskConical, X, Save, Trash2, Plus } from 'lucide-react';
+import { BudgetScenario, Cents, ScenarioChoice } from '../types';
+import { useData } from '../contexts/DataContext';
+import { getHomeCurrency } from '../utils/currency';
+import { centsToDecimal, formatMoney, parseMoneyInput } from '../utils/money';
+import { calculateScenarioSummary } from '../utils/budgetCalculations';
+import { errorMessage } from '../utils/errors';
+
+interface ScenarioPlannerProps {
+  onClose: () => void;
+}
+
+// Saved scenarios shown next to the current plan and the one being edited
+const MAX_COMPARED = 3;
+
+// The plan as it is: every trip at its planned cost, no wishlist items
+const CURRENT_PLAN: BudgetScenario = { id: 'current', name: 'Current plan', choices: [] };
+
+const newScenario = (): BudgetScenario => ({ id: crypto.randomUUID(), name: '', choices: [] });
+
+const choiceKey = (kind: ScenarioChoice['kind'], itemId: string) => `${kind}:${itemId}`;
+
+export default function ScenarioPlanner({ onClose }: ScenarioPlannerProps) {
+  const {
+    budget, trips, wishlist, expenses, recurringExpenses, funding, exchangeRates, scenarios, saveScenario, deleteScenario,
+  } = useData();
+  const homeCurrency = getHomeCurrency(budget);
+  const [draft, setDraft] = useState<BudgetScenario>(newScenario);
+  // Cost fields as typed, so a half-entered amount isn't reformatted under the cursor
+  const [costInputs, setCostInputs] = useState<Record<string, string>>({});
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!budget) return null;
+
+  const money = (amount: Cents) => formatMoney(amount, homeCurrency);
+  const today = format(new Date(), 'yyyy-MM-dd');
+  // Trips already over can't be called off any more
+  const candidateTrips = trips
+    .filter(trip => trip.endDate >= today)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  const findChoice = (kind: ScenarioChoice['kind'], itemId: string) =>
+    draft.choices.find(choice => choice.kind === kind && choice.itemId === itemId);
+
+  const setChoice = (kind: ScenarioChoice['kind'], itemId: string, updates: Partial<ScenarioChoice>, defaultIncluded: boolean) => {
+    const existing = findChoice(kind, itemId) || { kind, itemId, included: defaultIncluded };
+    const others = draft.choices.filter(choice => !(choice.kind === kind && choice.itemId === itemId));
+    setDraft({ ...draft, choices: [...others, { ...existing, ...updates }] });
+  };
+
+  const handleCostChange = (kind: ScenarioChoice['kind'], itemId: string, value: string, defaultIncluded: boolean) => {
+    setCostInputs({ ...costInputs, [choiceKey(kind, itemId)]: value });
+    const cost = value.trim() ? parseMoneyInput(value) : undefined;
+    // Keep the last valid cost while the field holds something unreadable
+    if (cost !== null && (cost === undefined || cost >= 0)) {
+      setChoice(kind, itemId, { cost }, defaultIncluded);
+    }
+  };
+
+  const loadScenario = (scenario: BudgetScenario) => {
+    setDraft(scenario);
+    setCostInputs(Object.fromEntries(
+      scenario.choices
+        .filter(choice => choice.cost !== undefined)
+        .map(choice => [choiceKey(choice.kind, choice.itemId), centsToDecimal(choice.cost!)])
+    ));
+  };
+
+  const handleSelectScenario = (id: string) => {
+    const scenario = scenarios.find(s => s.id === id);
+    loadScenario(scenario || newScenario());
+  };
+
+  const handleSave = async () => {
+    const name = draft.name.trim();
+    if (!name) {
+      alert('Enter a name for this scenario');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // Saving under another scenario's name replaces that one
+      const sameName = scenarios.find(s => s.id !== draft.id && s.name.toLowerCase() === name.toLowerCase());
+      if (sameName && !confirm(`Replace the "${sameName.name}" scenario?`)) return;
+      const saved = { ...draft, id: sameName?.id || draft.id, name: sameName?.name || name };
+      await saveScenario(saved);
+      setDraft(saved);
+    } catch (error) {
+      alert('Error saving scenario: ' + errorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (scenario: BudgetScenario) => {
+    if (!confirm(`Delete the "${scenario.name}" scenario?`)) return;
+
+    try {
+      await deleteScenario(scenario.id);
+      setComparedIds(comparedIds.filter(id => id !== scenario.id));
+      if (draft.id === scenario.id) loadScenario(newScenario());
+    } catch (error) {
+      alert('Error deleting scenario: ' + errorMessage(error));
+    }
+  };
+
+  const toggleCompared = (id: string) => {
+    if (comparedIds.includes(id)) {
+      setComparedIds(comparedIds.filter(compared => compared !== id));
+    } else if (comparedIds.length < MAX_COMPARED) {
+      setComparedIds([...comparedIds, id]);
+    }
+  };
+
+  const isSaved = scenarios.some(s => s.id === draft.id);
+  const columns = [
+    CURRENT_PLAN,
+    { ...draft, name: draft.name.trim() || 'New scenario' },
+    ...scenarios.filter(s => comparedIds.includes(s.id) && s.id !== draft.id),
+  ].map(scenario => ({
+    scenario,
+    summary: calculateScenarioSummary(budget, scenario, trips, wishlist, expenses, recurringExpenses, funding, exchangeRates),
+  }));
+
+  const inputClass = 'px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none text-sm';
+
+  const renderItem = (
+    kind: ScenarioChoice['kind'],
+    itemId: string,
+    title: string,
+    detail: string,
+    defaultCost: Cents,
+    currency: string,
+    defaultIncluded: boolean
+  ) => {
+    const choice = findChoice(kind, itemId);
+    const included = choice ? choice.included : defaultIncluded;
+    return (
+      <li key={itemId} className="flex items-center gap-3 py-2">
+        <input
+          type="checkbox"
+          checked={included}
+          onChange={(e) => setChoice(kind, itemId, { included: e.target.checked }, defaultIncluded)}
+          className="w-4 h-4 text-primary-600 bg-slate-700 border-slate-600 rounded focus:ring-primary-500"
+        />
+        <div className="flex-1 min-w-0">
+          <p className={`text-sm truncate ${included ? 'text-white' : 'text-gray-500 line-through'}`}>{title}</p>
+          <p className="text-xs text-gray-400 truncate">{detail}</p>
+        </div>
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            inputMode="decimal"
+            value={costInputs[choiceKey(kind, itemId)] ?? ''}
+            onChange={(e) => handleCostChange(kind, itemId, e.target.value, defaultIncluded)}
+            placeholder={centsToDecimal(defaultCost)}
+            disabled={!included}
+            className={`w-24 text-right disabled:opacity-50 ${inputClass}`}
+          />
+          <span className="text-xs text-gray-400 w-8">{currency}</span>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-800 rounded-lg p-6 max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-2xl font-bold text-white flex items-center gap-2">
+            <FlaskConical className="w-6 h-6" />
+            What-If Scenarios
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-white hover:bg-slate-700 rounded transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-400 mb-4">
+          Try calling off trips, adding wishlist items or changing what they cost, and see what it does to your budget.
+          Scenarios are saved separately; your real trips and wishlist stay as they are.
+        </p>
+
+        <div className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-3">
+            <select
+              value={isSaved ? draft.id : ''}
+              onChange={(e) => handleSelectScenario(e.target.value)}
+              className={`sm:w-56 ${inputClass}`}
+            >
+              <option value="">New scenario</option>
+              {scenarios.map(scenario => (
+                <option key={scenario.id} value={scenario.id}>{scenario.name}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Scenario name, e.g. Skip Paris"
+              className={`flex-1 ${inputClass}`}
+            />
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white rounded-lg text-sm transition-colors flex items-center justify-center gap-2"
+            >
+              <Save className="w-4 h-4" />
+              Save
+            </button>
+            {isSaved && (
+              <button
+                onClick={() => loadScenario(newScenario())}
+                className="px-4 py-2 bg-slate-600 hover:bg-slate-700 text-white rounded-lg text-sm transition-colors flex items-center justify-center gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                New
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="bg-slate-700 rounded-lg p-4">
+              <h4 className="text-sm font-semibold text-white mb-1">Planned Trips</h4>
+              {candidateTrips.length === 0 ? (
+                <p className="text-sm text-gray-400">No upcoming trips</p>
+              ) : (
+                <ul className="divide-y divide-slate-600">
+                  {candidateTrips.map(trip => renderItem(
+                    'trip',
+                    trip.id,
+                    trip.name,
+                    `${trip.destination} · ${format(parseISO(trip.startDate), 'MMM d')}`,
+                    trip.plannedCost,
+                    trip.currency,
+                    true
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="bg-slate-700 rounded-lg p-4">
+              <h4 className="text-sm font-semibold text-white mb-1">Wishlist</h4>
+              {wishlist.length === 0 ? (
+                <p className="text-sm text-gray-400">Your wishlist is empty</p>
+              ) : (
+                <ul className="divide-y divide-slate-600">
+                  {wishlist.map(item => renderItem(
+                    'wishlistItem',
+                    item.id,
+                    item.name,
+                    `${item.location} · ${item.priority} priority`,
+                    item.estimatedCost,
+                    item.currency,
+                    false
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          {scenarios.length > 0 && (
+            <div>
+              <p className="text-xs text-gray-400 mb-2">Compare with up to {MAX_COMPARED} saved scenarios:</p>
+              <div className="flex flex-wrap gap-2">
+                {scenarios.map(scenario => (
+                  <div key={scenario.id} className="flex items-center gap-1 px-3 py-1 bg-slate-700 rounded-full text-sm">
+                    <label className="flex items-center gap-2 text-gray-200 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={comparedIds.includes(scenario.id)}
+                        onChange={() => toggleCompared(scenario.id)}
+                        disabled={!comparedIds.includes(scenario.id) && comparedIds.length >= MAX_COMPARED}
+                        className="w-3 h-3 text-primary-600 bg-slate-700 border-slate-600 rounded focus:ring-primary-500"
+                      />
+                      {scenario.name}
+                    </label>
+                    <button
+                      onClick={() => handleDelete(scenario)}
+                      className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+                      title="Delete scenario"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400">
+                  <th className="py-2 pr-4 font-medium"></th>
+                  {columns.map(({ scenario }) => (
+                    <th key={scenario.id} className="py-2 pr-4 font-medium text-white">{scenario.name}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700">
+                <tr>
+                  <td className="py-2 pr-4 text-gray-400">Remaining balance</td>
+                  {columns.map(({ scenario, summary }) => (
+                    <td key={scenario.id} className={`py-2 pr-4 font-semibold ${summary.remaining >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {money(summary.remaining)}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <td className="py-2 pr-4 text-gray-400">Daily allowance</td>
+                  {columns.map(({ scenario, summary }) => (
+                    <td key={scenario.id} className="py-2 pr-4 text-white">{money(summary.dailyAllowance)}</td>
+                  ))}
+                </tr>
+                <tr>
+                  <td className="py-2 pr-4 text-gray-400">Projected end balance</td>
+                  {columns.map(({ scenario, summary }) => (
+                    <td
+                      key={scenario.id}
+                      className={`py-2 pr-4 ${summary.endBalance === null ? 'text-gray-500' : summary.endBalance >= 0 ? 'text-green-400' : 'text-red-400'}`}
+                    >
+                      {summary.endBalance === null ? '-' : money(summary.endBalance)}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-400 mt-2">
+              Projected end balance assumes your recent daily spending continues, as in the dashboard forecast.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+
+interface StartupErrorProps {
+  message: string;
+}
+
+// Shown instead of the app when the storage backend can't be set up (its code failed to load,
+// say), so the page isn't left blank
+export default function StartupError({ message }: StartupErrorProps) {
+  return (
+    <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4">
+      <div className="bg-slate-800 rounded-lg p-6 max-w-md w-full text-center">
+        <AlertTriangle className="w-10 h-10 text-red-400 mx-auto mb-3" />
+        <h1 className="text-xl font-bold text-white mb-2">AbroadBuddy couldn't start</h1>
+        <p className="text-gray-400 text-sm mb-4">{message}</p>
+        <button
+          onClick={() => window.location.reload()}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Try Again
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CloudOff, RefreshCw, AlertTriangle, X } from 'lucide-react';
+import { useStorage } from '../contexts/StorageContext';
+import { SyncState } from '../utils/storageBackend';
+
+// Header badge for writes that haven't reached the server yet. Hidden when everything is synced.
+export default function SyncStatus() {
+  const { sync } = useStorage();
+  const [state, setState] = useState<SyncState | null>(() => sync?.getState() || null);
+  const [showDetails, setShowDetails] = useState(false);
+
+  useEffect(() => {
+    if (!sync) return;
+    setState(sync.getState());
+    return sync.subscribe(setState);
+  }, [sync]);
+
+  if (!sync || !state || (state.online && state.queue.length === 0)) return null;
+
+  const failed = state.queue.filter(item => item.status === 'failed');
+  const syncing = state.queue.some(item => item.status === 'syncing');
+
+  let badge: { text: string; className: string; icon: JSX.Element };
+  if (failed.length > 0) {
+    badge = {
+      text: `${failed.length} change${failed.length === 1 ? '' : 's'} couldn't sync`,
+      className: 'bg-red-500/20 text-red-300 border-red-500/50',
+      icon: <AlertTriangle className="w-4 h-4" />,
+    };
+  } else if (!state.online) {
+    badge = {
+      text: state.queue.length > 0 ? `Offline - ${state.queue.length} change${state.queue.length === 1 ? '' : 's'} waiting` : 'Offline',
+      className: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/50',
+      icon: <CloudOff className="w-4 h-4" />,
+    };
+  } else {
+    badge = {
+      text: `Syncing ${state.queue.length} change${state.queue.length === 1 ? '' : 's'}`,
+      className: 'bg-primary-500/20 text-primary-300 border-primary-500/50',
+      icon: <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />,
+    };
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setShowDetails(!showDetails)}
+        disabled={state.queue.length === 0}
+        className={`px-3 py-1.5 border rounded-full text-xs sm:text-sm flex items-center gap-2 ${badge.className}`}
+      >
+        {badge.icon}
+        <span className="hidden sm:inline">{badge.text}</span>
+        <span className="sm:hidden">{failed.length || state.queue.length || ''}</span>
+      </button>
+
+      {showDetails && state.queue.length > 0 && (
+        <div className="absolute right-0 mt-2 w-80 max-w-[90vw] bg-slate-800 border border-slate-600 rounded-lg shadow-xl z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+            <h4 className="text-sm font-semibold text-white">Waiting to sync</h4>
+            <button
+              onClick={() => setShowDetails(false)}
+              className="p-1 text-gray-400 hover:text-white hover:bg-slate-700 rounded transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <ul className="max-h-80 overflow-y-auto divide-y divide-slate-700">
+            {state.queue.map(item => (
+              <li key={item.id} className="px-4 py-2 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-gray-200 truncate">{item.label}</span>
+                  <span className={`text-xs flex-shrink-0 ${
+                    item.status === 'failed' ? 'text-red-400' : item.status === 'syncing' ? 'text-primary-400' : 'text-gray-400'
+                  }`}>
+                    {item.status === 'failed' ? 'Failed' : item.status === 'syncing' ? 'Syncing...' : 'Pending'}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {format(parseISO(item.createdAt), 'MMM d, HH:mm')}
+                  {item.attempts > 0 && ` · ${item.attempts} attempt${item.attempts === 1 ? '' : 's'}`}
+                </p>
+                {item.lastError && <p className="text-xs text-red-300 break-words">{item.lastError}</p>}
+                {item.status === 'failed' && (
+                  <div className="flex gap-2 mt-1">
+                    <button
+                      onClick={() => sync.retry(item.id)}
+                      className="px-2 py-1 bg-primary-600 hover:bg-primary-700 text-white rounded text-xs transition-colors"
+                    >
+                      Retry
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (confirm('Discard this change? It will be lost.')) sync.discard(item.id);
+                      }}
+                      className="px-2 py-1 bg-slate-600 hover:bg-slate-500 text-white rounded text-xs transition-colors"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+          {state.online && failed.length === 0 && (
+            <div className="px-4 py-2 border-t border-slate-700">
+              <button
+                onClick={() => sync.flush()}
+                className="w-full px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-gray-200 rounded text-xs transition-colors"
+              >
+                Sync now
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react';
+import { Trash2, RotateCcw, Plane, Receipt, Heart } from 'lucide-react';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { useData } from '../contexts/DataContext';
+import { useHistory } from '../contexts/HistoryContext';
+import { TRASH_DAYS, TrashItem } from '../utils/storageBackend';
+import { formatMoney } from '../utils/money';
+import { errorMessage } from '../utils/errors';
+
+const KIND_LABELS: Record<TrashItem['kind'], string> = {
+  trip: 'Trip',
+  expense: 'Expense',
+  wishlistItem: 'Wishlist',
+};
+
+const describe = (item: TrashItem) => {
+  switch (item.kind) {
+    case 'trip':
+      return {
+        name: item.record.name,
+        amount: formatMoney(item.record.prepaidCost + item.record.plannedCost, item.record.currency),
+        icon: Plane,
+      };
+    case 'expense':
+      return { name: item.record.description, amount: formatMoney(item.record.amount, item.record.currency), icon: Receipt };
+    case 'wishlistItem':
+      return { name: item.record.name, amount: formatMoney(item.record.estimatedCost, item.record.currency), icon: Heart };
+  }
+};
+
+// Deleted trips, expenses and wishlist items, kept for TRASH_DAYS before they're purged
+export default function Trash() {
+  const { trips, expenses, wishlist, restoreFromTrash, deletePermanently, getTrash } = useData();
+  const { group } = useHistory();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Anything deleted (or undone) elsewhere shows up here too
+  useEffect(() => {
+    getTrash()
+      .then(loaded => {
+        setItems(loaded);
+        setLoadError(null);
+      })
+      .catch(err => {
+        console.error('Error loading trash:', err);
+        setLoadError(errorMessage(err));
+      })
+      .finally(() => setLoading(false));
+  }, [getTrash, trips, expenses, wishlist]);
+
+  const dropFromList = (item: TrashItem) => {
+    setItems(prev => prev.filter(entry => !(entry.kind === item.kind && entry.record.id === item.record.id)));
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    setIsWorking(true);
+    try {
+      await restoreFromTrash(item);
+      dropFromList(item);
+    } catch (error) {
+      alert('Error restoring item: ' + errorMessage(error));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDelete = async (item: TrashItem) => {
+    if (!confirm(`Delete "${describe(item).name}" for good?`)) return;
+
+    setIsWorking(true);
+    try {
+      await deletePermanently(item);
+      dropFromList(item);
+    } catch (error) {
+      alert('Error deleting item: ' + errorMessage(error));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (!confirm(`Delete all ${items.length} items in the trash for good?`)) return;
+
+    setIsWorking(true);
+    try {
+      await group('Emptied the trash', async historyGroup => {
+        for (const item of items) {
+          await deletePermanently(item, historyGroup);
+          dropFromList(item);
+        }
+      });
+    } catch (error) {
+      alert('Error emptying trash: ' + errorMessage(error));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-700 rounded-lg p-4 sm:p-6">
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <h3 className="text-base sm:text-lg font-semibold text-white flex items-center gap-2">
+          <Trash2 className="w-5 h-5 text-primary-400" />
+          Trash
+        </h3>
+        {items.length > 0 && (
+          <button
+            onClick={handleEmpty}
+            disabled={isWorking}
+            className="px-3 py-1.5 text-xs sm:text-sm text-red-300 hover:text-white hover:bg-red-600 rounded-lg transition-colors disabled:opacity-50"
+          >
+            Empty Trash
+          </button>
+        )}
+      </div>
+      <p className="text-xs sm:text-sm text-gray-400 mb-4">
+        Deleted trips, expenses and wishlist items stay here for {TRASH_DAYS} days, then they're removed for good.
+      </p>
+
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading...</p>
+      ) : loadError ? (
+        <p className="text-sm text-red-300">Couldn't load the trash: {loadError}</p>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-gray-400">The trash is empty.</p>
+      ) : (
+        <div className="space-y-2">
+          {items.map(item => {
+            const { name, amount, icon: Icon } = describe(item);
+            const deletedAt = parseISO(item.deletedAt);
+            const daysLeft = Math.max(TRASH_DAYS - differenceInCalendarDays(new Date(), deletedAt), 0);
+            return (
+              <div key={`${item.kind}:${item.record.id}`} className="bg-slate-800 rounded-lg p-3 flex items-center gap-3">
+                <Icon className="w-5 h-5 text-gray-400 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white truncate">{name}</p>
+                  <p className="text-xs text-gray-400">
+                    {KIND_LABELS[item.kind]} · {amount} · Deleted {format(deletedAt, 'MMM d')} ·{' '}
+                    {daysLeft === 1 ? '1 day left' : `${daysLeft} days left`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRestore(item)}
+                  disabled={isWorking}
+                  title="Restore"
+                  className="p-2 text-gray-400 hover:text-primary-400 hover:bg-slate-700 rounded transition-colors disabled:opacity-50"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(item)}
+                  disabled={isWorking}
+                  title="Delete for good"
+                  className="p-2 text-gray-400 hover:text-red-400 hover:bg-slate-700 rounded transition-colors disabled:opacity-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
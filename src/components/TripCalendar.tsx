@@ -1,14 +1,31 @@
 import { useState } from 'react';
 import { Trip } from '../types';
-import { storage } from '../utils/supabaseStorage';
 import { useData } from '../contexts/DataContext';
+import { StorageConflictError } from '../utils/storageBackend';
+import { CURRENCIES, getHomeCurrency } from '../utils/currency';
+import { centsToDecimal, formatMoney, parseMoneyInput } from '../utils/money';
+import { errorMessage } from '../utils/errors';
 import { Plus, Calendar as CalendarIcon, MapPin, DollarSign, Edit2, Trash2 } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
+import ConflictMerge, { ConflictField } from './ConflictMerge';
+
+const TRIP_FIELDS: ConflictField<Trip>[] = [
+  { key: 'name', label: 'Trip Name' },
+  { key: 'destination', label: 'Destination' },
+  { key: 'startDate', label: 'Start Date' },
+  { key: 'endDate', label: 'End Date' },
+  { key: 'currency', label: 'Currency' },
+  { key: 'prepaidCost', label: 'Already Paid', format: trip => formatMoney(trip.prepaidCost, trip.currency) },
+  { key: 'plannedCost', label: 'Still Planned', format: trip => formatMoney(trip.plannedCost, trip.currency) },
+  { key: 'notes', label: 'Notes' },
+];
 
 export default function TripCalendar() {
-  const { trips, loading, refreshData } = useData();
+  const { trips, budget, loading, addTrip, updateTrip, deleteTrip } = useData();
+  const homeCurrency = getHomeCurrency(budget);
   const [showModal, setShowModal] = useState(false);
   const [editingTrip, setEditingTrip] = useState<Trip | null>(null);
+  const [conflict, setConflict] = useState<{ mine: Trip; theirs: Trip | null } | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     destination: '',
@@ -16,6 +33,7 @@ export default function TripCalendar() {
     endDate: '',
     prepaidCost: '',
     plannedCost: '',
+    currency: homeCurrency,
     notes: '',
   });
 
@@ -27,8 +45,9 @@ export default function TripCalendar() {
         destination: trip.destination,
         startDate: trip.startDate,
         endDate: trip.endDate,
-        prepaidCost: trip.prepaidCost.toString(),
-        plannedCost: trip.plannedCost.toString(),
+        prepaidCost: centsToDecimal(trip.prepaidCost),
+        plannedCost: centsToDecimal(trip.plannedCost),
+        currency: trip.currency,
         notes: trip.notes || '',
       });
     } else {
@@ -40,6 +59,7 @@ export default function TripCalendar() {
         endDate: '',
         prepaidCost: '0',
         plannedCost: '',
+        currency: homeCurrency,
         notes: '',
       });
     }
@@ -53,44 +73,66 @@ export default function TripCalendar() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    try {
-      const prepaid = parseFloat(formData.prepaidCost) || 0;
-      const planned = parseFloat(formData.plannedCost) || 0;
-      
-      const trip: Trip = {
-        id: editingTrip?.id || crypto.randomUUID(),
-        name: formData.name,
-        destination: formData.destination,
-        startDate: formData.startDate,
-        endDate: formData.endDate,
-        prepaidCost: prepaid,
-        plannedCost: planned,
-        notes: formData.notes || undefined,
-      };
 
+    const prepaid = parseMoneyInput(formData.prepaidCost) ?? 0;
+    const planned = parseMoneyInput(formData.plannedCost) ?? 0;
+
+    const trip: Trip = {
+      id: editingTrip?.id || crypto.randomUUID(),
+      name: formData.name,
+      destination: formData.destination,
+      startDate: formData.startDate,
+      endDate: formData.endDate,
+      prepaidCost: prepaid,
+      plannedCost: planned,
+      currency: formData.currency,
+      notes: formData.notes || undefined,
+      // Rejected if another device saved this trip since it was opened
+      version: editingTrip?.version,
+    };
+
+    try {
       if (editingTrip) {
-        await storage.updateTrip(editingTrip.id, trip);
+        await updateTrip(editingTrip.id, trip);
       } else {
-        await storage.addTrip(trip);
+        await addTrip(trip);
       }
 
-      // Refresh all data to update trips and budget
-      await refreshData();
-
       handleCloseModal();
     } catch (error: any) {
+      if (error instanceof StorageConflictError) {
+        setConflict({ mine: trip, theirs: error.current as Trip | null });
+        return;
+      }
       alert('Error saving trip: ' + (error.message || 'Unknown error'));
     }
   };
 
+  // `merged` is null when keeping the other device's copy (or its deletion)
+  const handleResolveConflict = async (merged: Trip | null) => {
+    if (!conflict) return;
+    try {
+      if (merged && conflict.theirs) {
+        await updateTrip(merged.id, merged);
+      } else if (merged) {
+        await addTrip(merged);
+      }
+      setConflict(null);
+      handleCloseModal();
+    } catch (error) {
+      if (error instanceof StorageConflictError && merged) {
+        // Changed yet again in the meantime - compare against the newest copy
+        setConflict({ mine: merged, theirs: error.current as Trip | null });
+        return;
+      }
+      alert('Error saving trip: ' + errorMessage(error));
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (confirm('Are you sure you want to delete this trip?')) {
       try {
-        await storage.deleteTrip(id);
-        
-        // Refresh all data to update trips and budget
-        await refreshData();
+        await deleteTrip(id);
       } catch (error: any) {
         alert('Error deleting trip: ' + (error.message || 'Unknown error'));
       }
@@ -153,17 +195,17 @@ export default function TripCalendar() {
                       <div className="flex flex-wrap items-center gap-x-2">
                         {trip.prepaidCost > 0 && (
                           <span className="text-green-400">
-                            Prepaid: ${trip.prepaidCost.toLocaleString()}
+                            Prepaid: {formatMoney(trip.prepaidCost, trip.currency)}
                           </span>
                         )}
                         {trip.prepaidCost > 0 && trip.plannedCost > 0 && <span>|</span>}
                         {trip.plannedCost > 0 && (
                           <span className="text-yellow-400">
-                            Planned: ${trip.plannedCost.toLocaleString()}
+                            Planned: {formatMoney(trip.plannedCost, trip.currency)}
                           </span>
                         )}
                         <span className="text-gray-400">
-                          (Total: ${(trip.prepaidCost + trip.plannedCost).toLocaleString()})
+                          (Total: {formatMoney(trip.prepaidCost + trip.plannedCost, trip.currency)})
                         </span>
                       </div>
                     </div>
@@ -252,7 +294,7 @@ export default function TripCalendar() {
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-2">
-                    Already Paid ($)
+                    Already Paid
                   </label>
                   <input
                     type="number"
@@ -267,7 +309,7 @@ export default function TripCalendar() {
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-2">
-                    Plan to Spend ($)
+                    Plan to Spend
                   </label>
                   <input
                     type="number"
@@ -282,6 +324,22 @@ export default function TripCalendar() {
                   <p className="text-xs text-gray-500 mt-1">Money you still plan to spend</p>
                 </div>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Currency
+                </label>
+                <select
+                  value={formData.currency}
+                  onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                  className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                >
+                  {CURRENCIES.map((currency) => (
+                    <option key={currency.code} value={currency.code}>
+                      {currency.code} - {currency.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-2">
                   Notes
@@ -312,6 +370,18 @@ export default function TripCalendar() {
           </div>
         </div>
       )}
+
+      {conflict && (
+        <ConflictMerge
+          key={conflict.theirs?.version ?? 'deleted'}
+          what="trip"
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          fields={TRIP_FIELDS}
+          onResolve={handleResolveConflict}
+          onClose={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 }
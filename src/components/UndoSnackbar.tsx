@@ -0,0 +1,61 @@
+import { useEffect } from 'react';
+import { Undo2, Redo2, X } from 'lucide-react';
+import { useHistory } from '../contexts/HistoryContext';
+
+// Text fields keep the browser's own undo
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Offers to undo the last change for a few seconds after it's made. Ctrl/Cmd+Z undoes and
+// Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes at any time.
+export default function UndoSnackbar() {
+  const { undo, redo, canUndo, canRedo, notice, dismissNotice } = useHistory();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextField(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  if (!notice) return null;
+
+  const showRedo = notice.undone && canRedo;
+  const showUndo = !notice.undone && canUndo;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-md">
+      <div className="bg-slate-700 border border-slate-600 rounded-lg shadow-xl px-4 py-3 flex items-center gap-3">
+        <p className="flex-1 text-sm text-white truncate">
+          {notice.undone ? `Undone: ${notice.label}` : notice.label}
+        </p>
+        {(showUndo || showRedo) && (
+          <button
+            onClick={showUndo ? undo : redo}
+            className="flex items-center gap-1 px-3 py-1 text-sm font-medium text-primary-300 hover:text-white hover:bg-slate-600 rounded transition-colors"
+          >
+            {showUndo ? <Undo2 className="w-4 h-4" /> : <Redo2 className="w-4 h-4" />}
+            {showUndo ? 'Undo' : 'Redo'}
+          </button>
+        )}
+        <button
+          onClick={dismissNotice}
+          className="p-1 text-gray-400 hover:text-white hover:bg-slate-600 rounded transition-colors"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
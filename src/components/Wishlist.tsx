@@ -1,17 +1,33 @@
 import { useState } from 'react';
 import { WishlistItem } from '../types';
-import { storage } from '../utils/supabaseStorage';
 import { useData } from '../contexts/DataContext';
+import { StorageConflictError } from '../utils/storageBackend';
+import { CURRENCIES, getHomeCurrency } from '../utils/currency';
+import { centsToDecimal, formatMoney, parseMoneyInput } from '../utils/money';
+import { errorMessage } from '../utils/errors';
 import { Heart, Plus, MapPin, DollarSign, Edit2, Trash2, X } from 'lucide-react';
+import ConflictMerge, { ConflictField } from './ConflictMerge';
+
+const WISHLIST_FIELDS: ConflictField<WishlistItem>[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'location', label: 'Location' },
+  { key: 'currency', label: 'Currency' },
+  { key: 'estimatedCost', label: 'Estimated Cost', format: item => formatMoney(item.estimatedCost, item.currency) },
+  { key: 'priority', label: 'Priority' },
+  { key: 'notes', label: 'Notes' },
+];
 
 export default function Wishlist() {
-  const { wishlist: items, loading, refreshData } = useData();
+  const { wishlist: items, budget, loading, addWishlistItem, updateWishlistItem, deleteWishlistItem } = useData();
+  const homeCurrency = getHomeCurrency(budget);
   const [showModal, setShowModal] = useState(false);
   const [editingItem, setEditingItem] = useState<WishlistItem | null>(null);
+  const [conflict, setConflict] = useState<{ mine: WishlistItem; theirs: WishlistItem | null } | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     location: '',
     estimatedCost: '',
+    currency: homeCurrency,
     notes: '',
   });
 
@@ -21,7 +37,8 @@ export default function Wishlist() {
       setFormData({
         name: item.name,
         location: item.location,
-        estimatedCost: item.estimatedCost.toString(),
+        estimatedCost: centsToDecimal(item.estimatedCost),
+        currency: item.currency,
         notes: item.notes || '',
       });
     } else {
@@ -30,6 +47,7 @@ export default function Wishlist() {
         name: '',
         location: '',
         estimatedCost: '',
+        currency: homeCurrency,
         notes: '',
       });
     }
@@ -43,35 +61,60 @@ export default function Wishlist() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    try {
-      const item: WishlistItem = {
-        id: editingItem?.id || crypto.randomUUID(),
-        name: formData.name,
-        location: formData.location,
-        estimatedCost: parseFloat(formData.estimatedCost),
-        priority: editingItem?.priority || 'medium', // Keep existing or default to medium
-        notes: formData.notes || undefined,
-      };
 
+    const item: WishlistItem = {
+      id: editingItem?.id || crypto.randomUUID(),
+      name: formData.name,
+      location: formData.location,
+      estimatedCost: parseMoneyInput(formData.estimatedCost) ?? 0,
+      currency: formData.currency,
+      priority: editingItem?.priority || 'medium', // Keep existing or default to medium
+      notes: formData.notes || undefined,
+      // Rejected if another device saved this item since it was opened
+      version: editingItem?.version,
+    };
+
+    try {
       if (editingItem) {
-        await storage.updateWishlistItem(editingItem.id, item);
+        await updateWishlistItem(editingItem.id, item);
       } else {
-        await storage.addWishlistItem(item);
+        await addWishlistItem(item);
       }
 
-      await refreshData();
       handleCloseModal();
     } catch (error: any) {
+      if (error instanceof StorageConflictError) {
+        setConflict({ mine: item, theirs: error.current as WishlistItem | null });
+        return;
+      }
       alert('Error saving wishlist item: ' + (error.message || 'Unknown error'));
     }
   };
 
+  // `merged` is null when keeping the other device's copy (or its deletion)
+  const handleResolveConflict = async (merged: WishlistItem | null) => {
+    if (!conflict) return;
+    try {
+      if (merged && conflict.theirs) {
+        await updateWishlistItem(merged.id, merged);
+      } else if (merged) {
+        await addWishlistItem(merged);
+      }
+      setConflict(null);
+      handleCloseModal();
+    } catch (error) {
+      if (error instanceof StorageConflictError && merged) {
+        setConflict({ mine: merged, theirs: error.current as WishlistItem | null });
+        return;
+      }
+      alert('Error saving wishlist item: ' + errorMessage(error));
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (confirm('Are you sure you want to remove this from your wishlist?')) {
       try {
-        await storage.deleteWishlistItem(id);
-        await refreshData();
+        await deleteWishlistItem(id);
       } catch (error: any) {
         alert('Error deleting wishlist item: ' + (error.message || 'Unknown error'));
       }
@@ -125,7 +168,7 @@ export default function Wishlist() {
                     </div>
                     <div className="flex items-center gap-2">
                       <DollarSign className="w-4 h-4 flex-shrink-0" />
-                      <span>${item.estimatedCost.toLocaleString()}</span>
+                      <span>{formatMoney(item.estimatedCost, item.currency)}</span>
                     </div>
                     {item.notes && (
                       <p className="text-gray-400 mt-2">{item.notes}</p>
@@ -193,18 +236,36 @@ export default function Wishlist() {
                   required
                 />
               </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-300 mb-2">
-                  Estimated Cost ($)
-                </label>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={formData.estimatedCost}
-                  onChange={(e) => setFormData({ ...formData, estimatedCost: e.target.value })}
-                  className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
-                  required
-                />
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Estimated Cost
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={formData.estimatedCost}
+                    onChange={(e) => setFormData({ ...formData, estimatedCost: e.target.value })}
+                    className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Currency
+                  </label>
+                  <select
+                    value={formData.currency}
+                    onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                    className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 focus:border-primary-500 focus:outline-none"
+                  >
+                    {CURRENCIES.map((currency) => (
+                      <option key={currency.code} value={currency.code}>
+                        {currency.code}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -236,6 +297,18 @@ export default function Wishlist() {
           </div>
         </div>
       )}
+
+      {conflict && (
+        <ConflictMerge
+          key={conflict.theirs?.version ?? 'deleted'}
+          what="wishlist item"
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          fields={WISHLIST_FIELDS}
+          onResolve={handleResolveConflict}
+          onClose={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 }
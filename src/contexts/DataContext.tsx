@@ -1,33 +1,254 @@
-import { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
-import { Budget, Trip, WishlistItem, Expense } from '../types';
-import { storage } from '../utils/supabaseStorage';
-import { supabase } from '../lib/supabase';
+import { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode, Dispatch, SetStateAction } from 'react';
+import {
+  Budget,
+  BudgetChange,
+  BudgetChangeCause,
+  BudgetScenario,
+  Trip,
+  WishlistItem,
+  Expense,
+  ExpenseCategory,
+  RecurringExpense,
+  Funding,
+  SavingsGoal,
+  ExchangeRate,
+  WeeklyPlan,
+  WeeklyPlanEvent,
+} from '../types';
+import { useStorage } from './StorageContext';
+import { HistoryGroup, useHistory } from './HistoryContext';
+import { compareCents } from '../utils/money';
+import { DEFAULT_CATEGORIES } from '../utils/categories';
+import { calculateSpentAndPlanned } from '../utils/budgetCalculations';
+import { CsvImportPreset } from '../utils/csvImport';
+import { ExportBundle, loadExportBundle as loadBundleFrom } from '../utils/dataExport';
+import { RestorePlan, applyRestore as applyRestorePlan } from '../utils/dataImport';
+import {
+  MalformedRow,
+  StorageChange,
+  StorageConflictError,
+  StorageUser,
+  TrashItem,
+  TrashKind,
+  WeeklyPlanEventChange,
+  patchById,
+} from '../utils/storageBackend';
+import { errorMessage } from '../utils/errors';
 
 interface DataContextType {
+  // Who's signed in; null once they sign out
+  user: StorageUser | null;
   budget: Budget | null;
   trips: Trip[];
   wishlist: WishlistItem[];
   expenses: Expense[];
+  categories: ExpenseCategory[];
+  recurringExpenses: RecurringExpense[];
+  funding: Funding[];
+  savingsGoals: SavingsGoal[];
+  exchangeRates: ExchangeRate[];
+  csvPresets: CsvImportPreset[];
+  scenarios: BudgetScenario[];
   loading: boolean;
   refreshData: () => Promise<void>;
-  updateBudget: (budget: Budget | null) => void;
-  updateTrips: (trips: Trip[]) => void;
-  updateWishlist: (wishlist: WishlistItem[]) => void;
-  updateExpenses: (expenses: Expense[]) => void;
+  // Why the last load failed, or null once one succeeds. Whatever was loaded before is kept.
+  loadError: string | null;
+  // Rows the server sent that didn't fit their schema, left out of the lists above
+  malformedRows: MalformedRow[];
+  // Each change shows up straight away and is saved in the background. If saving fails it's
+  // undone (or, for an edit conflict, replaced with the other device's copy) and the error is
+  // rethrown for the caller to report. Changes that save are added to the undo history.
+  // `change` says why the budget changed, for the audit log (see BudgetHistory). Passing a
+  // `group` (see HistoryContext) adds the change to it rather than as an entry of its own.
+  saveBudget: (budget: Budget, change?: BudgetChangeCause, group?: HistoryGroup) => Promise<void>;
+  addTrip: (trip: Trip, group?: HistoryGroup) => Promise<void>;
+  updateTrip: (id: string, updates: Partial<Trip>, group?: HistoryGroup) => Promise<void>;
+  deleteTrip: (id: string, group?: HistoryGroup) => Promise<void>;
+  addWishlistItem: (item: WishlistItem, group?: HistoryGroup) => Promise<void>;
+  updateWishlistItem: (id: string, updates: Partial<WishlistItem>, group?: HistoryGroup) => Promise<void>;
+  deleteWishlistItem: (id: string, group?: HistoryGroup) => Promise<void>;
+  addExpense: (expense: Expense, group?: HistoryGroup) => Promise<void>;
+  addExpenses: (expenses: Expense[], group?: HistoryGroup) => Promise<void>;
+  updateExpense: (id: string, updates: Partial<Expense>, group?: HistoryGroup) => Promise<void>;
+  deleteExpense: (id: string, group?: HistoryGroup) => Promise<void>;
+  addCategory: (category: ExpenseCategory, group?: HistoryGroup) => Promise<void>;
+  updateCategory: (id: string, updates: Partial<ExpenseCategory>, group?: HistoryGroup) => Promise<void>;
+  deleteCategory: (id: string, group?: HistoryGroup) => Promise<void>;
+  addRecurringExpense: (series: RecurringExpense, group?: HistoryGroup) => Promise<void>;
+  updateRecurringExpense: (id: string, updates: Partial<RecurringExpense>, group?: HistoryGroup) => Promise<void>;
+  deleteRecurringExpense: (id: string, group?: HistoryGroup) => Promise<void>;
+  addFunding: (funding: Funding, group?: HistoryGroup) => Promise<void>;
+  updateFunding: (id: string, updates: Partial<Funding>, group?: HistoryGroup) => Promise<void>;
+  deleteFunding: (id: string, group?: HistoryGroup) => Promise<void>;
+  addSavingsGoal: (goal: SavingsGoal, group?: HistoryGroup) => Promise<void>;
+  updateSavingsGoal: (id: string, updates: Partial<SavingsGoal>, group?: HistoryGroup) => Promise<void>;
+  deleteSavingsGoal: (id: string, group?: HistoryGroup) => Promise<void>;
+  saveExchangeRates: (rates: Omit<ExchangeRate, 'id'>[], group?: HistoryGroup) => Promise<void>;
+  deleteExchangeRate: (id: string, group?: HistoryGroup) => Promise<void>;
+  // Puts a trip, expense or wishlist item back from the trash (see Trash under Profile)
+  restoreFromTrash: (item: TrashItem, group?: HistoryGroup) => Promise<void>;
+  // Removes it for good, unlinking any savings goal for it. Undo puts it back in the trash.
+  deletePermanently: (item: TrashItem, group?: HistoryGroup) => Promise<void>;
+  // Import presets and scenarios are saved whole, under the id of any with the same name. They
+  // aren't part of the undo history.
+  saveCsvPreset: (preset: CsvImportPreset) => Promise<void>;
+  deleteCsvPreset: (id: string) => Promise<void>;
+  saveScenario: (scenario: BudgetScenario) => Promise<void>;
+  deleteScenario: (id: string) => Promise<void>;
+  // Weekly plans themselves stay with the calendar; these only make adding and removing events
+  // undoable, passing undone changes on like ones from another device
+  addWeeklyPlanEvent: (planId: string, event: Omit<WeeklyPlanEvent, 'id' | 'planId'>, group?: HistoryGroup) => Promise<WeeklyPlanEvent>;
+  deleteWeeklyPlanEvent: (event: WeeklyPlanEvent, group?: HistoryGroup) => Promise<void>;
+  // Weekly plans aren't kept here, so planned-event changes from other devices are passed on
+  // to whoever shows them. Returns an unsubscribe function.
+  subscribeToWeeklyPlanEvents: (listener: (change: WeeklyPlanEventChange) => void) => () => void;
+  // Data that's only needed on some screens, loaded when it's shown. These keep their identity
+  // between renders, so they can be effect dependencies.
+  getWeeklyPlan: (weekStart: string) => Promise<WeeklyPlan | null>;
+  createOrGetWeeklyPlan: (weekStart: string) => Promise<WeeklyPlan>;
+  getBudgetChanges: () => Promise<BudgetChange[]>;
+  getTrash: () => Promise<TrashItem[]>;
+  // Everything in the account as stored, for exports and restores
+  loadExportBundle: () => Promise<ExportBundle>;
+  // Writes a restore plan, then reloads everything - also when it fails part way. Not undoable.
+  applyRestore: (plan: RestorePlan, current: ExportBundle) => Promise<void>;
+  // Writes made offline that would be lost by signing out now
+  countUnsyncedWrites: () => number;
+  signOut: () => Promise<void>;
 }
 
 const DataContext = createContext<DataContextType | undefined>(undefined);
 
+// Lists are kept in the order storage returns them
+const byStartDate = (a: Trip, b: Trip) => a.startDate.localeCompare(b.startDate);
+const byDateDescending = (a: Expense, b: Expense) => b.date.localeCompare(a.date);
+const byName = <T extends { name: string }>(a: T, b: T) => a.name.localeCompare(b.name);
+const byStartDateSeries = (a: RecurringExpense, b: RecurringExpense) => a.startDate.localeCompare(b.startDate);
+const byExpectedDate = (a: Funding, b: Funding) => a.expectedDate.localeCompare(b.expectedDate);
+const byTargetDate = (a: SavingsGoal, b: SavingsGoal) => a.targetDate.localeCompare(b.targetDate);
+
+// Storage bumps a record's version on every update; mirror that so the next edit isn't a conflict
+const nextVersion = (version?: number) => (typeof version === 'number' ? version + 1 : undefined);
+
+const sameRateDay = (a: Omit<ExchangeRate, 'id'>, b: Omit<ExchangeRate, 'id'>) =>
+  a.baseCurrency === b.baseCurrency && a.quoteCurrency === b.quoteCurrency && a.date === b.date;
+
+// A pair has at most one rate per date, so incoming rates replace any for the same day
+const mergeRates = (current: ExchangeRate[], incoming: ExchangeRate[]) => [
+  ...current.filter(rate => !incoming.some(entry => sameRateDay(rate, entry))),
+  ...incoming,
+];
+
+const withoutId = (rate: ExchangeRate): Omit<ExchangeRate, 'id'> => {
+  const copy: Partial<ExchangeRate> = { ...rate };
+  delete copy.id;
+  return copy as Omit<ExchangeRate, 'id'>;
+};
+
+// Written back on undo and redo without a version, so they go through whatever has changed since
+const withoutVersion = <T extends { version?: number }>(record: T): T => ({ ...record, version: undefined });
+
+// The fields `updates` changed, as they were in `previous`. Storage reads an empty string as
+// "clear this", so text that was empty before is cleared that way.
+const restoreFields = <T extends object>(previous: T, updates: Partial<T>): Partial<T> => {
+  const restored: Partial<T> = {};
+  (Object.keys(updates) as (keyof T)[]).forEach(key => {
+    if (key === 'id' || key === 'version') return;
+    const value = previous[key];
+    restored[key] = (value === undefined && typeof updates[key] === 'string' ? '' : value) as T[keyof T];
+  });
+  return restored;
+};
+
+// Moving a record to the trash bumps its version like any other update
+const asTrashed = <T extends { version?: number }>(record: T): T => ({ ...record, version: nextVersion(record.version) });
+
+const trashName = (item: TrashItem) => item.kind === 'expense' ? item.record.description : item.record.name;
+
+// The field a savings goal links a trip or wishlist item by
+const goalLink = (kind: TrashKind): 'tripId' | 'wishlistItemId' | null =>
+  kind === 'trip' ? 'tripId' : kind === 'wishlistItem' ? 'wishlistItemId' : null;
+
+// The list actions DataContext hands out, which record what they did in the undo history
+interface UndoableListActions<T> {
+  add: (item: T, group?: HistoryGroup) => Promise<void>;
+  update: (id: string, updates: Partial<T>, group?: HistoryGroup) => Promise<void>;
+  remove: (id: string, group?: HistoryGroup) => Promise<void>;
+}
+
+interface ListActions<T> {
+  add: (item: T) => Promise<void>;
+  update: (id: string, updates: Partial<T>) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  // Lists whose deletes go to the trash: a delete is taken back by restoring from it, and an
+  // add by purging, since the id is still taken while the record sits in the trash
+  restore?: (item: T) => Promise<void>;
+  purge?: (id: string) => Promise<void>;
+}
+
 export function DataProvider({ children }: { children: ReactNode }) {
+  const storage = useStorage();
+  const history = useHistory();
+  const [user, setUser] = useState<StorageUser | null>(null);
   const [budget, setBudget] = useState<Budget | null>(null);
   const [trips, setTrips] = useState<Trip[]>([]);
   const [wishlist, setWishlist] = useState<WishlistItem[]>([]);
   const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpense[]>([]);
+  const [funding, setFunding] = useState<Funding[]>([]);
+  const [savingsGoals, setSavingsGoals] = useState<SavingsGoal[]>([]);
+  // Start from the local cache so conversions work before (or without) a network round-trip
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>(() => storage.rates.getCachedRates());
+  const [csvPresets, setCsvPresets] = useState<CsvImportPreset[]>([]);
+  const [scenarios, setScenarios] = useState<BudgetScenario[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [malformedRows, setMalformedRows] = useState<MalformedRow[]>([]);
   
   // Track if we've completed initial load - after this, never show loading again
   const initialLoadComplete = useRef(false);
 
+  // Live updates from other devices, for whoever is signed in
+  const liveUpdates = useRef<{ userId: string; unsubscribe: () => void } | null>(null);
+  const weeklyPlanEventListeners = useRef(new Set<(change: WeeklyPlanEventChange) => void>());
+
+  const notifyWeeklyPlanEvent = (change: WeeklyPlanEventChange) => {
+    weeklyPlanEventListeners.current.forEach(listener => listener(change));
+  };
+
+  // Patch just the record that changed rather than reloading everything
+  const applyChange = (change: StorageChange) => {
+    switch (change.kind) {
+      case 'budget':
+        setBudget(change.record);
+        break;
+      case 'trip':
+        setTrips(prev => patchById(prev, change.id, change.record, byStartDate));
+        break;
+      case 'wishlistItem':
+        setWishlist(prev => patchById(prev, change.id, change.record));
+        break;
+      case 'expense':
+        setExpenses(prev => patchById(prev, change.id, change.record, byDateDescending));
+        break;
+      case 'weeklyPlanEvent':
+        notifyWeeklyPlanEvent(change);
+        break;
+    }
+  };
+
+  const stopLiveUpdates = () => {
+    liveUpdates.current?.unsubscribe();
+    liveUpdates.current = null;
+  };
+
+  const startLiveUpdates = (userId: string) => {
+    if (!storage.subscribeToChanges || liveUpdates.current?.userId === userId) return;
+    stopLiveUpdates();
+    liveUpdates.current = { userId, unsubscribe: storage.subscribeToChanges(userId, applyChange) };
+  };
+
   const refreshData = async () => {
     // Only show loading spinner on initial load
     if (!initialLoadComplete.current) {
@@ -42,38 +263,79 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }, 10000);
     
     try {
-      // Use getSession() instead of getUser() - it's synchronous and uses cached data
-      // This prevents hanging when tab is in background
-      const { data: { session } } = await supabase.auth.getSession();
+      const user = await storage.auth.getUser();
+      setUser(user);
       
-      if (!session?.user) {
+      if (!user) {
+        stopLiveUpdates();
         setBudget(null);
         setTrips([]);
         setWishlist([]);
         setExpenses([]);
+        setCategories([]);
+        setRecurringExpenses([]);
+        setFunding([]);
+        setSavingsGoals([]);
+        setCsvPresets([]);
+        setScenarios([]);
+        setLoadError(null);
         clearTimeout(timeoutId);
         initialLoadComplete.current = true;
         setLoading(false);
         return;
       }
       
+      startLiveUpdates(user.id);
+
+      // Post recurring expenses that have come due before loading, so they show up in the list
+      try {
+        await storage.postDueRecurringExpenses();
+      } catch (error) {
+        console.error('Error posting recurring expenses:', error);
+      }
+
+      try {
+        await storage.purgeExpiredTrash();
+      } catch (error) {
+        console.error('Error emptying the trash:', error);
+      }
+
       // Fetch data
-      const [savedBudget, savedTrips, savedWishlist, savedExpenses] = await Promise.all([
+      const [
+        savedBudget, savedTrips, savedWishlist, savedExpenses, savedCategories, savedRecurring, savedFunding, savedGoals,
+        savedRates, savedPresets, savedScenarios,
+      ] = await Promise.all([
         storage.getBudget(),
         storage.getTrips(),
         storage.getWishlist(),
         storage.getExpenses(),
+        storage.getCategories(),
+        storage.getRecurringExpenses(),
+        storage.getFunding(),
+        storage.getSavingsGoals(),
+        storage.rates.getRates(),
+        storage.getCsvPresets(),
+        storage.getScenarios(),
       ]);
 
       if (savedBudget) {
         // Recalculate spent and planned amounts to ensure accuracy
-        const { spent: totalSpent, planned: totalPlanned } = await storage.calculateSpentAndPlanned();
+        const { spent: totalSpent, planned: totalPlanned } = calculateSpentAndPlanned(
+          savedBudget, savedTrips, savedExpenses, savedRecurring, savedRates
+        );
         
-        // Only update if the amounts have changed
-        if (savedBudget.spent !== totalSpent || savedBudget.plannedSpending !== totalPlanned) {
+        // Only update if the amounts have changed (both sides are integer cents, so this is exact)
+        if (compareCents(savedBudget.spent, totalSpent) !== 0 || compareCents(savedBudget.plannedSpending, totalPlanned) !== 0) {
           const updatedBudget = { ...savedBudget, spent: totalSpent, plannedSpending: totalPlanned };
-          await storage.saveBudget(updatedBudget);
-          setBudget(updatedBudget);
+          try {
+            await storage.saveBudget(updatedBudget);
+            // Read it back for the version the save gave it, so the next edit isn't seen as a conflict
+            setBudget(await storage.getBudget() || updatedBudget);
+          } catch (error) {
+            // Saved on another device in the meantime - its totals are recalculated on the next load
+            if (!(error instanceof StorageConflictError)) throw error;
+            setBudget(error.current as Budget | null);
+          }
         } else {
           setBudget(savedBudget);
         }
@@ -84,9 +346,18 @@ export function DataProvider({ children }: { children: ReactNode }) {
       setTrips(savedTrips);
       setWishlist(savedWishlist);
       setExpenses(savedExpenses);
-    } catch (error: any) {
+      setCategories(savedCategories);
+      setRecurringExpenses(savedRecurring);
+      setFunding(savedFunding);
+      setSavingsGoals(savedGoals);
+      setExchangeRates(savedRates);
+      setCsvPresets(savedPresets);
+      setScenarios(savedScenarios);
+      setLoadError(null);
+    } catch (error) {
       console.error('Error loading data:', error);
       // On error, preserve existing data - don't clear it
+      setLoadError(errorMessage(error));
     } finally {
       // Mark initial load as complete and hide loading
       clearTimeout(timeoutId);
@@ -95,58 +366,654 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // The listeners below stay subscribed for as long as the backend does, so they reload through
+  // whichever refreshData is current
+  const reload = useRef(refreshData);
+  reload.current = refreshData;
+
   useEffect(() => {
     // Load data when component mounts
-    refreshData();
+    reload.current();
 
     // Listen for auth state changes to reload data
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(async (event) => {
+    const unsubscribe = storage.auth.onAuthStateChange(async (event, sessionUser) => {
+      setUser(sessionUser);
       if (event === 'SIGNED_IN') {
-        await refreshData();
+        await reload.current();
       } else if (event === 'SIGNED_OUT') {
+        stopLiveUpdates();
         setBudget(null);
         setTrips([]);
         setWishlist([]);
         setExpenses([]);
+        setCategories([]);
+        setRecurringExpenses([]);
+        setFunding([]);
+        setSavingsGoals([]);
+        setExchangeRates([]);
+        setCsvPresets([]);
+        setScenarios([]);
+        setLoadError(null);
+        storage.rates.clearCache();
         setLoading(false);
         initialLoadComplete.current = false; // Reset for next sign in
       }
     });
 
+    const unsubscribeMalformed = storage.subscribeToMalformedRows?.(setMalformedRows);
+
+    // Once writes made offline have all reached the server, reload to pick up its copy
+    let pendingWrites = storage.sync?.getState().queue.length || 0;
+    const unsubscribeSync = storage.sync?.subscribe(({ queue }) => {
+      if (pendingWrites > 0 && queue.length === 0) reload.current();
+      pendingWrites = queue.length;
+    });
+
     return () => {
-      subscription.unsubscribe();
+      unsubscribe();
+      unsubscribeSync?.();
+      unsubscribeMalformed?.();
+      stopLiveUpdates();
     };
-  }, []);
+  }, [storage]);
 
-  const updateBudget = (newBudget: Budget | null) => {
-    setBudget(newBudget);
+  // Show a change to one record straight away, then save it. A failed save puts the record back
+  // as it was - or as the other device saved it, when that's why the save was rejected. The
+  // change is worked out from the list as it is by then, since undo can run several in a row.
+  const patchOptimistically = async <T extends { id: string }>(
+    setItems: Dispatch<SetStateAction<T[]>>,
+    id: string,
+    previous: T | null | undefined,    // undefined when it isn't known, so there's nothing to put back
+    change: (current: T | undefined) => T | null,
+    save: () => Promise<void>,
+    compare?: (a: T, b: T) => number
+  ) => {
+    setItems(items => patchById(items, id, change(items.find(item => item.id === id)), compare));
+    try {
+      await save();
+    } catch (error) {
+      if (error instanceof StorageConflictError) {
+        setItems(items => patchById(items, id, error.current as T | null, compare));
+      } else if (previous !== undefined) {
+        setItems(items => patchById(items, id, previous, compare));
+      }
+      throw error;
+    }
   };
 
-  const updateTrips = (newTrips: Trip[]) => {
-    setTrips(newTrips);
+  // Add, update and delete for one list held here
+  const listActions = <T extends { id: string; version?: number }>(
+    items: T[],
+    setItems: Dispatch<SetStateAction<T[]>>,
+    store: ListActions<T>,
+    compare?: (a: T, b: T) => number
+  ): ListActions<T> => ({
+    add: item =>
+      patchOptimistically(setItems, item.id, null, (): T => ({ ...item, version: 1 }), () => store.add(item), compare),
+    update: (id, updates) =>
+      patchOptimistically(
+        setItems,
+        id,
+        items.find(item => item.id === id),
+        current => current ? { ...current, ...updates, id, version: nextVersion(updates.version ?? current.version) } : null,
+        () => store.update(id, updates),
+        compare
+      ),
+    remove: id =>
+      patchOptimistically(setItems, id, items.find(item => item.id === id), () => null, () => store.remove(id), compare),
+  });
+
+  // `item` as it is in the trash
+  const trashActions = <T extends { id: string; version?: number }>(
+    kind: TrashKind,
+    items: T[],
+    setItems: Dispatch<SetStateAction<T[]>>,
+    compare?: (a: T, b: T) => number
+  ) => ({
+    restore: (item: T) =>
+      patchOptimistically(setItems, item.id, null, () => asTrashed(item), () => storage.restoreFromTrash(kind, item.id), compare),
+    purge: (id: string) =>
+      patchOptimistically(setItems, id, items.find(item => item.id === id), () => null, () => storage.deletePermanently(kind, id), compare),
+  });
+
+  const tripActions = listActions(trips, setTrips, {
+    add: trip => storage.addTrip(trip),
+    update: (id, updates) => storage.updateTrip(id, updates),
+    remove: id => storage.deleteTrip(id),
+  }, byStartDate);
+
+  const wishlistActions = listActions(wishlist, setWishlist, {
+    add: item => storage.addWishlistItem(item),
+    update: (id, updates) => storage.updateWishlistItem(id, updates),
+    remove: id => storage.deleteWishlistItem(id),
+  });
+
+  const expenseActions = listActions(expenses, setExpenses, {
+    add: expense => storage.addExpense(expense),
+    update: (id, updates) => storage.updateExpense(id, updates),
+    remove: id => storage.deleteExpense(id),
+  }, byDateDescending);
+
+  const categoryActions = listActions(categories, setCategories, {
+    add: category => storage.addCategory(category),
+    update: (id, updates) => storage.updateCategory(id, updates),
+    remove: id => storage.deleteCategory(id),
+  }, byName);
+
+  const recurringActions = listActions(recurringExpenses, setRecurringExpenses, {
+    add: series => storage.addRecurringExpense(series),
+    update: (id, updates) => storage.updateRecurringExpense(id, updates),
+    remove: id => storage.deleteRecurringExpense(id),
+  }, byStartDateSeries);
+
+  const fundingActions = listActions(funding, setFunding, {
+    add: item => storage.addFunding(item),
+    update: (id, updates) => storage.updateFunding(id, updates),
+    remove: id => storage.deleteFunding(id),
+  }, byExpectedDate);
+
+  const savingsGoalActions = listActions(savingsGoals, setSavingsGoals, {
+    add: goal => storage.addSavingsGoal(goal),
+    update: (id, updates) => storage.updateSavingsGoal(id, updates),
+    remove: id => storage.deleteSavingsGoal(id),
+  }, byTargetDate);
+
+  const saveBudget = async (newBudget: Budget, change?: BudgetChangeCause) => {
+    const previous = budget;
+    setBudget({ ...newBudget, version: previous ? nextVersion(newBudget.version ?? previous.version) : 1 });
+    try {
+      await storage.saveBudget(newBudget, change);
+    } catch (error) {
+      setBudget(error instanceof StorageConflictError ? error.current as Budget | null : previous);
+      throw error;
+    }
   };
 
-  const updateWishlist = (newWishlist: WishlistItem[]) => {
-    setWishlist(newWishlist);
+  // Import in one request; the whole batch is taken back out if it fails
+  const addExpenses = async (newExpenses: Expense[]) => {
+    if (newExpenses.length === 0) return;
+    const ids = new Set(newExpenses.map(expense => expense.id));
+    setExpenses(items => [...newExpenses.map(expense => ({ ...expense, version: 1 })), ...items].sort(byDateDescending));
+    try {
+      await storage.addExpenses(newExpenses);
+    } catch (error) {
+      setExpenses(items => items.filter(expense => !ids.has(expense.id)));
+      throw error;
+    }
   };
 
-  const updateExpenses = (newExpenses: Expense[]) => {
-    setExpenses(newExpenses);
+  // Deleting a category or series also unlinks its expenses, as the database does. That touches
+  // several lists, so a failure reloads everything rather than undoing each one.
+  const deleteAndUnlink = async (remove: () => Promise<void>) => {
+    try {
+      await remove();
+    } catch (error) {
+      await refreshData();
+      throw error;
+    }
   };
 
+  const deleteCategory = (id: string) => {
+    const uncategorise = <T extends { categoryId?: string; version?: number }>(items: T[]) =>
+      items.map(item => item.categoryId === id ? { ...item, categoryId: undefined, version: nextVersion(item.version) } : item);
+    setExpenses(uncategorise);
+    setRecurringExpenses(uncategorise);
+    return deleteAndUnlink(() => categoryActions.remove(id));
+  };
+
+  const deleteRecurringExpense = (id: string) => {
+    setExpenses(items => items.map(expense =>
+      expense.recurringExpenseId === id
+        ? { ...expense, recurringExpenseId: undefined, version: nextVersion(expense.version) }
+        : expense
+    ));
+    return deleteAndUnlink(() => recurringActions.remove(id));
+  };
+
+  // A new or edited series may already have occurrences due; post them like a reload would
+  const postDueRecurringExpenses = async () => {
+    try {
+      const posted = await storage.postDueRecurringExpenses();
+      if (posted === 0) return;
+      const [savedExpenses, savedRecurring] = await Promise.all([storage.getExpenses(), storage.getRecurringExpenses()]);
+      setExpenses(savedExpenses);
+      setRecurringExpenses(savedRecurring);
+    } catch (error) {
+      console.error('Error posting recurring expenses:', error);
+    }
+  };
+
+  const addRecurringExpense = async (series: RecurringExpense) => {
+    await recurringActions.add(series);
+    await postDueRecurringExpenses();
+  };
+
+  const updateRecurringExpense = async (id: string, updates: Partial<RecurringExpense>) => {
+    await recurringActions.update(id, updates);
+    await postDueRecurringExpenses();
+  };
+
+  const saveExchangeRates = async (newRates: Omit<ExchangeRate, 'id'>[]) => {
+    const previous = exchangeRates;
+    // Temporary ids until storage says which rates it added and which it replaced
+    setExchangeRates(current => mergeRates(current, newRates.map(rate => ({ ...rate, id: crypto.randomUUID() }))));
+    try {
+      const saved = await storage.rates.saveRates(newRates);
+      setExchangeRates(current => mergeRates(current, saved));
+    } catch (error) {
+      setExchangeRates(previous);
+      throw error;
+    }
+  };
+
+  const deleteExchangeRate = (id: string) =>
+    patchOptimistically(setExchangeRates, id, exchangeRates.find(rate => rate.id === id), () => null, () => storage.rates.deleteRate(id));
+
+  const saveCsvPreset = (preset: CsvImportPreset) =>
+    patchOptimistically(
+      setCsvPresets, preset.id, csvPresets.find(item => item.id === preset.id) ?? null, () => preset, () => storage.saveCsvPreset(preset), byName
+    );
+
+  const deleteCsvPreset = (id: string) =>
+    patchOptimistically(setCsvPresets, id, csvPresets.find(item => item.id === id), () => null, () => storage.deleteCsvPreset(id), byName);
+
+  const saveScenario = (scenario: BudgetScenario) =>
+    patchOptimistically(
+      setScenarios, scenario.id, scenarios.find(item => item.id === scenario.id) ?? null, () => scenario, () => storage.saveScenario(scenario), byName
+    );
+
+  const deleteScenario = (id: string) =>
+    patchOptimistically(setScenarios, id, scenarios.find(item => item.id === id), () => null, () => storage.deleteScenario(id), byName);
+
+  // Deleting a trip or wishlist item for good unlinks its savings goals, as storage does
+  const purgeFromTrash = async (item: TrashItem) => {
+    await storage.deletePermanently(item.kind, item.record.id);
+    const field = goalLink(item.kind);
+    if (!field) return;
+    setSavingsGoals(goals => goals.map(goal =>
+      goal[field] === item.record.id ? { ...goal, [field]: undefined, version: nextVersion(goal.version) } : goal
+    ));
+  };
+
+  const mutations = {
+    saveBudget,
+    trips: { ...tripActions, ...trashActions('trip', trips, setTrips, byStartDate) },
+    wishlist: { ...wishlistActions, ...trashActions('wishlistItem', wishlist, setWishlist) },
+    expenses: { ...expenseActions, ...trashActions('expense', expenses, setExpenses, byDateDescending) },
+    addExpenses,
+    categories: { ...categoryActions, remove: deleteCategory },
+    recurring: { add: addRecurringExpense, update: updateRecurringExpense, remove: deleteRecurringExpense },
+    funding: fundingActions,
+    savingsGoals: savingsGoalActions,
+    saveExchangeRates,
+    deleteExchangeRate,
+    purgeFromTrash,
+  };
+
+  // Undo and redo can run long after the change, so they go through the latest actions and
+  // lists rather than the ones captured when it was recorded. They aren't recorded themselves.
+  const latest = useRef({ mutations, expenses, exchangeRates });
+  latest.current = { mutations, expenses, exchangeRates };
+
+  // The same actions, adding what they did to the undo history once it's saved
+  const undoableList = <T extends { id: string; version?: number }>(
+    noun: string,
+    describe: (item: T) => string,
+    items: T[],
+    pick: (all: typeof mutations) => ListActions<T>
+  ): UndoableListActions<T> => {
+    const current = () => pick(latest.current.mutations);
+    return {
+      add: async (item, group) => {
+        await pick(mutations).add(item);
+        history.record({
+          label: `Added ${noun} "${describe(item)}"`,
+          undo: () => {
+            const actions = current();
+            return actions.purge ? actions.purge(item.id) : actions.remove(item.id);
+          },
+          redo: () => current().add(withoutVersion(item)),
+        }, group);
+      },
+      update: async (id, updates, group) => {
+        const previous = items.find(item => item.id === id);
+        await pick(mutations).update(id, updates);
+        if (!previous) return;
+        const restored = restoreFields(previous, updates);
+        history.record({
+          label: `Edited ${noun} "${describe({ ...previous, ...updates })}"`,
+          undo: () => current().update(id, restored),
+          redo: () => current().update(id, withoutVersion(updates)),
+        }, group);
+      },
+      remove: async (id, group) => {
+        const previous = items.find(item => item.id === id);
+        await pick(mutations).remove(id);
+        if (!previous) return;
+        history.record({
+          label: `Deleted ${noun} "${describe(previous)}"`,
+          undo: () => {
+            const actions = current();
+            return actions.restore ? actions.restore(asTrashed(previous)) : actions.add(withoutVersion(previous));
+          },
+          redo: () => current().remove(id),
+        }, group);
+      },
+    };
+  };
+
+  const undoableTrips = undoableList('trip', (trip: Trip) => trip.name, trips, all => all.trips);
+  const undoableWishlist = undoableList('wishlist item', (item: WishlistItem) => item.name, wishlist, all => all.wishlist);
+  const undoableExpenses = undoableList('expense', (expense: Expense) => expense.description, expenses, all => all.expenses);
+  const undoableCategories = undoableList('category', (category: ExpenseCategory) => category.name, categories, all => all.categories);
+  const undoableRecurring = undoableList(
+    'recurring expense', (series: RecurringExpense) => series.description, recurringExpenses, all => all.recurring
+  );
+  const undoableFunding = undoableList('funding', (item: Funding) => item.name, funding, all => all.funding);
+  const undoableSavingsGoals = undoableList(
+    'savings goal', (goal: SavingsGoal) => goal.name, savingsGoals, all => all.savingsGoals
+  );
+
+  // New accounts start with a default set of categories. They're added once, when the budget is
+  // set up, so someone who deletes them all doesn't get them back on the next load.
+  const seedDefaultCategories = async () => {
+    if (categories.length > 0) return;
+    try {
+      await storage.addDefaultCategories(DEFAULT_CATEGORIES.map(category => ({ ...category, id: crypto.randomUUID() })));
+      setCategories(await storage.getCategories());
+    } catch (error) {
+      // The budget is saved either way; categories can still be added by hand
+      console.error('Error adding default categories:', error);
+    }
+  };
+
+  const saveBudgetUndoably = async (newBudget: Budget, change?: BudgetChangeCause, group?: HistoryGroup) => {
+    const previous = budget;
+    await saveBudget(newBudget, change);
+    // There's no removing a budget, so setting up the first one can't be undone
+    if (!previous) {
+      await seedDefaultCategories();
+      return;
+    }
+    history.record({
+      label: 'Edited budget',
+      undo: () => latest.current.mutations.saveBudget(withoutVersion(previous), { reason: 'undo' }),
+      redo: () => latest.current.mutations.saveBudget(withoutVersion(newBudget), { reason: 'redo', note: change?.note }),
+    }, group);
+  };
+
+  const addExpensesUndoably = async (newExpenses: Expense[], group?: HistoryGroup) => {
+    await addExpenses(newExpenses);
+    if (newExpenses.length === 0) return;
+    history.record({
+      label: `Imported ${newExpenses.length} expense${newExpenses.length === 1 ? '' : 's'}`,
+      undo: async () => {
+        for (const expense of newExpenses) await latest.current.mutations.expenses.purge(expense.id);
+      },
+      redo: () => latest.current.mutations.addExpenses(newExpenses.map(withoutVersion)),
+    }, group);
+  };
+
+  // Undoing a category or series delete also links its expenses back to it
+  const deleteCategoryUndoably = async (id: string, group?: HistoryGroup) => {
+    const category = categories.find(item => item.id === id);
+    const expenseIds = expenses.filter(expense => expense.categoryId === id).map(expense => expense.id);
+    const seriesIds = recurringExpenses.filter(series => series.categoryId === id).map(series => series.id);
+    await deleteCategory(id);
+    if (!category) return;
+    history.record({
+      label: `Deleted category "${category.name}"`,
+      undo: async () => {
+        const { mutations: current } = latest.current;
+        await current.categories.add(withoutVersion(category));
+        for (const expenseId of expenseIds) await current.expenses.update(expenseId, { categoryId: id });
+        for (const seriesId of seriesIds) await current.recurring.update(seriesId, { categoryId: id });
+      },
+      redo: () => latest.current.mutations.categories.remove(id),
+    }, group);
+  };
+
+  const deleteRecurringExpenseUndoably = async (id: string, group?: HistoryGroup) => {
+    const series = recurringExpenses.find(item => item.id === id);
+    const expenseIds = expenses.filter(expense => expense.recurringExpenseId === id).map(expense => expense.id);
+    await deleteRecurringExpense(id);
+    if (!series) return;
+    history.record({
+      label: `Deleted recurring expense "${series.description}"`,
+      undo: async () => {
+        const { mutations: current } = latest.current;
+        // Comes back with its last posted date, so nothing is posted twice
+        await current.recurring.add(withoutVersion(series));
+        for (const expenseId of expenseIds) await current.expenses.update(expenseId, { recurringExpenseId: id });
+      },
+      redo: () => latest.current.mutations.recurring.remove(id),
+    }, group);
+  };
+
+  // Undoing a new series also takes back whatever it posted straight away
+  const addRecurringExpenseUndoably = async (series: RecurringExpense, group?: HistoryGroup) => {
+    await addRecurringExpense(series);
+    history.record({
+      label: `Added recurring expense "${series.description}"`,
+      undo: async () => {
+        const { mutations: current, expenses: currentExpenses } = latest.current;
+        const posted = currentExpenses.filter(expense => expense.recurringExpenseId === series.id);
+        for (const expense of posted) await current.expenses.purge(expense.id);
+        await current.recurring.remove(series.id);
+      },
+      redo: () => latest.current.mutations.recurring.add(withoutVersion(series)),
+    }, group);
+  };
+
+  const listForTrash = (all: typeof mutations, item: TrashItem) => {
+    switch (item.kind) {
+      case 'trip':
+        return { restore: () => all.trips.restore(item.record), remove: () => all.trips.remove(item.record.id) };
+      case 'expense':
+        return { restore: () => all.expenses.restore(item.record), remove: () => all.expenses.remove(item.record.id) };
+      case 'wishlistItem':
+        return { restore: () => all.wishlist.restore(item.record), remove: () => all.wishlist.remove(item.record.id) };
+    }
+  };
+
+  const restoreFromTrash = async (item: TrashItem, group?: HistoryGroup) => {
+    await listForTrash(mutations, item).restore();
+    // Deleted again by undo, it's back in the trash two versions on
+    const trashedAgain = { ...item, record: asTrashed(asTrashed(item.record)) } as TrashItem;
+    history.record({
+      label: `Restored "${trashName(item)}" from the trash`,
+      undo: () => listForTrash(latest.current.mutations, item).remove(),
+      redo: () => listForTrash(latest.current.mutations, trashedAgain).restore(),
+    }, group);
+  };
+
+  // Added back and deleted again, the record returns to the trash; its goals are linked again
+  const returnToTrash = async (item: TrashItem, goalIds: string[]) => {
+    const { mutations: current } = latest.current;
+    const { id } = item.record;
+    switch (item.kind) {
+      case 'trip':
+        await current.trips.add(withoutVersion(item.record));
+        await current.trips.remove(id);
+        break;
+      case 'expense':
+        await current.expenses.add(withoutVersion(item.record));
+        await current.expenses.remove(id);
+        break;
+      case 'wishlistItem':
+        await current.wishlist.add(withoutVersion(item.record));
+        await current.wishlist.remove(id);
+        break;
+    }
+    const field = goalLink(item.kind);
+    if (!field) return;
+    for (const goalId of goalIds) await current.savingsGoals.update(goalId, { [field]: id });
+  };
+
+  const deletePermanently = async (item: TrashItem, group?: HistoryGroup) => {
+    const field = goalLink(item.kind);
+    const goalIds = field ? savingsGoals.filter(goal => goal[field] === item.record.id).map(goal => goal.id) : [];
+    await purgeFromTrash(item);
+    history.record({
+      label: `Deleted "${trashName(item)}" for good`,
+      undo: () => returnToTrash(item, goalIds),
+      redo: () => latest.current.mutations.purgeFromTrash(item),
+    }, group);
+  };
+
+  const describeRates = (rates: Omit<ExchangeRate, 'id'>[]) =>
+    rates.length === 1 ? `${rates[0].baseCurrency}/${rates[0].quoteCurrency} rate` : `${rates.length} exchange rates`;
+
+  const saveExchangeRatesUndoably = async (newRates: Omit<ExchangeRate, 'id'>[], group?: HistoryGroup) => {
+    const replaced = exchangeRates.filter(rate => newRates.some(entry => sameRateDay(rate, entry))).map(withoutId);
+    await saveExchangeRates(newRates);
+    history.record({
+      label: `Saved ${describeRates(newRates)}`,
+      undo: async () => {
+        const { mutations: current, exchangeRates: currentRates } = latest.current;
+        // Rates for days that had none before go; the ones they replaced come back
+        const added = currentRates.filter(rate =>
+          newRates.some(entry => sameRateDay(rate, entry)) && !replaced.some(entry => sameRateDay(rate, entry))
+        );
+        for (const rate of added) await current.deleteExchangeRate(rate.id);
+        if (replaced.length > 0) await current.saveExchangeRates(replaced);
+      },
+      redo: () => latest.current.mutations.saveExchangeRates(newRates),
+    }, group);
+  };
+
+  const deleteExchangeRateUndoably = async (id: string, group?: HistoryGroup) => {
+    const rate = exchangeRates.find(item => item.id === id);
+    await deleteExchangeRate(id);
+    if (!rate) return;
+    history.record({
+      label: `Deleted ${describeRates([rate])}`,
+      undo: () => latest.current.mutations.saveExchangeRates([withoutId(rate)]),
+      // Saved again under a new id, so find it by its pair and date
+      redo: async () => {
+        const { mutations: current, exchangeRates: currentRates } = latest.current;
+        const saved = currentRates.find(item => sameRateDay(item, rate));
+        if (saved) await current.deleteExchangeRate(saved.id);
+      },
+    }, group);
+  };
+
+  const restoreWeeklyPlanEvent = async (event: WeeklyPlanEvent) => {
+    const { id, planId, dayOfWeek, eventName, amount } = event;
+    const record = await storage.addWeeklyPlanEvent(planId, { dayOfWeek, eventName, amount }, id);
+    notifyWeeklyPlanEvent({ kind: 'weeklyPlanEvent', id, record });
+  };
+
+  const removeWeeklyPlanEvent = async (id: string) => {
+    await storage.deleteWeeklyPlanEvent(id);
+    notifyWeeklyPlanEvent({ kind: 'weeklyPlanEvent', id, record: null });
+  };
+
+  const addWeeklyPlanEvent = async (planId: string, event: Omit<WeeklyPlanEvent, 'id' | 'planId'>, group?: HistoryGroup) => {
+    const added = await storage.addWeeklyPlanEvent(planId, event);
+    history.record({
+      label: `Planned "${added.eventName}"`,
+      undo: () => removeWeeklyPlanEvent(added.id),
+      redo: () => restoreWeeklyPlanEvent(added),
+    }, group);
+    return added;
+  };
+
+  const deleteWeeklyPlanEvent = async (event: WeeklyPlanEvent, group?: HistoryGroup) => {
+    await storage.deleteWeeklyPlanEvent(event.id);
+    history.record({
+      label: `Removed "${event.eventName}" from the plan`,
+      undo: () => restoreWeeklyPlanEvent(event),
+      redo: () => removeWeeklyPlanEvent(event.id),
+    }, group);
+  };
+
+  const subscribeToWeeklyPlanEvents = (listener: (change: WeeklyPlanEventChange) => void) => {
+    weeklyPlanEventListeners.current.add(listener);
+    return () => {
+      weeklyPlanEventListeners.current.delete(listener);
+    };
+  };
+
+  const getWeeklyPlan = useCallback((weekStart: string) => storage.getWeeklyPlan(weekStart), [storage]);
+  const getBudgetChanges = useCallback(() => storage.getBudgetChanges(), [storage]);
+  const getTrash = useCallback(() => storage.getTrash(), [storage]);
+  const loadExportBundle = useCallback(() => loadBundleFrom(storage), [storage]);
+
+  const applyRestore = async (plan: RestorePlan, current: ExportBundle) => {
+    try {
+      await applyRestorePlan(plan, current, storage);
+    } finally {
+      await refreshData();
+    }
+  };
+
+  // Totals follow the lists in memory, so they're right straight after a change. The stored
+  // copy is brought up to date on the next load.
+  const totals = calculateSpentAndPlanned(budget, trips, expenses, recurringExpenses, exchangeRates);
+  const budgetWithTotals = budget && { ...budget, spent: totals.spent, plannedSpending: totals.planned };
+
   return (
     <DataContext.Provider
       value={{
-        budget,
+        user,
+        budget: budgetWithTotals,
         trips,
         wishlist,
         expenses,
+        categories,
+        recurringExpenses,
+        funding,
+        savingsGoals,
+        exchangeRates,
+        csvPresets,
+        scenarios,
         loading,
         refreshData,
-        updateBudget,
-        updateTrips,
-        updateWishlist,
-        updateExpenses,
+        loadError,
+        malformedRows,
+        saveBudget: saveBudgetUndoably,
+        addTrip: undoableTrips.add,
+        updateTrip: undoableTrips.update,
+        deleteTrip: undoableTrips.remove,
+        addWishlistItem: undoableWishlist.add,
+        updateWishlistItem: undoableWishlist.update,
+        deleteWishlistItem: undoableWishlist.remove,
+        addExpense: undoableExpenses.add,
+        addExpenses: addExpensesUndoably,
+        updateExpense: undoableExpenses.update,
+        deleteExpense: undoableExpenses.remove,
+        addCategory: undoableCategories.add,
+        updateCategory: undoableCategories.update,
+        deleteCategory: deleteCategoryUndoably,
+        addRecurringExpense: addRecurringExpenseUndoably,
+        updateRecurringExpense: undoableRecurring.update,
+        deleteRecurringExpense: deleteRecurringExpenseUndoably,
+        addFunding: undoableFunding.add,
+        updateFunding: undoableFunding.update,
+        deleteFunding: undoableFunding.remove,
+        addSavingsGoal: undoableSavingsGoals.add,
+        updateSavingsGoal: undoableSavingsGoals.update,
+        deleteSavingsGoal: undoableSavingsGoals.remove,
+        saveExchangeRates: saveExchangeRatesUndoably,
+        deleteExchangeRate: deleteExchangeRateUndoably,
+        restoreFromTrash,
+        deletePermanently,
+        saveCsvPreset,
+        deleteCsvPreset,
+        saveScenario,
+        deleteScenario,
+        addWeeklyPlanEvent,
+        deleteWeeklyPlanEvent,
+        subscribeToWeeklyPlanEvents,
+        getWeeklyPlan,
+        createOrGetWeeklyPlan: weekStart => storage.createOrGetWeeklyPlan(weekStart),
+        getBudgetChanges,
+        getTrash,
+        loadExportBundle,
+        applyRestore,
+        countUnsyncedWrites: () => storage.sync?.getState().queue.length || 0,
+        signOut: () => storage.auth.signOut(),
       }}
     >
       {children}
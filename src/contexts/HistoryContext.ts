@@ -0,0 +1,46 @@
+import { createContext, useContext } from 'react';
+
+// One thing the user did, with how to take it back and do it again. Both go through storage,
+// so undoing also reverts the saved copy.
+export interface HistoryEntry {
+  label: string;                   // e.g. 'Deleted expense "Coffee"'
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+// Entries being collected by `group`, passed along explicitly so that something recorded
+// elsewhere in the meantime doesn't end up in it
+export interface HistoryGroup {
+  entries: HistoryEntry[];
+}
+
+// The last thing done, undone or redone, for the snackbar
+export interface HistoryNotice {
+  id: number;
+  label: string;
+  undone: boolean;
+}
+
+interface HistoryContextType {
+  // Adds to `group` when given, instead of as an entry of its own
+  record: (entry: HistoryEntry, group?: HistoryGroup) => void;
+  // Runs `action` and keeps everything it records into the group it's given as a single entry,
+  // so e.g. a balance update (an expense and a budget change) is undone in one go
+  group: <T>(label: string, action: (group: HistoryGroup) => Promise<T>) => Promise<T>;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  canUndo: boolean;
+  canRedo: boolean;
+  notice: HistoryNotice | null;
+  dismissNotice: () => void;
+}
+
+export const HistoryContext = createContext<HistoryContextType | undefined>(undefined);
+
+export function useHistory() {
+  const context = useContext(HistoryContext);
+  if (context === undefined) {
+    throw new Error('useHistory must be used within a HistoryProvider');
+  }
+  return context;
+}
@@ -0,0 +1,89 @@
+import { useState, useRef, ReactNode } from 'react';
+import { HistoryContext, HistoryEntry, HistoryGroup, HistoryNotice } from './HistoryContext';
+import { errorMessage } from '../utils/errors';
+
+// Older entries are dropped beyond this
+const MAX_ENTRIES = 50;
+// How long the snackbar stays up
+const NOTICE_MS = 6000;
+
+export function HistoryProvider({ children }: { children: ReactNode }) {
+  const [past, setPast] = useState<HistoryEntry[]>([]);
+  const [future, setFuture] = useState<HistoryEntry[]>([]);
+  const [notice, setNotice] = useState<HistoryNotice | null>(null);
+  const busy = useRef(false);
+  const noticeCount = useRef(0);
+  const noticeTimeout = useRef<ReturnType<typeof setTimeout>>();
+
+  const showNotice = (label: string, undone: boolean) => {
+    noticeCount.current += 1;
+    setNotice({ id: noticeCount.current, label, undone });
+    clearTimeout(noticeTimeout.current);
+    noticeTimeout.current = setTimeout(() => setNotice(null), NOTICE_MS);
+  };
+
+  const record = (entry: HistoryEntry, group?: HistoryGroup) => {
+    if (group) {
+      group.entries.push(entry);
+      return;
+    }
+    setPast(prev => [...prev, entry].slice(-MAX_ENTRIES));
+    setFuture([]);
+    showNotice(entry.label, false);
+  };
+
+  const group = async <T,>(label: string, action: (group: HistoryGroup) => Promise<T>): Promise<T> => {
+    const entries: HistoryEntry[] = [];
+    try {
+      return await action({ entries });
+    } finally {
+      // Whatever was saved before a failure can still be undone
+      if (entries.length > 0) {
+        record({
+          label,
+          undo: async () => {
+            for (const entry of [...entries].reverse()) await entry.undo();
+          },
+          redo: async () => {
+            for (const entry of entries) await entry.redo();
+          },
+        });
+      }
+    }
+  };
+
+  // Undo and redo run one at a time, so a held-down shortcut can't skip past a failure
+  const step = async (from: HistoryEntry[], undone: boolean) => {
+    const entry = from[from.length - 1];
+    if (!entry || busy.current) return;
+
+    busy.current = true;
+    try {
+      await (undone ? entry.undo() : entry.redo());
+      (undone ? setPast : setFuture)(prev => prev.slice(0, -1));
+      (undone ? setFuture : setPast)(prev => [...prev, entry]);
+      showNotice(entry.label, undone);
+    } catch (error) {
+      alert(`Error ${undone ? 'undoing' : 'redoing'} "${entry.label}": ` + errorMessage(error));
+    } finally {
+      busy.current = false;
+    }
+  };
+
+  return (
+    <HistoryContext.Provider
+      value={{
+        record,
+        group,
+        undo: () => step(past, true),
+        redo: () => step(future, false),
+        canUndo: past.length > 0,
+        canRedo: future.length > 0,
+        notice,
+        dismissNotice: () => setNotice(null),
+      }}
+    >
+      {children}
+    </HistoryContext.Provider>
+  );
+}
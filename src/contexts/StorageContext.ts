@@ -0,0 +1,12 @@
+import { createContext, useContext } from 'react';
+import { StorageBackend } from '../utils/storageBackend';
+
+export const StorageContext = createContext<StorageBackend | undefined>(undefined);
+
+export function useStorage() {
+  const context = useContext(StorageContext);
+  if (context === undefined) {
+    throw new Error('useStorage must be used within a StorageProvider');
+  }
+  return context;
+}
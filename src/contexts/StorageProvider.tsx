@@ -0,0 +1,8 @@
+import { ReactNode } from 'react';
+import { StorageBackend } from '../utils/storageBackend';
+import { StorageContext } from './StorageContext';
+
+// Provides the storage backend chosen at startup (or an in-memory one in tests)
+export function StorageProvider({ backend, children }: { backend: StorageBackend; children: ReactNode }) {
+  return <StorageContext.Provider value={backend}>{children}</StorageContext.Provider>;
+}
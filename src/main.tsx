@@ -1,10 +1,29 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
+import StartupError from './components/StartupError'
+import { StorageProvider } from './contexts/StorageProvider'
+import { errorMessage } from './utils/errors'
+import { createStorageBackend } from './utils/storageBackend'
 import './index.css'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-)
+const root = ReactDOM.createRoot(document.getElementById('root')!)
+
+createStorageBackend()
+  .then((backend) => {
+    root.render(
+      <React.StrictMode>
+        <StorageProvider backend={backend}>
+          <App />
+        </StorageProvider>
+      </React.StrictMode>,
+    )
+  })
+  .catch((error) => {
+    console.error('Error starting storage backend:', error)
+    root.render(
+      <React.StrictMode>
+        <StartupError message={errorMessage(error)} />
+      </React.StrictMode>,
+    )
+  })
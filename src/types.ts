@@ -1,54 +1,180 @@
 export type BudgetMode = 'total' | 'remaining' | 'tracking';
 
+// What happens to a week's leftover money or overspend in the weeks after it
+export type RolloverPolicy =
+  | 'none'            // Every week starts afresh
+  | 'surplus'         // Unspent money carries forward
+  | 'deficit'         // Overspend is taken off the following weeks
+  | 'both';
+
+// ISO 4217 currency code, e.g. 'USD', 'EUR'
+export type CurrencyCode = string;
+
+// Money amount as an integer number of cents (minor units) - see utils/money.ts
+export type Cents = number;
+
 export interface Trip {
   id: string;
   name: string;
   destination: string;
   startDate: string;
   endDate: string;
-  prepaidCost: number;      // Already paid/spent on this trip
-  plannedCost: number;      // Still plan to spend on this trip
-  // Legacy fields for backward compatibility
-  estimatedCost?: number;
-  actualCost?: number;
+  prepaidCost: Cents;       // Already paid/spent on this trip
+  plannedCost: Cents;       // Still plan to spend on this trip
+  currency: CurrencyCode;   // Currency of prepaidCost and plannedCost
   notes?: string;
+  version?: number;         // Row version, bumped on every server-side update - see StorageConflictError
 }
 
 export interface WishlistItem {
   id: string;
   name: string;
   location: string;
-  estimatedCost: number;
+  estimatedCost: Cents;
+  currency: CurrencyCode;
   priority: 'high' | 'medium' | 'low';
   notes?: string;
+  version?: number;
 }
 
 export interface Budget {
   budgetMode: BudgetMode;
-  // For 'total' mode: the total budget for the semester
-  // For 'remaining' mode: the initial remaining amount when user started tracking
+  // For 'total' mode: starting funds for the semester (income is tracked as Funding on top)
+  // For 'remaining' mode: the current balance on hand (received funding is added to it)
   // For 'tracking' mode: optional target/goal (0 if not set)
-  semesterBudget: number;
+  semesterBudget: Cents;
   startDate: string;
   endDate: string;
-  spent: number;            // Total actually spent (prepaid trips + expenses)
-  plannedSpending: number;  // Total planned but not yet spent
+  // All budget amounts and totals are in the home currency
+  homeCurrency: CurrencyCode;
+  spent: Cents;             // Total actually spent (prepaid trips + expenses)
+  plannedSpending: Cents;   // Total planned but not yet spent
+  rolloverPolicy?: RolloverPolicy;  // 'none' when unset
+  rolloverCap?: Cents;      // Most that's carried from one week to the next, either way; no limit when unset
+  version?: number;
 }
 
+// The parts of a budget the user sets; spent/plannedSpending are derived and never logged
+export type BudgetSettings = Pick<
+  Budget,
+  'budgetMode' | 'semesterBudget' | 'startDate' | 'endDate' | 'homeCurrency' | 'rolloverPolicy' | 'rolloverCap'
+>;
+
+export type BudgetChangeReason =
+  | 'setup'           // First budget saved
+  | 'edit'            // Budget settings form
+  | 'balance_update'  // "Update balance" on the dashboard
+  | 'expense'         // Balance reduced by an expense
+  | 'funding'         // Balance moved by received funding
+  | 'undo'
+  | 'redo'
+  | 'restore';        // Backup restore
+
+// Why a budget is being saved; passed along with saveBudget and kept in the audit log
+export interface BudgetChangeCause {
+  reason: BudgetChangeReason;
+  note?: string;
+}
+
+// One entry of the budget audit log. `before` is null for the first budget.
+export interface BudgetChange extends BudgetChangeCause {
+  id: string;
+  changedAt: string;        // ISO timestamp
+  before: BudgetSettings | null;
+  after: BudgetSettings;
+}
+
+// One unit of baseCurrency is worth `rate` units of quoteCurrency on `date`
+export interface ExchangeRate {
+  id: string;
+  baseCurrency: CurrencyCode;
+  quoteCurrency: CurrencyCode;
+  rate: number;
+  date: string;
+  source: 'manual' | 'import';
+}
+
+export type FundingKind = 'scholarship' | 'family' | 'job' | 'other';
+
+// Money coming in: a scholarship disbursement, a parental transfer, a paycheck.
+// Counts towards the budget from expectedDate; receivedDate is set once it has arrived.
+export interface Funding {
+  id: string;
+  name: string;
+  kind: FundingKind;
+  amount: Cents;
+  currency: CurrencyCode;
+  expectedDate: string;
+  receivedDate?: string;
+  notes?: string;
+  version?: number;
+}
+
+// Money put aside week by week for a trip or wishlist item, so its cost doesn't land on a single
+// week's budget - see calculateGoalProgress
+export interface SavingsGoal {
+  id: string;
+  name: string;
+  tripId?: string;          // What it's saving for; neither once that has been deleted for good
+  wishlistItemId?: string;
+  target: Cents;            // In the budget's home currency
+  saved: Cents;             // Put aside so far, in the home currency
+  startDate: string;        // When saving began, for judging whether it's on track
+  targetDate: string;
+  version?: number;
+}
+
+// One week of the budget period - see calculateWeeklyBudgets
 export interface WeeklyBudget {
-  week: string;
-  budget: number;
-  spent: number;
-  remaining: number;
+  week: string;             // Monday of the week
+  budget: Cents;            // Share of the available funds for the days of the period in this week
+  carriedOver: Cents;       // Brought forward from the weeks before (negative for overspend) - see RolloverPolicy
+  allowance: Cents;         // budget + carriedOver
+  spent: Cents;             // Expenses plus the prepaid share of trip days in this week
+  planned: Cents;           // Planned share of trip days in this week
+  remaining: Cents;         // allowance - spent - planned
 }
 
 export interface Expense {
   id: string;
   description: string;
-  amount: number;
+  amount: Cents;
+  currency: CurrencyCode;
   date: string;
-  category?: string;
+  categoryId?: string;
+  recurringExpenseId?: string; // Set when the expense was posted from a recurring series
+  notes?: string;
+  version?: number;
+}
+
+export type RecurrenceCadence = 'weekly' | 'monthly' | 'yearly';
+
+// A repeating expense (rent, phone plan, transit pass). Each due date is posted as a normal
+// Expense; lastPostedDate is the latest occurrence already posted, so edits never touch history.
+export interface RecurringExpense {
+  id: string;
+  description: string;
+  amount: Cents;
+  currency: CurrencyCode;
+  categoryId?: string;
+  cadence: RecurrenceCadence;
+  startDate: string;        // First occurrence
+  endDate?: string;         // Last possible occurrence, open-ended when unset
+  lastPostedDate?: string;
   notes?: string;
+  version?: number;
+}
+
+export type CategoryCapPeriod = 'monthly' | 'semester';
+
+export interface ExpenseCategory {
+  id: string;
+  name: string;
+  color: string;            // Hex colour, e.g. '#22c55e'
+  icon: string;             // Key into CATEGORY_ICONS
+  cap?: Cents;              // Optional spending cap in the home currency
+  capPeriod: CategoryCapPeriod;
+  version?: number;
 }
 
 export interface WeeklyPlanEvent {
@@ -56,7 +182,8 @@ export interface WeeklyPlanEvent {
   planId: string;
   dayOfWeek: number; // 0 = Monday, 6 = Sunday
   eventName: string;
-  amount: number;
+  amount: Cents; // In the budget's home currency
+  version?: number;
 }
 
 export interface WeeklyPlan {
@@ -64,3 +191,19 @@ export interface WeeklyPlan {
   weekStart: string; // ISO date string for the Monday of the week
   events: WeeklyPlanEvent[];
 }
+
+// One planned trip or wishlist item in a what-if scenario: counted or not, and at what cost
+export interface ScenarioChoice {
+  kind: 'trip' | 'wishlistItem';
+  itemId: string;
+  included: boolean;
+  cost?: Cents;             // In the item's own currency; its planned/estimated cost when unset
+}
+
+// A saved what-if plan. Trips it has no choice for count at their planned cost, wishlist items
+// without one aren't counted. Scenarios never change the real trips or wishlist.
+export interface BudgetScenario {
+  id: string;
+  name: string;
+  choices: ScenarioChoice[];
+}
@@ -0,0 +1,326 @@
+import { describe, expect, it } from 'vitest';
+import { parseISO } from 'date-fns';
+import { Budget, Expense, Funding, RecurringExpense, SavingsGoal, Trip } from '../types';
+import {
+  calculateAvailableFunds,
+  calculateBalanceForecast,
+  calculateGoalAdjustment,
+  calculateGoalProgress,
+  calculateGoalSetAside,
+  calculateWeeklyBudgets,
+  overlapDays,
+  prorate,
+} from './budgetCalculations';
+
+// 21 days from a Wednesday to a Tuesday: 5 days in the first week, 7, 7, then 2 in the last
+const makeBudget = (overrides: Partial<Budget> = {}): Budget => ({
+  budgetMode: 'total',
+  semesterBudget: 210000,
+  startDate: '2024-01-03',
+  endDate: '2024-01-23',
+  homeCurrency: 'EUR',
+  spent: 0,
+  plannedSpending: 0,
+  ...overrides,
+});
+
+const makeTrip = (overrides: Partial<Trip> = {}): Trip => ({
+  id: 'trip-1',
+  name: 'Lisbon',
+  destination: 'Lisbon',
+  startDate: '2024-01-05',
+  endDate: '2024-01-10',
+  prepaidCost: 0,
+  plannedCost: 0,
+  currency: 'EUR',
+  ...overrides,
+});
+
+const makeExpense = (overrides: Partial<Expense> = {}): Expense => ({
+  id: 'expense-1',
+  description: 'Groceries',
+  amount: 0,
+  currency: 'EUR',
+  date: '2024-01-09',
+  ...overrides,
+});
+
+const makeFunding = (overrides: Partial<Funding> = {}): Funding => ({
+  id: 'funding-1',
+  name: 'Scholarship',
+  kind: 'scholarship',
+  amount: 0,
+  currency: 'EUR',
+  expectedDate: '2024-01-10',
+  ...overrides,
+});
+
+const makeGoal = (overrides: Partial<SavingsGoal> = {}): SavingsGoal => ({
+  id: 'goal-1',
+  name: 'Lisbon fund',
+  target: 10000,
+  saved: 2000,
+  startDate: '2024-01-01',
+  targetDate: '2024-01-29',
+  ...overrides,
+});
+
+describe('prorate', () => {
+  it('splits an amount by days', () => {
+    expect(prorate(7000, 0, 3, 7)).toBe(3000);
+    expect(prorate(7000, 3, 4, 7)).toBe(4000);
+  });
+
+  it('rounds so the parts add back up to the amount', () => {
+    const parts = [0, 1, 2].map(before => prorate(100, before, 1, 3));
+    expect(parts).toEqual([33, 34, 33]);
+    expect(parts.reduce((sum, part) => sum + part, 0)).toBe(100);
+  });
+
+  it('gives nothing for no days', () => {
+    expect(prorate(100, 2, 0, 3)).toBe(0);
+  });
+});
+
+describe('overlapDays', () => {
+  const start = parseISO('2024-01-05');
+  const end = parseISO('2024-01-10');
+
+  it('counts the days in the week and the days before it', () => {
+    expect(overlapDays(start, end, parseISO('2024-01-01'), parseISO('2024-01-07'))).toEqual({ before: 0, days: 3 });
+    expect(overlapDays(start, end, parseISO('2024-01-08'), parseISO('2024-01-14'))).toEqual({ before: 3, days: 3 });
+  });
+
+  it('counts a span inside one week whole', () => {
+    expect(overlapDays(start, start, parseISO('2024-01-01'), parseISO('2024-01-07'))).toEqual({ before: 0, days: 1 });
+  });
+
+  it('finds no days in a week the span misses', () => {
+    expect(overlapDays(start, end, parseISO('2024-01-15'), parseISO('2024-01-21')).days).toBe(0);
+  });
+});
+
+describe('calculateAvailableFunds', () => {
+  const funding = [
+    makeFunding({ id: 'received', amount: 20000, receivedDate: '2024-01-04' }),
+    makeFunding({ id: 'pending', amount: 30000 }),
+  ];
+
+  it('adds all income to the starting funds in total mode', () => {
+    expect(calculateAvailableFunds(makeBudget({ semesterBudget: 100000 }), 5000, funding)).toBe(150000);
+  });
+
+  it('adds pending income and what was spent back to the balance in remaining mode', () => {
+    const budget = makeBudget({ budgetMode: 'remaining', semesterBudget: 100000 });
+    expect(calculateAvailableFunds(budget, 5000, funding)).toBe(135000);
+  });
+
+  it('is the target alone in tracking mode', () => {
+    const budget = makeBudget({ budgetMode: 'tracking', semesterBudget: 100000 });
+    expect(calculateAvailableFunds(budget, 5000, funding)).toBe(100000);
+  });
+});
+
+describe('calculateWeeklyBudgets', () => {
+  const shares = (budget: Budget, trips: Trip[] = [], expenses: Expense[] = []) =>
+    calculateWeeklyBudgets(budget, trips, expenses).map(week => week.budget);
+
+  it('spreads the funds over the days of the period, so partial weeks get less', () => {
+    const weeks = calculateWeeklyBudgets(makeBudget(), []);
+    expect(weeks.map(week => week.week)).toEqual(['2024-01-01', '2024-01-08', '2024-01-15', '2024-01-22']);
+    expect(weeks.map(week => week.budget)).toEqual([50000, 70000, 70000, 20000]);
+    expect(weeks.every(week => week.carriedOver === 0 && week.allowance === week.budget)).toBe(true);
+  });
+
+  it('splits a trip across the weeks its days fall in', () => {
+    const trip = makeTrip({ prepaidCost: 6000, plannedCost: 12000 });
+    const weeks = calculateWeeklyBudgets(makeBudget(), [trip]);
+    expect(weeks.map(week => week.spent)).toEqual([3000, 3000, 0, 0]);
+    expect(weeks.map(week => week.planned)).toEqual([6000, 6000, 0, 0]);
+    expect(weeks[0].remaining).toBe(50000 - 3000 - 6000);
+  });
+
+  it('keeps every cent of an unevenly split trip', () => {
+    // Sunday to Tuesday: one day in the first week, two in the next
+    const trip = makeTrip({ startDate: '2024-01-07', endDate: '2024-01-09', plannedCost: 100 });
+    const weeks = calculateWeeklyBudgets(makeBudget(), [trip]);
+    expect(weeks.map(week => week.planned)).toEqual([33, 67, 0, 0]);
+  });
+
+  it('counts an expense in the week of its date', () => {
+    const weeks = calculateWeeklyBudgets(makeBudget(), [], [makeExpense({ amount: 7000 })]);
+    expect(weeks.map(week => week.spent)).toEqual([0, 7000, 0, 0]);
+  });
+
+  it('spreads the balance plus what was spent in remaining mode', () => {
+    const budget = makeBudget({ budgetMode: 'remaining', semesterBudget: 203000 });
+    expect(shares(budget, [], [makeExpense({ amount: 7000 })])).toEqual([50000, 70000, 70000, 20000]);
+  });
+
+  it('spreads the target in tracking mode, and nothing without one', () => {
+    expect(shares(makeBudget({ budgetMode: 'tracking' }))).toEqual([50000, 70000, 70000, 20000]);
+    expect(shares(makeBudget({ budgetMode: 'tracking', semesterBudget: 0 }))).toEqual([0, 0, 0, 0]);
+  });
+
+  it('has no weeks when the period ends before it starts', () => {
+    expect(calculateWeeklyBudgets(makeBudget({ endDate: '2024-01-01' }), [])).toEqual([]);
+  });
+});
+
+describe('calculateWeeklyBudgets rollover', () => {
+  // 10,000 overspent in the first week, nothing spent after it
+  const expenses = [makeExpense({ date: '2024-01-04', amount: 60000 })];
+  const carried = (overrides: Partial<Budget>) =>
+    calculateWeeklyBudgets(makeBudget(overrides), [], expenses).map(week => week.carriedOver);
+
+  it('carries nothing without a policy', () => {
+    expect(carried({})).toEqual([0, 0, 0, 0]);
+    expect(carried({ rolloverPolicy: 'none' })).toEqual([0, 0, 0, 0]);
+  });
+
+  it('carries only leftover money with surplus', () => {
+    expect(carried({ rolloverPolicy: 'surplus' })).toEqual([0, 0, 70000, 140000]);
+  });
+
+  it('carries only overspend with deficit', () => {
+    const weeks = calculateWeeklyBudgets(makeBudget({ rolloverPolicy: 'deficit' }), [], expenses);
+    expect(weeks.map(week => week.carriedOver)).toEqual([0, -10000, 0, 0]);
+    expect(weeks[1].allowance).toBe(60000);
+  });
+
+  it('carries both ways with both', () => {
+    expect(carried({ rolloverPolicy: 'both' })).toEqual([0, -10000, 60000, 130000]);
+  });
+
+  it('limits what is carried either way to the cap', () => {
+    expect(carried({ rolloverPolicy: 'both', rolloverCap: 25000 })).toEqual([0, -10000, 25000, 25000]);
+    expect(carried({ rolloverPolicy: 'both', rolloverCap: 5000 })).toEqual([0, -5000, 5000, 5000]);
+  });
+
+  it('treats a cap of 0 as carrying nothing, unlike no cap', () => {
+    expect(carried({ rolloverPolicy: 'both', rolloverCap: 0 })).toEqual([0, 0, 0, 0]);
+    expect(carried({ rolloverPolicy: 'both', rolloverCap: undefined })).toEqual([0, -10000, 60000, 130000]);
+  });
+});
+
+describe('calculateBalanceForecast', () => {
+  // January, seen from the 20th: 11 days still to come
+  const budget = makeBudget({ semesterBudget: 100000, startDate: '2024-01-01', endDate: '2024-01-31' });
+  const today = parseISO('2024-01-20');
+  // 14,000 in the last 14 days, 42,000 in the 20 days so far. The posted rent isn't day-to-day spending.
+  const expenses = [
+    makeExpense({ id: 'flights', date: '2024-01-02', amount: 28000 }),
+    makeExpense({ id: 'groceries', date: '2024-01-15', amount: 14000 }),
+    makeExpense({ id: 'rent', date: '2024-01-13', amount: 2000, recurringExpenseId: 'rent' }),
+  ];
+  const rent: RecurringExpense = {
+    id: 'rent',
+    description: 'Rent',
+    amount: 2000,
+    currency: 'EUR',
+    cadence: 'weekly',
+    startDate: '2024-01-06',
+    lastPostedDate: '2024-01-20',
+  };
+  const trips = [makeTrip({ startDate: '2024-01-28', endDate: '2024-01-30', plannedCost: 20000 })];
+  const funding = [makeFunding({ expectedDate: '2024-01-25', amount: 5000 })];
+
+  it('averages recent day-to-day spending and projects it on top of known dates', () => {
+    const forecast = calculateBalanceForecast(budget, trips, expenses, [rent], funding, [], today)!;
+    expect(forecast.balance).toBe(56000);
+    expect(forecast.last14Days).toBe(1000);
+    expect(forecast.last30Days).toBe(2100);
+    // +5,000 income, -2,000 rent on the 27th, -20,000 for the trip
+    expect(forecast.best).toEqual({ dailySpending: 1000, endBalance: 28000, runOutDate: null });
+    expect(forecast.expected).toEqual({ dailySpending: 1550, endBalance: 21950, runOutDate: null });
+    expect(forecast.worst).toEqual({ dailySpending: 2100, endBalance: 15900, runOutDate: null });
+  });
+
+  it('finds the first day the balance drops below zero', () => {
+    const bigTrip = [makeTrip({ startDate: '2024-01-28', endDate: '2024-01-30', plannedCost: 60000 })];
+    const forecast = calculateBalanceForecast(budget, bigTrip, expenses, [rent], funding, [], today)!;
+    expect(forecast.best.runOutDate).toBe('2024-01-28');
+  });
+
+  it('counts overdue income as arriving today', () => {
+    const overdue = [makeFunding({ expectedDate: '2024-01-10', amount: 10000 })];
+    const forecast = calculateBalanceForecast(budget, [], expenses, [], overdue, [], today)!;
+    const without = calculateBalanceForecast(budget, [], expenses, [], [], [], today)!;
+    expect(forecast.balance).toBe(without.balance);
+    expect(forecast.best.endBalance - without.best.endBalance).toBe(10000);
+  });
+
+  it('starts from the balance as entered in remaining mode', () => {
+    const remaining = { ...budget, budgetMode: 'remaining' as const, semesterBudget: 56000 };
+    const forecast = calculateBalanceForecast(remaining, trips, expenses, [rent], funding, [], today)!;
+    expect(forecast.balance).toBe(56000);
+    expect(forecast.best.endBalance).toBe(28000);
+  });
+
+  it('leaves income out of a tracking target', () => {
+    const tracking = { ...budget, budgetMode: 'tracking' as const };
+    const forecast = calculateBalanceForecast(tracking, trips, expenses, [rent], funding, [], today)!;
+    expect(forecast.best.endBalance).toBe(28000 - 5000);
+  });
+
+  it('has no forecast without a tracking target or once the period is over', () => {
+    const untargeted = { ...budget, budgetMode: 'tracking' as const, semesterBudget: 0 };
+    expect(calculateBalanceForecast(untargeted, trips, expenses, [], [], [], today)).toBeNull();
+    expect(calculateBalanceForecast(budget, trips, expenses, [], [], [], parseISO('2024-02-01'))).toBeNull();
+  });
+});
+
+describe('savings goals', () => {
+  // Halfway through a four-week goal, with three weeks left counting this one
+  const today = parseISO('2024-01-15');
+
+  describe('calculateGoalProgress', () => {
+    it('spreads what is missing over the weeks left', () => {
+      expect(calculateGoalProgress(makeGoal(), today)).toEqual({ status: 'behind', expectedByNow: 5000, weeklyContribution: 2667 });
+      expect(calculateGoalProgress(makeGoal({ saved: 6000 }), today)).toEqual({
+        status: 'on_track',
+        expectedByNow: 5000,
+        weeklyContribution: 1333,
+      });
+    });
+
+    it('asks for nothing once the target is reached or its date has passed', () => {
+      expect(calculateGoalProgress(makeGoal({ saved: 10000 }), today).status).toBe('reached');
+      const missed = calculateGoalProgress(makeGoal(), parseISO('2024-01-30'));
+      expect(missed).toEqual({ status: 'missed', expectedByNow: 10000, weeklyContribution: 0 });
+    });
+  });
+
+  describe('calculateGoalSetAside', () => {
+    // Due this Saturday, with nothing saved yet: all of it goes aside this week
+    const goals = [makeGoal(), makeGoal({ id: 'goal-2', target: 3000, saved: 0, targetDate: '2024-01-20' })];
+
+    it("adds up each goal's contribution up to the week of its date", () => {
+      expect(calculateGoalSetAside(goals, parseISO('2024-01-15'), today)).toBe(2667 + 3000);
+      expect(calculateGoalSetAside(goals, parseISO('2024-01-22'), today)).toBe(2667);
+      expect(calculateGoalSetAside(goals, parseISO('2024-02-05'), today)).toBe(0);
+    });
+
+    it('sets nothing aside in weeks already over', () => {
+      expect(calculateGoalSetAside(goals, parseISO('2024-01-08'), today)).toBe(0);
+    });
+  });
+
+  describe('calculateGoalAdjustment', () => {
+    const trips = [makeTrip({ id: 'lisbon', plannedCost: 6000 })];
+
+    it("takes out what's saved and gives back the trip cost a goal covers", () => {
+      const goals = [
+        makeGoal({ tripId: 'lisbon' }),                                   // Covers 6,000, 2,000 saved
+        makeGoal({ id: 'goal-2', saved: 1500 }),                          // Covers nothing
+        makeGoal({ id: 'goal-3', saved: 9000, targetDate: '2024-01-10' }), // Already past
+      ];
+      expect(calculateGoalAdjustment(makeBudget(), goals, trips, [], today)).toBe(6000 - 2000 - 1500);
+    });
+
+    it('gives back no more than the target', () => {
+      const goals = [makeGoal({ tripId: 'lisbon', target: 4000, saved: 0 })];
+      expect(calculateGoalAdjustment(makeBudget(), goals, trips, [], today)).toBe(4000);
+    });
+  });
+});
@@ -1,68 +1,357 @@
-import { Budget, Trip, WeeklyBudget, Expense } from '../types';
-import { format, startOfWeek, endOfWeek, eachWeekOfInterval, isWithinInterval, parseISO, addWeeks } from 'date-fns';
+import { Budget, BudgetScenario, Trip, WeeklyBudget, Expense, ExchangeRate, Cents, ExpenseCategory, Funding, RecurringExpense, SavingsGoal, WishlistItem } from '../types';
+import { format, startOfWeek, startOfMonth, endOfMonth, eachWeekOfInterval, isWithinInterval, parseISO, addDays, subDays, differenceInDays, startOfDay, max, min } from 'date-fns';
+import { getHomeCurrency } from './currency';
+import { createConverter } from './exchangeRates';
+import { divideCents, formatMoney, sumCents } from './money';
+import { calculateUpcomingRecurring, getUpcomingOccurrences } from './recurring';
 
-export const calculateWeeklyBudgets = (budget: Budget, trips: Trip[], expenses: Expense[] = []): WeeklyBudget[] => {
+// All amounts returned from these helpers are cents in the budget's home currency
+
+// Money already spent (prepaid trip costs + expenses) and still committed (planned trip costs +
+// upcoming recurring expenses). Every backend stores these on the budget from this one calculation.
+export const calculateSpentAndPlanned = (
+  budget: Budget | null,
+  trips: Trip[],
+  expenses: Expense[],
+  recurringExpenses: RecurringExpense[],
+  rates: ExchangeRate[]
+): { spent: Cents; planned: Cents } => {
+  const convert = createConverter(budget, rates);
+
+  const tripSpent = sumCents(trips, trip => convert(trip.prepaidCost, trip.currency, trip.startDate));
+  const tripPlanned = sumCents(trips, trip => convert(trip.plannedCost, trip.currency, trip.startDate));
+  const expenseSpent = sumCents(expenses, expense => convert(expense.amount, expense.currency, expense.date));
+  const recurringPlanned = budget ? calculateUpcomingRecurring(budget, recurringExpenses, convert) : 0;
+
+  return {
+    spent: tripSpent + expenseSpent,
+    planned: tripPlanned + recurringPlanned,
+  };
+};
+
+export interface FundingTotals {
+  received: Cents;     // Already arrived
+  pending: Cents;      // Expected but not arrived yet
+}
+
+// Income in the home currency, converted at the date it arrived (or is expected)
+export const calculateFundingTotals = (
+  budget: Budget,
+  funding: Funding[],
+  rates: ExchangeRate[] = []
+): FundingTotals => {
+  const convert = createConverter(budget, rates);
+  const received = funding.filter(item => item.receivedDate);
+  const pending = funding.filter(item => !item.receivedDate);
+
+  return {
+    received: sumCents(received, item => convert(item.amount, item.currency, item.receivedDate)),
+    pending: sumCents(pending, item => convert(item.amount, item.currency, item.expectedDate)),
+  };
+};
+
+// What the budget has to spend over the whole period, before anything is spent or planned:
+// - total: the starting funds plus all income, received or still to arrive
+// - remaining: the current balance plus income still to arrive. Received income is already in
+//   the balance, and so is everything spent so far, which is added back.
+// - tracking: the optional target (0 when there isn't one)
+// `spent` is prepaid trip costs plus expenses, as from calculateSpentAndPlanned.
+export const calculateAvailableFunds = (
+  budget: Budget,
+  spent: Cents,
+  funding: Funding[] = [],
+  rates: ExchangeRate[] = []
+): Cents => {
+  const { received, pending } = calculateFundingTotals(budget, funding, rates);
+  switch (budget.budgetMode) {
+    case 'remaining':
+      return budget.semesterBudget + pending + spent;
+    case 'tracking':
+      return budget.semesterBudget;
+    default:
+      return budget.semesterBudget + received + pending;
+  }
+};
+
+// Remaining = available funds - spent - planned trip costs, in every mode
+export const calculateRemainingBudget = (
+  budget: Budget,
+  trips: Trip[],
+  expenses: Expense[] = [],
+  rates: ExchangeRate[] = [],
+  funding: Funding[] = []
+): Cents => {
+  const { spent, planned } = calculateSpentAndPlanned(budget, trips, expenses, [], rates);
+  return calculateAvailableFunds(budget, spent, funding, rates) - spent - planned;
+};
+
+// The part of `amount` that falls on `days` days starting `before` days into a span of
+// `totalDays`. Rounded so the parts of one amount always add back up to it exactly.
+export const prorate = (amount: Cents, before: number, days: number, totalDays: number): Cents =>
+  Math.round((amount * (before + days)) / totalDays) - Math.round((amount * before) / totalDays);
+
+// How many days of [start, end] fall in [weekStart, weekEnd], and how many come before them
+export const overlapDays = (start: Date, end: Date, weekStart: Date, weekEnd: Date): { before: number; days: number } => {
+  const from = max([start, weekStart]);
+  const to = min([end, weekEnd]);
+  return { before: differenceInDays(from, start), days: Math.max(0, differenceInDays(to, from) + 1) };
+};
+
+// What a week with `remaining` left over (negative when overspent) passes on to the next one
+const carryForward = (budget: Budget, remaining: Cents): Cents => {
+  const policy = budget.rolloverPolicy ?? 'none';
+  const carried = policy === 'both' ? remaining
+    : policy === 'surplus' ? Math.max(0, remaining)
+    : policy === 'deficit' ? Math.min(0, remaining)
+    : 0;
+  const cap = budget.rolloverCap;
+  if (cap == null || Math.abs(carried) <= cap) return carried;
+  return carried > 0 ? cap : 0 - cap;
+};
+
+// The budget period week by week (weeks start on Monday). The available funds are spread evenly
+// over the period's days, so a first or last week that's cut short gets a smaller share. A trip's
+// costs are spread over its days the same way and counted in the weeks those days fall in: the
+// prepaid part as spent, the planned part as planned. Expenses count in the week of their date.
+// Each week's allowance is its share plus whatever the budget's rollover policy carries over
+// from the week before; weeks still to come carry what's left after their planned spending.
+// In tracking mode without a target every week's share is 0.
+export const calculateWeeklyBudgets = (
+  budget: Budget,
+  trips: Trip[],
+  expenses: Expense[] = [],
+  rates: ExchangeRate[] = [],
+  funding: Funding[] = []
+): WeeklyBudget[] => {
   if (!budget.startDate || !budget.endDate) return [];
 
   const start = parseISO(budget.startDate);
   const end = parseISO(budget.endDate);
-  const weeks = eachWeekOfInterval({ start, end }, { weekStartsOn: 1 });
-
-  const totalWeeks = weeks.length;
-  const weeklyBudgetAmount = budget.semesterBudget / totalWeeks;
-
-  return weeks.map((weekStart, index) => {
-    const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 });
-    const weekKey = format(weekStart, 'yyyy-MM-dd');
-
-    // Calculate spending for trips in this week
-    const tripSpent = trips.reduce((sum, trip) => {
-      const tripStart = parseISO(trip.startDate);
-      const tripEnd = parseISO(trip.endDate);
-      
-      // Check if trip overlaps with this week
-      if (
-        isWithinInterval(tripStart, { start: weekStart, end: weekEnd }) ||
-        isWithinInterval(tripEnd, { start: weekStart, end: weekEnd }) ||
-        (tripStart <= weekStart && tripEnd >= weekEnd)
-      ) {
-        // Allocate proportional cost if trip spans multiple weeks
-        const tripDuration = Math.max(1, Math.ceil((tripEnd.getTime() - tripStart.getTime()) / (1000 * 60 * 60 * 24)));
-        const weeksInTrip = Math.ceil(tripDuration / 7);
-        const costPerWeek = (trip.actualCost || trip.estimatedCost) / weeksInTrip;
-        return sum + costPerWeek;
-      }
-      return sum;
-    }, 0);
-
-    // Calculate spending for expenses in this week
-    const expenseSpent = expenses.reduce((sum, expense) => {
-      const expenseDate = parseISO(expense.date);
-      if (isWithinInterval(expenseDate, { start: weekStart, end: weekEnd })) {
-        return sum + expense.amount;
-      }
-      return sum;
-    }, 0);
+  if (end < start) return [];
 
-    const weekSpent = tripSpent + expenseSpent;
+  const convert = createConverter(budget, rates);
+  const periodDays = differenceInDays(end, start) + 1;
+  const { spent } = calculateSpentAndPlanned(budget, trips, expenses, [], rates);
+  const available = calculateAvailableFunds(budget, spent, funding, rates);
 
+  const tripCosts = trips.map(trip => {
+    const tripStart = parseISO(trip.startDate);
+    const tripEnd = max([tripStart, parseISO(trip.endDate)]);
     return {
-      week: weekKey,
-      budget: weeklyBudgetAmount,
+      start: tripStart,
+      end: tripEnd,
+      days: differenceInDays(tripEnd, tripStart) + 1,
+      prepaid: convert(trip.prepaidCost, trip.currency, trip.startDate),
+      planned: convert(trip.plannedCost, trip.currency, trip.startDate),
+    };
+  });
+
+  let carriedOver = 0;
+  return eachWeekOfInterval({ start, end }, { weekStartsOn: 1 }).map(weekStart => {
+    const weekEnd = addDays(weekStart, 6);
+    const period = overlapDays(start, end, weekStart, weekEnd);
+    const weekBudget = prorate(available, period.before, period.days, periodDays);
+
+    let tripSpent = 0;
+    let tripPlanned = 0;
+    tripCosts.forEach(trip => {
+      const { before, days } = overlapDays(trip.start, trip.end, weekStart, weekEnd);
+      if (days === 0) return;
+      tripSpent += prorate(trip.prepaid, before, days, trip.days);
+      tripPlanned += prorate(trip.planned, before, days, trip.days);
+    });
+
+    const expenseSpent = sumCents(
+      expenses.filter(expense => isWithinInterval(parseISO(expense.date), { start: weekStart, end: weekEnd })),
+      expense => convert(expense.amount, expense.currency, expense.date)
+    );
+
+    const weekSpent = tripSpent + expenseSpent;
+    const allowance = weekBudget + carriedOver;
+    const week: WeeklyBudget = {
+      week: format(weekStart, 'yyyy-MM-dd'),
+      budget: weekBudget,
+      carriedOver,
+      allowance,
       spent: weekSpent,
-      remaining: weeklyBudgetAmount - weekSpent,
+      planned: tripPlanned,
+      remaining: allowance - weekSpent - tripPlanned,
     };
+    carriedOver = carryForward(budget, week.remaining);
+    return week;
+  });
+};
+
+// Daily allowance from `remaining` (which already counts pending funding) over the days left.
+// Money that hasn't arrived can't be spent before it does, so the allowance is also capped by
+// what's on hand until each upcoming payment: (cash before that date) / (days until that date).
+// Overdue payments are treated as arriving today.
+export const calculateDailyAllowance = (
+  budget: Budget,
+  remaining: Cents,
+  funding: Funding[],
+  rates: ExchangeRate[] = [],
+  today: Date = new Date()
+): Cents => {
+  const convert = createConverter(budget, rates);
+  const start = startOfDay(today);
+  const end = parseISO(budget.endDate);
+  const budgetStart = parseISO(budget.startDate);
+  const from = start < budgetStart ? budgetStart : start;
+  const remainingDays = Math.max(1, differenceInDays(end, from) + 1);
+
+  let allowance = divideCents(remaining, remainingDays);
+
+  const upcoming = funding
+    .filter(item => !item.receivedDate && parseISO(item.expectedDate) > from && parseISO(item.expectedDate) <= end)
+    .map(item => ({ date: item.expectedDate, amount: convert(item.amount, item.currency, item.expectedDate) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  // Cash on hand now = remaining minus everything still to arrive after today
+  let cash = remaining - sumCents(upcoming, item => item.amount);
+  upcoming.forEach(item => {
+    const daysUntil = differenceInDays(parseISO(item.date), from);
+    allowance = Math.min(allowance, divideCents(cash, daysUntil));
+    cash += item.amount;
+  });
+
+  return allowance;
+};
+
+export interface ForecastScenario {
+  dailySpending: Cents;       // Day-to-day spending assumed from tomorrow on
+  endBalance: Cents;          // Balance left on the budget's end date
+  runOutDate: string | null;  // First day the balance drops below zero, null when it lasts
+}
+
+export interface BalanceForecast {
+  balance: Cents;             // On hand today
+  last14Days: Cents;          // Average day-to-day spending over the last 14 days
+  last30Days: Cents;          // ... and over the last 30
+  expected: ForecastScenario; // Spending at the mean of the two averages
+  best: ForecastScenario;     // At the lower one
+  worst: ForecastScenario;    // At the higher one
+}
+
+// Where the balance is heading by the end of the budget period. Day-to-day spending is taken
+// from recent expenses (not trips, and not recurring expenses, which are counted on their own
+// dates), and runs on top of planned trip costs (due on the trip's start date), upcoming
+// recurring expenses and income still to arrive (on its expected date; overdue counts as today).
+// Null in tracking mode without a target, and once the period is over.
+export const calculateBalanceForecast = (
+  budget: Budget,
+  trips: Trip[],
+  expenses: Expense[],
+  recurringExpenses: RecurringExpense[] = [],
+  funding: Funding[] = [],
+  rates: ExchangeRate[] = [],
+  today: Date = new Date()
+): BalanceForecast | null => {
+  if (budget.budgetMode === 'tracking' && budget.semesterBudget <= 0) return null;
+
+  const start = parseISO(budget.startDate);
+  const end = parseISO(budget.endDate);
+  const from = max([startOfDay(today), start]);
+  if (from > end) return null;
+
+  const convert = createConverter(budget, rates);
+  const fromKey = format(from, 'yyyy-MM-dd');
+
+  // What's on hand now. The remaining-mode balance already has spending and received income in it.
+  const { spent } = calculateSpentAndPlanned(budget, trips, expenses, [], rates);
+  const { received } = calculateFundingTotals(budget, funding, rates);
+  const balance = budget.budgetMode === 'remaining' ? budget.semesterBudget
+    : budget.budgetMode === 'tracking' ? budget.semesterBudget - spent
+    : budget.semesterBudget + received - spent;
+
+  // Money moving on known dates from today to the end: income in, planned trips and recurring out
+  const scheduled = new Map<string, Cents>();
+  const schedule = (date: string, amount: Cents) => {
+    const key = date < fromKey ? fromKey : date;
+    if (key > budget.endDate) return;
+    scheduled.set(key, (scheduled.get(key) || 0) + amount);
+  };
+  trips.forEach(trip => schedule(trip.startDate, -convert(trip.plannedCost, trip.currency, trip.startDate)));
+  recurringExpenses.forEach(series => {
+    getUpcomingOccurrences(series, fromKey, budget.endDate)
+      .forEach(date => schedule(date, -convert(series.amount, series.currency, date)));
   });
+  // A tracking target isn't topped up by income
+  if (budget.budgetMode !== 'tracking') {
+    funding
+      .filter(item => !item.receivedDate)
+      .forEach(item => schedule(item.expectedDate, convert(item.amount, item.currency, item.expectedDate)));
+  }
+
+  // Average daily spending over the last `days` days, or as many of them as the period has had
+  const dailyAverage = (days: number): Cents => {
+    const windowStart = max([start, subDays(from, days - 1)]);
+    const windowDays = differenceInDays(from, windowStart) + 1;
+    const total = sumCents(
+      expenses.filter(expense => !expense.recurringExpenseId && isWithinInterval(parseISO(expense.date), { start: windowStart, end: from })),
+      expense => convert(expense.amount, expense.currency, expense.date)
+    );
+    return divideCents(total, windowDays);
+  };
+
+  const project = (dailySpending: Cents): ForecastScenario => {
+    // Today's spending is already in the balance; the daily rate starts tomorrow
+    let running = balance + (scheduled.get(fromKey) || 0);
+    let runOutDate = running < 0 ? fromKey : null;
+    for (let day = addDays(from, 1); day <= end; day = addDays(day, 1)) {
+      const key = format(day, 'yyyy-MM-dd');
+      running += (scheduled.get(key) || 0) - dailySpending;
+      if (running < 0 && !runOutDate) runOutDate = key;
+    }
+    return { dailySpending, endBalance: running, runOutDate };
+  };
+
+  const last14Days = dailyAverage(14);
+  const last30Days = dailyAverage(30);
+  return {
+    balance,
+    last14Days,
+    last30Days,
+    expected: project(divideCents(last14Days + last30Days, 2)),
+    best: project(Math.min(last14Days, last30Days)),
+    worst: project(Math.max(last14Days, last30Days)),
+  };
 };
 
-export const calculateRemainingBudget = (budget: Budget, trips: Trip[], expenses: Expense[] = []): number => {
-  const tripSpent = trips.reduce((sum, trip) => {
-    return sum + (trip.actualCost || trip.estimatedCost);
-  }, 0);
-  const expenseSpent = expenses.reduce((sum, expense) => {
-    return sum + expense.amount;
-  }, 0);
-  return budget.semesterBudget - (tripSpent + expenseSpent);
+export interface CategorySpending {
+  category: ExpenseCategory;
+  spent: Cents;        // Spent in the cap period (this month or the whole semester)
+  cap?: Cents;
+  overCap: boolean;
+}
+
+// Spending per category within each category's cap period: the current month for monthly caps,
+// the budget period for semester caps. Uncategorised expenses are not included.
+export const calculateCategorySpending = (
+  budget: Budget,
+  categories: ExpenseCategory[],
+  expenses: Expense[],
+  rates: ExchangeRate[] = [],
+  today: Date = new Date()
+): CategorySpending[] => {
+  const convert = createConverter(budget, rates);
+  const month = { start: startOfMonth(today), end: endOfMonth(today) };
+  const semester = { start: parseISO(budget.startDate), end: parseISO(budget.endDate) };
+
+  return categories.map(category => {
+    const period = category.capPeriod === 'semester' ? semester : month;
+    const spent = sumCents(
+      expenses.filter(expense => expense.categoryId === category.id && isWithinInterval(parseISO(expense.date), period)),
+      expense => convert(expense.amount, expense.currency, expense.date)
+    );
+
+    return {
+      category,
+      spent,
+      cap: category.cap,
+      overCap: category.cap !== undefined && spent > category.cap,
+    };
+  });
 };
 
 export const getCurrentWeekBudget = (weeklyBudgets: WeeklyBudget[]): WeeklyBudget | null => {
@@ -71,43 +360,194 @@ export const getCurrentWeekBudget = (weeklyBudgets: WeeklyBudget[]): WeeklyBudge
   return weeklyBudgets.find(w => w.week === currentWeek) || null;
 };
 
+export type GoalStatus = 'reached' | 'on_track' | 'behind' | 'missed';
+
+export interface GoalProgress {
+  status: GoalStatus;
+  expectedByNow: Cents;       // Where steady saving since the start date would have got to by today
+  weeklyContribution: Cents;  // To put aside each week from this one to reach the target on time
+}
+
+// How a savings goal is doing. The weekly contribution spreads what's still missing over the
+// weeks left, this one included, so falling behind raises it.
+export const calculateGoalProgress = (goal: SavingsGoal, today: Date = new Date()): GoalProgress => {
+  const day = startOfDay(today);
+  const start = parseISO(goal.startDate);
+  const targetDate = parseISO(goal.targetDate);
+  const totalDays = Math.max(1, differenceInDays(targetDate, start));
+  const elapsedDays = Math.min(totalDays, Math.max(0, differenceInDays(day, start)));
+  const expectedByNow = divideCents(goal.target * elapsedDays, totalDays);
+  const missing = Math.max(0, goal.target - goal.saved);
+
+  if (missing === 0) return { status: 'reached', expectedByNow, weeklyContribution: 0 };
+  if (day > targetDate) return { status: 'missed', expectedByNow, weeklyContribution: 0 };
+
+  const weeksLeft = Math.floor(differenceInDays(targetDate, day) / 7) + 1;
+  return {
+    status: goal.saved >= expectedByNow ? 'on_track' : 'behind',
+    expectedByNow,
+    weeklyContribution: divideCents(missing, weeksLeft),
+  };
+};
+
+// What savings goals take out of the spendable allowance in the week starting `weekStart` (a
+// Monday): each unfinished goal's contribution, from this week up to the week of its target date
+export const calculateGoalSetAside = (goals: SavingsGoal[], weekStart: Date, today: Date = new Date()): Cents => {
+  if (weekStart < startOfWeek(today, { weekStartsOn: 1 })) return 0;
+  return sumCents(
+    goals.filter(goal => parseISO(goal.targetDate) >= weekStart),
+    goal => calculateGoalProgress(goal, today).weeklyContribution
+  );
+};
+
+// How savings goals change the money spread evenly over the rest of the period. What's already
+// put aside isn't there to spend, while the part of a linked trip's planned cost a goal will
+// pay for comes back, since the weekly contributions cover it instead. Goals past their date
+// are left out.
+export const calculateGoalAdjustment = (
+  budget: Budget,
+  goals: SavingsGoal[],
+  trips: Trip[],
+  rates: ExchangeRate[] = [],
+  today: Date = new Date()
+): Cents => {
+  const convert = createConverter(budget, rates);
+  const day = startOfDay(today);
+  return sumCents(goals.filter(goal => parseISO(goal.targetDate) >= day), goal => {
+    const trip = goal.tripId ? trips.find(entry => entry.id === goal.tripId) : undefined;
+    const covered = trip ? Math.min(goal.target, convert(trip.plannedCost, trip.currency, trip.startDate)) : 0;
+    return covered - goal.saved;
+  });
+};
+
+// Trips as a scenario has them. A trip it leaves out keeps what's already paid but plans nothing
+// more; a wishlist item it counts becomes a trip starting today, at its estimated cost unless the
+// scenario sets one.
+export const applyScenario = (
+  scenario: BudgetScenario,
+  trips: Trip[],
+  wishlist: WishlistItem[],
+  today: Date = new Date()
+): Trip[] => {
+  const choiceFor = (kind: 'trip' | 'wishlistItem', id: string) =>
+    scenario.choices.find(choice => choice.kind === kind && choice.itemId === id);
+  const todayKey = format(today, 'yyyy-MM-dd');
+
+  const scenarioTrips = trips.map(trip => {
+    const choice = choiceFor('trip', trip.id);
+    if (!choice) return trip;
+    return { ...trip, plannedCost: choice.included ? choice.cost ?? trip.plannedCost : 0 };
+  });
+  const wishlistTrips = wishlist.flatMap((item): Trip[] => {
+    const choice = choiceFor('wishlistItem', item.id);
+    if (!choice?.included) return [];
+    return [{
+      id: `wishlist:${item.id}`,
+      name: item.name,
+      destination: item.location,
+      startDate: todayKey,
+      endDate: todayKey,
+      prepaidCost: 0,
+      plannedCost: choice.cost ?? item.estimatedCost,
+      currency: item.currency,
+    }];
+  });
+  return [...scenarioTrips, ...wishlistTrips];
+};
+
+export interface ScenarioSummary {
+  remaining: Cents;           // Left after everything spent and planned, upcoming recurring expenses included
+  dailyAllowance: Cents;      // What can be spent per day from today, as in the weekly planner
+  endBalance: Cents | null;   // Expected balance on the end date (see calculateBalanceForecast)
+}
+
+// The headline numbers for one scenario, to compare it with others and with the plan as it is
+export const calculateScenarioSummary = (
+  budget: Budget,
+  scenario: BudgetScenario,
+  trips: Trip[],
+  wishlist: WishlistItem[],
+  expenses: Expense[],
+  recurringExpenses: RecurringExpense[] = [],
+  funding: Funding[] = [],
+  rates: ExchangeRate[] = [],
+  today: Date = new Date()
+): ScenarioSummary => {
+  const scenarioTrips = applyScenario(scenario, trips, wishlist, today);
+  const convert = createConverter(budget, rates);
+  const remaining = calculateRemainingBudget(budget, scenarioTrips, expenses, rates, funding)
+    - calculateUpcomingRecurring(budget, recurringExpenses, convert, format(today, 'yyyy-MM-dd'));
+  const forecast = calculateBalanceForecast(budget, scenarioTrips, expenses, recurringExpenses, funding, rates, today);
+
+  return {
+    remaining,
+    dailyAllowance: calculateDailyAllowance(budget, remaining, funding, rates, today),
+    endBalance: forecast ? forecast.expected.endBalance : null,
+  };
+};
+
 export const getRecommendations = (
   budget: Budget,
   trips: Trip[],
   weeklyBudgets: WeeklyBudget[],
-  expenses: Expense[] = []
+  expenses: Expense[] = [],
+  rates: ExchangeRate[] = [],
+  categories: ExpenseCategory[] = [],
+  funding: Funding[] = [],
+  forecast: BalanceForecast | null = null
 ): string[] => {
   const recommendations: string[] = [];
-  const remaining = calculateRemainingBudget(budget, trips, expenses);
+  const convert = createConverter(budget, rates);
+  const homeCurrency = getHomeCurrency(budget);
+  const { spent } = calculateSpentAndPlanned(budget, trips, expenses, [], rates);
+  const available = calculateAvailableFunds(budget, spent, funding, rates);
+  const remaining = calculateRemainingBudget(budget, trips, expenses, rates, funding);
   const currentWeek = getCurrentWeekBudget(weeklyBudgets);
 
-  if (remaining < 0) {
-    recommendations.push('⚠️ You have exceeded your budget. Consider reducing trip costs or removing some trips.');
-  } else if (remaining < budget.semesterBudget * 0.1) {
-    recommendations.push('💰 You have less than 10% of your budget remaining. Be mindful of spending.');
-  }
+  // Tracking mode without a target has no limit to warn about
+  if (available > 0) {
+    if (remaining < 0) {
+      recommendations.push('⚠️ You have exceeded your budget. Consider reducing trip costs or removing some trips.');
+    } else if (remaining < available * 0.1) {
+      recommendations.push('💰 You have less than 10% of your budget remaining. Be mindful of spending.');
+    }
 
-  if (currentWeek && currentWeek.remaining < 0) {
-    recommendations.push('📅 This week you are over budget. Try to reduce spending in upcoming weeks.');
-  } else if (currentWeek && currentWeek.remaining < currentWeek.budget * 0.2) {
-    recommendations.push('📅 You have limited budget remaining for this week. Plan accordingly.');
-  }
+    if (currentWeek && currentWeek.remaining < 0) {
+      recommendations.push('📅 This week you are over budget. Try to reduce spending in upcoming weeks.');
+    } else if (currentWeek && currentWeek.remaining < currentWeek.allowance * 0.2) {
+      recommendations.push('📅 You have limited budget remaining for this week. Plan accordingly.');
+    }
 
-  const upcomingTrips = trips.filter(trip => {
-    const tripDate = parseISO(trip.startDate);
-    return tripDate > new Date();
-  });
+    const upcomingTrips = trips.filter(trip => parseISO(trip.startDate) > new Date());
+    // Prepaid costs are already paid, and `remaining` has the planned ones taken off already
+    const upcomingPlanned = sumCents(upcomingTrips, trip => convert(trip.plannedCost, trip.currency, trip.startDate));
+    const leftForUpcoming = remaining + upcomingPlanned;
 
-  if (upcomingTrips.length > 0) {
-    const totalUpcomingCost = upcomingTrips.reduce((sum, trip) => {
-      return sum + (trip.actualCost || trip.estimatedCost);
-    }, 0);
-    
-    if (totalUpcomingCost > remaining) {
-      recommendations.push(`✈️ You have ${upcomingTrips.length} upcoming trip(s) totaling $${totalUpcomingCost.toFixed(2)}, but only $${remaining.toFixed(2)} remaining. Consider adjusting your plans.`);
+    if (upcomingPlanned > 0 && upcomingPlanned > leftForUpcoming) {
+      recommendations.push(`✈️ You have ${upcomingTrips.length} upcoming trip(s) still needing ${formatMoney(upcomingPlanned, homeCurrency)}, but only ${formatMoney(Math.max(0, leftForUpcoming), homeCurrency)} is left for them. Consider adjusting your plans.`);
     }
   }
 
+  if (forecast?.expected.runOutDate) {
+    recommendations.push(`📉 At your recent spending of ${formatMoney(forecast.expected.dailySpending, homeCurrency)}/day you'll run out of money around ${format(parseISO(forecast.expected.runOutDate), 'MMM d')}, before the budget ends on ${format(parseISO(budget.endDate), 'MMM d')}.`);
+  } else if (forecast?.worst.runOutDate) {
+    recommendations.push(`📉 If you keep spending ${formatMoney(forecast.worst.dailySpending, homeCurrency)}/day like in your busier recent weeks, you could run out around ${format(parseISO(forecast.worst.runOutDate), 'MMM d')}.`);
+  }
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  funding
+    .filter(item => !item.receivedDate && item.expectedDate < today)
+    .forEach(item => {
+      recommendations.push(`⏳ ${item.name} (${formatMoney(item.amount, item.currency)}) was expected on ${format(parseISO(item.expectedDate), 'MMM d')} but hasn't been marked as received.`);
+    });
+
+  calculateCategorySpending(budget, categories, expenses, rates)
+    .filter(item => item.overCap)
+    .forEach(item => {
+      const period = item.category.capPeriod === 'semester' ? 'this semester' : 'this month';
+      recommendations.push(`🏷️ ${item.category.name} is over its cap ${period}: ${formatMoney(item.spent, homeCurrency)} of ${formatMoney(item.cap ?? 0, homeCurrency)}.`);
+    });
+
   if (recommendations.length === 0) {
     recommendations.push('✅ Your budget looks good! Keep tracking your spending.');
   }
@@ -0,0 +1,45 @@
+import { Utensils, Bus, Home, ShoppingBag, Ticket, Coffee, Plane, BookOpen, Heart, Tag, Smartphone, Shirt, Dumbbell, Gift } from 'lucide-react';
+import { ExpenseCategory } from '../types';
+
+// Icons a category can use, stored by key in expense_categories.icon
+export const CATEGORY_ICONS = {
+  utensils: Utensils,
+  bus: Bus,
+  home: Home,
+  shopping: ShoppingBag,
+  ticket: Ticket,
+  coffee: Coffee,
+  plane: Plane,
+  book: BookOpen,
+  heart: Heart,
+  phone: Smartphone,
+  clothes: Shirt,
+  fitness: Dumbbell,
+  gift: Gift,
+  tag: Tag,
+};
+
+export type CategoryIcon = keyof typeof CATEGORY_ICONS;
+
+export const CATEGORY_COLORS = [
+  '#22c55e', '#3b82f6', '#eab308', '#ef4444', '#a855f7',
+  '#ec4899', '#14b8a6', '#f97316', '#64748b',
+];
+
+// Created for new accounts so the picker is never empty
+export const DEFAULT_CATEGORIES: Omit<ExpenseCategory, 'id'>[] = [
+  { name: 'Food', color: '#22c55e', icon: 'utensils', capPeriod: 'monthly' },
+  { name: 'Transport', color: '#3b82f6', icon: 'bus', capPeriod: 'monthly' },
+  { name: 'Housing', color: '#eab308', icon: 'home', capPeriod: 'monthly' },
+  { name: 'Shopping', color: '#ec4899', icon: 'shopping', capPeriod: 'monthly' },
+  { name: 'Entertainment', color: '#a855f7', icon: 'ticket', capPeriod: 'monthly' },
+  { name: 'Other', color: '#64748b', icon: 'tag', capPeriod: 'monthly' },
+];
+
+export const getCategoryIcon = (icon: string) => {
+  return CATEGORY_ICONS[icon as CategoryIcon] || Tag;
+};
+
+export const findCategory = (categories: ExpenseCategory[], id: string | undefined): ExpenseCategory | undefined => {
+  return id ? categories.find(category => category.id === id) : undefined;
+};
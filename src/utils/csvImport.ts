@@ -0,0 +1,186 @@
+import { format, isValid, parse } from 'date-fns';
+import { Cents, CurrencyCode, Expense } from '../types';
+import { parseMoneyInput } from './money';
+
+export type CsvDateFormat = 'yyyy-MM-dd' | 'dd/MM/yyyy' | 'MM/dd/yyyy' | 'dd.MM.yyyy' | 'dd-MM-yyyy';
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd.MM.yyyy', 'dd-MM-yyyy'];
+
+// How a bank's CSV maps onto an expense. Column values are indexes into each row.
+export interface CsvColumnMapping {
+  dateColumn: number;
+  descriptionColumn: number;
+  amountColumn: number;
+  currencyColumn: number | null;   // null = every row uses defaultCurrency
+  dateFormat: CsvDateFormat;
+  decimalComma: boolean;           // "1.234,56" instead of "1,234.56"
+  // Most statements show money out as negative numbers. When set, positive rows (refunds,
+  // incoming transfers) are skipped and negative amounts are imported as positive expenses.
+  debitsNegative: boolean;
+  hasHeader: boolean;
+  defaultCurrency: CurrencyCode;
+}
+
+// A saved mapping for one bank's export format
+export interface CsvImportPreset {
+  id: string;
+  name: string;
+  mapping: CsvColumnMapping;
+}
+
+export interface CsvImportRow {
+  line: number;                    // 1-based line in the file, for error messages
+  date: string;
+  description: string;
+  amount: Cents;
+  currency: CurrencyCode;
+  duplicateOf?: Expense;           // Existing expense this row probably already is
+}
+
+// Pick the delimiter that appears most in the first line (banks use , ; or tabs)
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length }));
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter;
+};
+
+// Parse CSV text into rows of cells. Handles quoted cells with embedded delimiters,
+// newlines and doubled quotes. Blank lines are dropped.
+export const parseCsv = (text: string): string[][] => {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell.trim());
+  if (row.some(value => value !== '')) rows.push(row);
+
+  return rows;
+};
+
+// Guess the columns from header names, e.g. "Booking Date", "Payee", "Amount (EUR)"
+export const guessMapping = (header: string[], defaultCurrency: CurrencyCode): CsvColumnMapping => {
+  const find = (pattern: RegExp, fallback: number) => {
+    const index = header.findIndex(name => pattern.test(name));
+    return index >= 0 ? index : fallback;
+  };
+  const currencyIndex = header.findIndex(name => /currency|ccy|währung|devise/i.test(name));
+
+  return {
+    dateColumn: find(/date|datum|fecha/i, 0),
+    descriptionColumn: find(/desc|payee|merchant|narrative|details|reference|memo|name/i, 1),
+    amountColumn: find(/amount|betrag|importe|montant|value|debit/i, 2),
+    currencyColumn: currencyIndex >= 0 ? currencyIndex : null,
+    dateFormat: 'yyyy-MM-dd',
+    decimalComma: false,
+    debitsNegative: true,
+    hasHeader: true,
+    defaultCurrency,
+  };
+};
+
+const parseDate = (value: string, dateFormat: CsvDateFormat): string | null => {
+  const date = parse(value, dateFormat, new Date());
+  return isValid(date) ? format(date, 'yyyy-MM-dd') : null;
+};
+
+const parseAmount = (value: string, decimalComma: boolean): Cents | null => {
+  // Drop currency symbols and spaces, then normalise the decimal separator
+  let cleaned = value.replace(/[^\d.,\-+()]/g, '');
+  // Accounting style negatives, e.g. "(12.50)"
+  const parenthesised = /^\(.*\)$/.test(cleaned);
+  cleaned = cleaned.replace(/[()+]/g, '');
+  cleaned = decimalComma ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+
+  const cents = parseMoneyInput(cleaned);
+  if (cents === null) return null;
+  return parenthesised ? -Math.abs(cents) : cents;
+};
+
+// Turn parsed CSV rows into expense rows using a mapping. Rows that can't be read are reported
+// by line; credits are skipped silently when the mapping treats debits as negative.
+export const mapCsvRows = (
+  rows: string[][],
+  mapping: CsvColumnMapping
+): { rows: CsvImportRow[]; errors: string[] } => {
+  const result: CsvImportRow[] = [];
+  const errors: string[] = [];
+
+  rows.forEach((cells, index) => {
+    if (mapping.hasHeader && index === 0) return;
+    const line = index + 1;
+
+    const date = parseDate(cells[mapping.dateColumn] || '', mapping.dateFormat);
+    const description = (cells[mapping.descriptionColumn] || '').trim();
+    const amount = parseAmount(cells[mapping.amountColumn] || '', mapping.decimalComma);
+
+    if (!date) {
+      errors.push(`Line ${line}: couldn't read the date "${cells[mapping.dateColumn] || ''}"`);
+      return;
+    }
+    if (amount === null) {
+      errors.push(`Line ${line}: couldn't read the amount "${cells[mapping.amountColumn] || ''}"`);
+      return;
+    }
+    if (amount === 0 || (mapping.debitsNegative && amount > 0)) return;
+
+    const currency = mapping.currencyColumn !== null && /^[A-Za-z]{3}$/.test(cells[mapping.currencyColumn] || '')
+      ? cells[mapping.currencyColumn].toUpperCase()
+      : mapping.defaultCurrency;
+
+    result.push({
+      line,
+      date,
+      description: description || 'Imported expense',
+      amount: Math.abs(amount),
+      currency,
+    });
+  });
+
+  return { rows: result, errors };
+};
+
+const normalizeDescription = (description: string) => description.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Flag rows that match an existing expense on date, amount and currency with a similar
+// description (one contains the other once case and punctuation are ignored)
+export const flagDuplicates = (rows: CsvImportRow[], expenses: Expense[]): CsvImportRow[] => {
+  return rows.map(row => {
+    const description = normalizeDescription(row.description);
+    const duplicateOf = expenses.find(expense => {
+      if (expense.date !== row.date || expense.amount !== row.amount || expense.currency !== row.currency) return false;
+      const existing = normalizeDescription(expense.description);
+      return existing === description || existing.includes(description) || description.includes(existing);
+    });
+    return duplicateOf ? { ...row, duplicateOf } : row;
+  });
+};
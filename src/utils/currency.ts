@@ -0,0 +1,23 @@
+import { Budget, CurrencyCode } from '../types';
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+// Currencies offered in the pickers - any ISO 4217 code stored in the database still works
+export const CURRENCIES: { code: CurrencyCode; name: string }[] = [
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'CHF', name: 'Swiss Franc' },
+  { code: 'CAD', name: 'Canadian Dollar' },
+  { code: 'AUD', name: 'Australian Dollar' },
+  { code: 'JPY', name: 'Japanese Yen' },
+  { code: 'CZK', name: 'Czech Koruna' },
+  { code: 'DKK', name: 'Danish Krone' },
+  { code: 'SEK', name: 'Swedish Krona' },
+  { code: 'NOK', name: 'Norwegian Krone' },
+  { code: 'MXN', name: 'Mexican Peso' },
+];
+
+export const getHomeCurrency = (budget: Budget | null): CurrencyCode => {
+  return budget?.homeCurrency || DEFAULT_CURRENCY;
+};
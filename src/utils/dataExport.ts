@@ -0,0 +1,240 @@
+import { addDays, format, parseISO } from 'date-fns';
+import {
+  Budget,
+  Trip,
+  WishlistItem,
+  Expense,
+  ExpenseCategory,
+  RecurringExpense,
+  Funding,
+  SavingsGoal,
+  ExchangeRate,
+  WeeklyPlan,
+} from '../types';
+import { getHomeCurrency } from './currency';
+import { createConverter } from './exchangeRates';
+import { findCategory } from './categories';
+import { centsToDecimal } from './money';
+import { StorageBackend } from './storageBackend';
+
+// Bump when the bundle shape changes so imports can tell old files apart
+export const EXPORT_VERSION = 1;
+
+// Everything a user has in AbroadBuddy. Money is integer cents, as in the app's own types.
+export interface ExportBundle {
+  app: 'AbroadBuddy';
+  version: number;
+  exportedAt: string;
+  moneyUnit: 'cents';
+  budget: Budget | null;
+  trips: Trip[];
+  wishlist: WishlistItem[];
+  expenses: Expense[];
+  categories: ExpenseCategory[];
+  recurringExpenses: RecurringExpense[];
+  funding: Funding[];
+  savingsGoals: SavingsGoal[];
+  exchangeRates: ExchangeRate[];
+  weeklyPlans: WeeklyPlan[];
+}
+
+export interface ExportFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+// Row versions only mean something to the database they came from, so backups leave them out
+const withoutVersion = <T extends { version?: number }>(record: T): T => {
+  const copy = { ...record };
+  delete copy.version;
+  return copy;
+};
+
+export const buildExportBundle = (
+  data: Omit<ExportBundle, 'app' | 'version' | 'exportedAt' | 'moneyUnit'>
+): ExportBundle => ({
+  app: 'AbroadBuddy',
+  version: EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  moneyUnit: 'cents',
+  ...data,
+  budget: data.budget && withoutVersion(data.budget),
+  trips: data.trips.map(withoutVersion),
+  wishlist: data.wishlist.map(withoutVersion),
+  expenses: data.expenses.map(withoutVersion),
+  categories: data.categories.map(withoutVersion),
+  recurringExpenses: data.recurringExpenses.map(withoutVersion),
+  funding: data.funding.map(withoutVersion),
+  savingsGoals: data.savingsGoals.map(withoutVersion),
+  weeklyPlans: data.weeklyPlans.map(plan => ({ ...plan, events: plan.events.map(withoutVersion) })),
+});
+
+// Everything straight from storage, for when the data context hasn't loaded yet
+export const loadExportBundle = async (storage: StorageBackend): Promise<ExportBundle> => {
+  const [budget, trips, wishlist, expenses, categories, recurringExpenses, funding, savingsGoals, exchangeRates, weeklyPlans] = await Promise.all([
+    storage.getBudget(),
+    storage.getTrips(),
+    storage.getWishlist(),
+    storage.getExpenses(),
+    storage.getCategories(),
+    storage.getRecurringExpenses(),
+    storage.getFunding(),
+    storage.getSavingsGoals(),
+    storage.rates.getRates(),
+    storage.getWeeklyPlans(),
+  ]);
+  return buildExportBundle({
+    budget, trips, wishlist, expenses, categories, recurringExpenses, funding, savingsGoals, exchangeRates, weeklyPlans,
+  });
+};
+
+type CsvValue = string | number | boolean | null | undefined;
+
+// Quote cells that contain a delimiter, quote or newline (RFC 4180)
+const csvCell = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: CsvValue[][]): string => {
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+// One spreadsheet-friendly CSV per entity. Amounts are decimals in their own currency,
+// with a home-currency column where rows can be in foreign currencies.
+export const buildCsvExports = (bundle: ExportBundle): ExportFile[] => {
+  const convert = createConverter(bundle.budget, bundle.exchangeRates);
+  const home = getHomeCurrency(bundle.budget);
+  const categoryName = (id?: string) => findCategory(bundle.categories, id)?.name || '';
+  const csv = (filename: string, content: string): ExportFile => ({ filename, content, mimeType: 'text/csv' });
+
+  const files: ExportFile[] = [];
+
+  if (bundle.budget) {
+    const budget = bundle.budget;
+    files.push(csv('budget.csv', toCsv(
+      ['mode', 'budget', 'currency', 'start_date', 'end_date', 'spent', 'planned'],
+      [[budget.budgetMode, centsToDecimal(budget.semesterBudget), home, budget.startDate, budget.endDate, centsToDecimal(budget.spent), centsToDecimal(budget.plannedSpending)]]
+    )));
+  }
+
+  files.push(csv('expenses.csv', toCsv(
+    ['date', 'description', 'category', 'amount', 'currency', `amount_${home}`, 'recurring', 'notes'],
+    bundle.expenses.map(expense => [
+      expense.date,
+      expense.description,
+      categoryName(expense.categoryId),
+      centsToDecimal(expense.amount),
+      expense.currency,
+      centsToDecimal(convert(expense.amount, expense.currency, expense.date)),
+      expense.recurringExpenseId ? 'yes' : '',
+      expense.notes,
+    ])
+  )));
+
+  files.push(csv('trips.csv', toCsv(
+    ['name', 'destination', 'start_date', 'end_date', 'prepaid', 'planned', 'currency', `prepaid_${home}`, `planned_${home}`, 'notes'],
+    bundle.trips.map(trip => [
+      trip.name,
+      trip.destination,
+      trip.startDate,
+      trip.endDate,
+      centsToDecimal(trip.prepaidCost),
+      centsToDecimal(trip.plannedCost),
+      trip.currency,
+      centsToDecimal(convert(trip.prepaidCost, trip.currency, trip.startDate)),
+      centsToDecimal(convert(trip.plannedCost, trip.currency, trip.startDate)),
+      trip.notes,
+    ])
+  )));
+
+  files.push(csv('wishlist.csv', toCsv(
+    ['name', 'location', 'priority', 'estimated_cost', 'currency', 'notes'],
+    bundle.wishlist.map(item => [item.name, item.location, item.priority, centsToDecimal(item.estimatedCost), item.currency, item.notes])
+  )));
+
+  files.push(csv('funding.csv', toCsv(
+    ['name', 'type', 'amount', 'currency', 'expected_date', 'received_date', 'notes'],
+    bundle.funding.map(item => [item.name, item.kind, centsToDecimal(item.amount), item.currency, item.expectedDate, item.receivedDate, item.notes])
+  )));
+
+  const goalFor = (goal: SavingsGoal) =>
+    bundle.trips.find(trip => trip.id === goal.tripId)?.name
+    ?? bundle.wishlist.find(item => item.id === goal.wishlistItemId)?.name;
+  files.push(csv('savings_goals.csv', toCsv(
+    ['name', 'saving_for', 'target', 'saved', 'currency', 'start_date', 'target_date'],
+    bundle.savingsGoals.map(goal => [
+      goal.name,
+      goalFor(goal),
+      centsToDecimal(goal.target),
+      centsToDecimal(goal.saved),
+      home,
+      goal.startDate,
+      goal.targetDate,
+    ])
+  )));
+
+  files.push(csv('recurring_expenses.csv', toCsv(
+    ['description', 'category', 'amount', 'currency', 'cadence', 'start_date', 'end_date', 'notes'],
+    bundle.recurringExpenses.map(series => [
+      series.description,
+      categoryName(series.categoryId),
+      centsToDecimal(series.amount),
+      series.currency,
+      series.cadence,
+      series.startDate,
+      series.endDate,
+      series.notes,
+    ])
+  )));
+
+  // One row per planned event, with the actual calendar date of its day
+  files.push(csv('weekly_plans.csv', toCsv(
+    ['week_start', 'date', 'event', `amount_${home}`],
+    bundle.weeklyPlans.flatMap(plan => plan.events.map(event => [
+      plan.weekStart,
+      format(addDays(parseISO(plan.weekStart), event.dayOfWeek), 'yyyy-MM-dd'),
+      event.eventName,
+      centsToDecimal(event.amount),
+    ]))
+  )));
+
+  files.push(csv('spending_summary.csv', buildSpendingSummary(bundle)));
+
+  return files;
+};
+
+// Spending per month and category in the home currency - the summary advisors ask for
+export const buildSpendingSummary = (bundle: ExportBundle): string => {
+  const convert = createConverter(bundle.budget, bundle.exchangeRates);
+  const home = getHomeCurrency(bundle.budget);
+  const totals = new Map<string, number>();
+
+  bundle.expenses.forEach(expense => {
+    const month = expense.date.slice(0, 7);
+    const category = findCategory(bundle.categories, expense.categoryId)?.name || 'Uncategorised';
+    const key = `${month}\u0000${category}`;
+    totals.set(key, (totals.get(key) || 0) + convert(expense.amount, expense.currency, expense.date));
+  });
+
+  const rows = Array.from(totals.entries())
+    .map(([key, amount]) => [...key.split('\u0000'), centsToDecimal(amount)])
+    .sort((a, b) => `${a[0]}${a[1]}`.localeCompare(`${b[0]}${b[1]}`));
+
+  return toCsv(['month', 'category', `spent_${home}`], rows);
+};
+
+// Save a file in the browser
+export const downloadFile = (file: ExportFile) => {
+  const blob = new Blob([file.content], { type: `${file.mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
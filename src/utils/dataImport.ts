@@ -0,0 +1,643 @@
+import {
+  Budget,
+  BudgetMode,
+  Cents,
+  CurrencyCode,
+  Trip,
+  WishlistItem,
+  Expense,
+  ExpenseCategory,
+  RecurringExpense,
+  Funding,
+  SavingsGoal,
+  ExchangeRate,
+  WeeklyPlan,
+  WeeklyPlanEvent,
+} from '../types';
+import { StorageBackend, TrashKind } from './storageBackend';
+import { DEFAULT_CURRENCY, getHomeCurrency } from './currency';
+import { CATEGORY_COLORS } from './categories';
+import { parseCents } from './money';
+import { EXPORT_VERSION, ExportBundle } from './dataExport';
+
+export type RestoreMode = 'merge' | 'replace';
+
+// Keys used by the old localStorage-only build
+export const LEGACY_STORAGE_KEYS = {
+  BUDGET: 'globeBudget_budget',
+  TRIPS: 'globeBudget_trips',
+  WISHLIST: 'globeBudget_wishlist',
+  EXPENSES: 'globeBudget_expenses',
+  // Set once the data has been uploaded to an account, so it's only offered once
+  MIGRATED: 'globeBudget_migrated',
+} as const;
+
+export interface LegacyMigration {
+  userId: string;
+  migratedAt: string;
+}
+
+// What a restore would do to one kind of record
+export interface EntityPlan<T> {
+  create: T[];
+  update: T[];
+  skip: T[];
+  remove: T[];
+}
+
+export interface PlannedWeeklyEvent {
+  weekStart: string;
+  event: WeeklyPlanEvent;
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  budget: 'create' | 'update' | 'skip';
+  bundle: ExportBundle;
+  categories: EntityPlan<ExpenseCategory>;
+  trips: EntityPlan<Trip>;
+  wishlist: EntityPlan<WishlistItem>;
+  expenses: EntityPlan<Expense>;
+  recurringExpenses: EntityPlan<ExportBundle['recurringExpenses'][number]>;
+  funding: EntityPlan<ExportBundle['funding'][number]>;
+  savingsGoals: EntityPlan<ExportBundle['savingsGoals'][number]>;
+  exchangeRates: EntityPlan<ExchangeRate>;
+  weeklyPlanEvents: EntityPlan<PlannedWeeklyEvent>;
+}
+
+// Convert legacy trip costs the same way supabase/migrations/0002_budget_modes.sql does: the actual cost was
+// already spent, the rest of the estimate is still planned.
+export const upgradeLegacyTripCosts = (
+  estimatedCost: Cents | undefined,
+  actualCost: Cents | undefined
+): { prepaidCost: Cents; plannedCost: Cents } => {
+  const estimated = estimatedCost || 0;
+  if (actualCost !== undefined && actualCost !== null) {
+    return { prepaidCost: actualCost, plannedCost: Math.max(estimated - actualCost, 0) };
+  }
+  return { prepaidCost: 0, plannedCost: estimated };
+};
+
+// Read the old build's data from this browser, or null when there is none
+export const readLegacyLocalStorage = (): Record<string, unknown> | null => {
+  const read = (key: string): unknown => {
+    try {
+      const data = localStorage.getItem(key);
+      return data ? JSON.parse(data) : null;
+    } catch (e) {
+      return null;
+    }
+  };
+
+  const legacy = {
+    budget: read(LEGACY_STORAGE_KEYS.BUDGET),
+    trips: asRecords(read(LEGACY_STORAGE_KEYS.TRIPS)),
+    wishlist: asRecords(read(LEGACY_STORAGE_KEYS.WISHLIST)),
+    expenses: asRecords(read(LEGACY_STORAGE_KEYS.EXPENSES)),
+  };
+
+  const isEmpty = !legacy.budget && legacy.trips.length === 0 && legacy.wishlist.length === 0 && legacy.expenses.length === 0;
+  return isEmpty ? null : legacy;
+};
+
+export const getLegacyMigration = (): LegacyMigration | null => {
+  try {
+    const data = localStorage.getItem(LEGACY_STORAGE_KEYS.MIGRATED);
+    const migration: unknown = data ? JSON.parse(data) : null;
+    return isLegacyMigration(migration) ? migration : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// The old keys are kept (not deleted) so nothing is lost if the upload needs checking later
+export const markLegacyMigrated = (userId: string) => {
+  const migration: LegacyMigration = { userId, migratedAt: new Date().toISOString() };
+  localStorage.setItem(LEGACY_STORAGE_KEYS.MIGRATED, JSON.stringify(migration));
+};
+
+// A backup is parsed as unknown and every record is checked against the fields its type
+// requires before it's used, the way supabaseRows.ts checks database rows
+type RawRecord = Record<string, unknown>;
+type FieldCheck = (value: unknown) => boolean;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const asRecords = (value: unknown): RawRecord[] => (Array.isArray(value) ? value.filter(isRecord) : []);
+
+const isText = (value: unknown): value is string => typeof value === 'string';
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+const isCents = (value: unknown): value is Cents => isInteger(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isDecimal = (value: unknown): value is string | number => isText(value) || isNumber(value);
+const optional = (check: FieldCheck): FieldCheck => value => value === undefined || check(value);
+const oneOf = <T extends string>(values: readonly T[]) => (value: unknown): value is T =>
+  isText(value) && (values as readonly string[]).includes(value);
+
+const BUDGET_MODES: readonly BudgetMode[] = ['total', 'remaining', 'tracking'];
+const PRIORITIES: readonly WishlistItem['priority'][] = ['high', 'medium', 'low'];
+const isBudgetMode = oneOf(BUDGET_MODES);
+const isPriority = oneOf(PRIORITIES);
+
+const recordGuard = <T>(fields: { [K in keyof T]-?: FieldCheck }) => (value: unknown): value is T =>
+  isRecord(value) && Object.entries<FieldCheck>(fields).every(([key, check]) => check(value[key]));
+
+const isLegacyMigration = recordGuard<LegacyMigration>({ userId: isText, migratedAt: isText });
+
+const isBudget = recordGuard<Budget>({
+  budgetMode: isBudgetMode,
+  semesterBudget: isCents,
+  startDate: isText,
+  endDate: isText,
+  homeCurrency: isText,
+  spent: isCents,
+  plannedSpending: isCents,
+  rolloverPolicy: optional(oneOf(['none', 'surplus', 'deficit', 'both'])),
+  rolloverCap: optional(isCents),
+  version: optional(isNumber),
+});
+
+const isTrip = recordGuard<Trip>({
+  id: isText,
+  name: isText,
+  destination: isText,
+  startDate: isText,
+  endDate: isText,
+  prepaidCost: isCents,
+  plannedCost: isCents,
+  currency: isText,
+  notes: optional(isText),
+  version: optional(isNumber),
+});
+
+const isWishlistItem = recordGuard<WishlistItem>({
+  id: isText,
+  name: isText,
+  location: isText,
+  estimatedCost: isCents,
+  currency: isText,
+  priority: isPriority,
+  notes: optional(isText),
+  version: optional(isNumber),
+});
+
+const isExpense = recordGuard<Expense>({
+  id: isText,
+  description: isText,
+  amount: isCents,
+  currency: isText,
+  date: isText,
+  categoryId: optional(isText),
+  recurringExpenseId: optional(isText),
+  notes: optional(isText),
+  version: optional(isNumber),
+});
+
+const isCategory = recordGuard<ExpenseCategory>({
+  id: isText,
+  name: isText,
+  color: isText,
+  icon: isText,
+  cap: optional(isCents),
+  capPeriod: oneOf(['monthly', 'semester']),
+  version: optional(isNumber),
+});
+
+const isRecurringExpense = recordGuard<RecurringExpense>({
+  id: isText,
+  description: isText,
+  amount: isCents,
+  currency: isText,
+  categoryId: optional(isText),
+  cadence: oneOf(['weekly', 'monthly', 'yearly']),
+  startDate: isText,
+  endDate: optional(isText),
+  lastPostedDate: optional(isText),
+  notes: optional(isText),
+  version: optional(isNumber),
+});
+
+const isFunding = recordGuard<Funding>({
+  id: isText,
+  name: isText,
+  kind: oneOf(['scholarship', 'family', 'job', 'other']),
+  amount: isCents,
+  currency: isText,
+  expectedDate: isText,
+  receivedDate: optional(isText),
+  notes: optional(isText),
+  version: optional(isNumber),
+});
+
+const isSavingsGoal = recordGuard<SavingsGoal>({
+  id: isText,
+  name: isText,
+  tripId: optional(isText),
+  wishlistItemId: optional(isText),
+  target: isCents,
+  saved: isCents,
+  startDate: isText,
+  targetDate: isText,
+  version: optional(isNumber),
+});
+
+const isExchangeRate = recordGuard<ExchangeRate>({
+  id: isText,
+  baseCurrency: isText,
+  quoteCurrency: isText,
+  rate: isNumber,
+  date: isText,
+  source: oneOf(['manual', 'import']),
+});
+
+const isWeeklyPlanEvent = recordGuard<WeeklyPlanEvent>({
+  id: isText,
+  planId: isText,
+  dayOfWeek: isInteger,
+  eventName: isText,
+  amount: isCents,
+  version: optional(isNumber),
+});
+
+const isWeeklyPlan = recordGuard<WeeklyPlan>({
+  id: isText,
+  weekStart: isText,
+  events: value => Array.isArray(value) && value.every(isWeeklyPlanEvent),
+});
+
+// Every entry of a backup list, or a readable error naming the first one that doesn't fit
+const readList = <T>(value: unknown, isValid: (item: unknown) => item is T, label: string): T[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error(`This backup's ${label} list can't be read`);
+  const index = value.findIndex(item => !isValid(item));
+  if (index !== -1) throw new Error(`This backup has ${label} that can't be read (entry ${index + 1})`);
+  return value as T[];
+};
+
+const text = (value: unknown): string => (isText(value) ? value : '');
+const optionalText = (value: unknown): string | undefined => (isText(value) && value ? value : undefined);
+const decimal = (value: unknown): string | number | undefined => (isDecimal(value) ? value : undefined);
+
+// The old build didn't always use UUIDs, which the database requires. Other ids are turned
+// into a UUID derived from the id itself, so importing the same data twice matches up by id.
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const uuidFromString = (text: string): string => {
+  // Four 32-bit FNV-1a hashes with different seeds make up the 128 bits
+  const hex = [0x811c9dc5, 0x01000193, 0x050c5d1f, 0x1b873593].map(seed => {
+    let hash = seed;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+  }).join('');
+  // Shape it as a version 4 / RFC 4122 variant UUID so any UUID column accepts it
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+};
+
+const legacyId = (kind: string, id: unknown): string => {
+  if (typeof id === 'string' && UUID_PATTERN.test(id)) return id;
+  return id !== undefined && id !== null && id !== '' ? uuidFromString(`${kind}:${id}`) : crypto.randomUUID();
+};
+
+// Version 0 is the localStorage build: amounts in whole currency units (floats), no currencies,
+// trips with estimatedCost/actualCost and free-text expense categories.
+const upgradeFromLegacy = (raw: RawRecord, currency: CurrencyCode): ExportBundle => {
+  const categories: ExpenseCategory[] = [];
+  const categoryIdFor = (name: unknown): string | undefined => {
+    if (typeof name !== 'string' || !name.trim()) return undefined;
+    const trimmed = name.trim();
+    let category = categories.find(c => c.name.toLowerCase() === trimmed.toLowerCase());
+    if (!category) {
+      category = {
+        id: crypto.randomUUID(),
+        name: trimmed,
+        color: CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length],
+        icon: 'tag',
+        capPeriod: 'monthly',
+      };
+      categories.push(category);
+    }
+    return category.id;
+  };
+
+  const budget: Budget | null = isRecord(raw.budget)
+    ? {
+        budgetMode: isBudgetMode(raw.budget.budgetMode) ? raw.budget.budgetMode : 'total',
+        semesterBudget: parseCents(decimal(raw.budget.semesterBudget)),
+        startDate: text(raw.budget.startDate),
+        endDate: text(raw.budget.endDate),
+        homeCurrency: currency,
+        spent: parseCents(decimal(raw.budget.spent)),
+        plannedSpending: parseCents(decimal(raw.budget.plannedSpending)),
+      }
+    : null;
+
+  return {
+    app: 'AbroadBuddy',
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    moneyUnit: 'cents',
+    budget,
+    trips: asRecords(raw.trips).map(trip => ({
+      id: legacyId('trip', trip.id),
+      name: text(trip.name),
+      destination: text(trip.destination),
+      startDate: text(trip.startDate),
+      endDate: text(trip.endDate),
+      ...upgradeLegacyTripCosts(
+        parseCents(decimal(trip.estimatedCost)),
+        isDecimal(trip.actualCost) ? parseCents(trip.actualCost) : undefined
+      ),
+      currency,
+      notes: optionalText(trip.notes),
+    })),
+    wishlist: asRecords(raw.wishlist).map(item => ({
+      id: legacyId('wishlist', item.id),
+      name: text(item.name),
+      location: text(item.location),
+      estimatedCost: parseCents(decimal(item.estimatedCost)),
+      currency,
+      priority: isPriority(item.priority) ? item.priority : 'medium',
+      notes: optionalText(item.notes),
+    })),
+    expenses: asRecords(raw.expenses).map(expense => ({
+      id: legacyId('expense', expense.id),
+      description: text(expense.description),
+      amount: parseCents(decimal(expense.amount)),
+      currency,
+      date: text(expense.date),
+      categoryId: categoryIdFor(expense.category),
+      notes: optionalText(expense.notes),
+    })),
+    categories,
+    recurringExpenses: [],
+    funding: [],
+    savingsGoals: [],
+    exchangeRates: [],
+    weeklyPlans: [],
+  };
+};
+
+// Bring any supported bundle up to the current version. Throws with a readable message
+// when the file isn't an AbroadBuddy backup. The old build had no currencies, so its amounts
+// are taken to be in `legacyCurrency`.
+export const upgradeBundle = (raw: unknown, legacyCurrency: CurrencyCode = DEFAULT_CURRENCY): ExportBundle => {
+  if (!isRecord(raw)) {
+    throw new Error('This file is not an AbroadBuddy backup');
+  }
+  const data = raw;
+
+  if (data.app !== 'AbroadBuddy') {
+    // The old build had no version marker - recognise it by its keys
+    if ('budget' in data || 'trips' in data || 'expenses' in data || 'wishlist' in data) {
+      return upgradeFromLegacy(data, legacyCurrency);
+    }
+    throw new Error('This file is not an AbroadBuddy backup');
+  }
+
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new Error('This backup was made by a newer version of AbroadBuddy');
+  }
+
+  // Version 1: fill in anything missing and convert trips that only carry the legacy costs
+  const budget = isRecord(data.budget) ? { homeCurrency: DEFAULT_CURRENCY, ...data.budget } : null;
+  if (budget && !isBudget(budget)) throw new Error("This backup's budget can't be read");
+
+  const trips = Array.isArray(data.trips)
+    ? data.trips.map(trip => {
+        if (!isRecord(trip)) return trip;
+        if (trip.prepaidCost !== undefined || trip.plannedCost !== undefined) {
+          return { currency: DEFAULT_CURRENCY, prepaidCost: 0, plannedCost: 0, ...trip };
+        }
+        const { estimatedCost, actualCost, ...rest } = trip;
+        return {
+          currency: DEFAULT_CURRENCY,
+          ...rest,
+          ...upgradeLegacyTripCosts(isCents(estimatedCost) ? estimatedCost : undefined, isCents(actualCost) ? actualCost : undefined),
+        };
+      })
+    : data.trips;
+
+  return {
+    app: 'AbroadBuddy',
+    version: EXPORT_VERSION,
+    exportedAt: text(data.exportedAt),
+    moneyUnit: 'cents',
+    budget,
+    trips: readList(trips, isTrip, 'a trip'),
+    wishlist: readList(data.wishlist, isWishlistItem, 'a wishlist item'),
+    expenses: readList(data.expenses, isExpense, 'an expense'),
+    categories: readList(data.categories, isCategory, 'a category'),
+    recurringExpenses: readList(data.recurringExpenses, isRecurringExpense, 'a recurring expense'),
+    funding: readList(data.funding, isFunding, 'a funding entry'),
+    savingsGoals: readList(data.savingsGoals, isSavingsGoal, 'a savings goal'),
+    exchangeRates: readList(data.exchangeRates, isExchangeRate, 'an exchange rate'),
+    weeklyPlans: readList(data.weeklyPlans, isWeeklyPlan, 'a weekly plan'),
+  };
+};
+
+// Compare two records ignoring key order and undefined values
+const sameRecord = (a: unknown, b: unknown): boolean => {
+  const normalize = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(normalize);
+    if (isRecord(value)) {
+      return Object.keys(value)
+        .filter(key => value[key] !== undefined)
+        .sort()
+        .reduce((result, key) => ({ ...result, [key]: normalize(value[key]) }), {});
+    }
+    return value;
+  };
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+};
+
+const planEntities = <T>(
+  mode: RestoreMode,
+  incoming: T[],
+  current: T[],
+  keyOf: (item: T) => string
+): EntityPlan<T> => {
+  if (mode === 'replace') {
+    return { create: incoming, update: [], skip: [], remove: current };
+  }
+
+  const plan: EntityPlan<T> = { create: [], update: [], skip: [], remove: [] };
+  const existing = new Map(current.map(item => [keyOf(item), item]));
+  incoming.forEach(item => {
+    const match = existing.get(keyOf(item));
+    if (!match) {
+      plan.create.push(item);
+    } else if (sameRecord(match, item)) {
+      plan.skip.push(item);
+    } else {
+      plan.update.push(item);
+    }
+  });
+  return plan;
+};
+
+// Work out what restoring `incoming` over the account's `current` data would do, without
+// writing anything. In merge mode records are matched by id (rates by pair and date, weekly
+// plans by week), and categories with the same name are reused so names stay unique.
+export const planRestore = (incoming: ExportBundle, current: ExportBundle, mode: RestoreMode): RestorePlan => {
+  let bundle = incoming;
+
+  if (mode === 'merge') {
+    const remap = new Map<string, string>();
+    incoming.categories.forEach(category => {
+      const existing = current.categories.find(c => c.name.toLowerCase() === category.name.toLowerCase());
+      if (existing && existing.id !== category.id) remap.set(category.id, existing.id);
+    });
+    if (remap.size > 0) {
+      const mapId = (id?: string) => (id && remap.get(id)) || id;
+      bundle = {
+        ...incoming,
+        // A category matched by name keeps the account's own name, colour and cap
+        categories: incoming.categories.map(c => current.categories.find(existing => existing.id === remap.get(c.id)) || c),
+        expenses: incoming.expenses.map(e => ({ ...e, categoryId: mapId(e.categoryId) })),
+        recurringExpenses: incoming.recurringExpenses.map(r => ({ ...r, categoryId: mapId(r.categoryId) })),
+      };
+    }
+  }
+
+  const weeklyEvents = (plans: ExportBundle['weeklyPlans']): PlannedWeeklyEvent[] =>
+    plans.flatMap(plan => plan.events.map(event => ({ weekStart: plan.weekStart, event })));
+
+  return {
+    mode,
+    bundle,
+    budget: !bundle.budget
+      ? 'skip'
+      : !current.budget
+        ? 'create'
+        : mode === 'merge' && sameRecord(current.budget, bundle.budget) ? 'skip' : 'update',
+    categories: planEntities(mode, bundle.categories, current.categories, c => c.id),
+    trips: planEntities(mode, bundle.trips, current.trips, t => t.id),
+    wishlist: planEntities(mode, bundle.wishlist, current.wishlist, w => w.id),
+    expenses: planEntities(mode, bundle.expenses, current.expenses, e => e.id),
+    recurringExpenses: planEntities(mode, bundle.recurringExpenses, current.recurringExpenses, r => r.id),
+    funding: planEntities(mode, bundle.funding, current.funding, f => f.id),
+    savingsGoals: planEntities(mode, bundle.savingsGoals, current.savingsGoals, g => g.id),
+    exchangeRates: planEntities(
+      mode,
+      bundle.exchangeRates,
+      current.exchangeRates,
+      r => `${r.baseCurrency}|${r.quoteCurrency}|${r.date}`
+    ),
+    // Events are re-created under this account's plan ids, so they match on week and content
+    weeklyPlanEvents: planEntities(
+      mode,
+      weeklyEvents(bundle.weeklyPlans),
+      weeklyEvents(current.weeklyPlans),
+      ({ weekStart, event }) => `${weekStart}|${event.dayOfWeek}|${event.eventName}|${event.amount}`
+    ),
+  };
+};
+
+// Moving the old build's data into an account: merge, and never overwrite a budget the
+// account already has
+export const planLegacyMigration = (legacy: unknown, current: ExportBundle): RestorePlan => {
+  const plan = planRestore(upgradeBundle(legacy, getHomeCurrency(current.budget)), current, 'merge');
+  return current.budget ? { ...plan, budget: 'skip' } : plan;
+};
+
+export const summarizePlan = (plan: RestorePlan) => {
+  const row = (label: string, entity: EntityPlan<unknown>) => ({
+    label,
+    create: entity.create.length,
+    update: entity.update.length,
+    skip: entity.skip.length,
+    remove: entity.remove.length,
+  });
+
+  return [
+    row('Categories', plan.categories),
+    row('Trips', plan.trips),
+    row('Wishlist', plan.wishlist),
+    row('Expenses', plan.expenses),
+    row('Recurring expenses', plan.recurringExpenses),
+    row('Funding', plan.funding),
+    row('Savings goals', plan.savingsGoals),
+    row('Exchange rates', plan.exchangeRates),
+    row('Weekly plan events', plan.weeklyPlanEvents),
+  ];
+};
+
+export const planHasChanges = (plan: RestorePlan): boolean =>
+  plan.budget !== 'skip' || summarizePlan(plan).some(row => row.create + row.update + row.remove > 0);
+
+// Carry out a restore plan. Deletes run first (children before parents) and creates run
+// parents first, so category and recurring-series references are always valid.
+export const applyRestore = async (
+  plan: RestorePlan,
+  current: ExportBundle,
+  storage: StorageBackend
+): Promise<void> => {
+  if (plan.mode === 'replace') {
+    for (const expense of plan.expenses.remove) await storage.deleteExpense(expense.id);
+    for (const series of plan.recurringExpenses.remove) await storage.deleteRecurringExpense(series.id);
+    for (const item of plan.funding.remove) await storage.deleteFunding(item.id);
+    for (const goal of plan.savingsGoals.remove) await storage.deleteSavingsGoal(goal.id);
+    for (const trip of plan.trips.remove) await storage.deleteTrip(trip.id);
+    for (const item of plan.wishlist.remove) await storage.deleteWishlistItem(item.id);
+    for (const rate of plan.exchangeRates.remove) await storage.rates.deleteRate(rate.id);
+    for (const weeklyPlan of current.weeklyPlans) await storage.deleteWeeklyPlan(weeklyPlan.id);
+    for (const category of plan.categories.remove) await storage.deleteCategory(category.id);
+  }
+
+  if (plan.bundle.budget && plan.budget !== 'skip') {
+    await storage.saveBudget(plan.bundle.budget, { reason: 'restore' });
+  }
+
+  for (const category of plan.categories.create) await storage.addCategory(category);
+  for (const category of plan.categories.update) await storage.updateCategory(category.id, category);
+
+  const newRates = [...plan.exchangeRates.create, ...plan.exchangeRates.update];
+  if (newRates.length > 0) {
+    await storage.rates.saveRates(newRates.map(rate => ({
+      baseCurrency: rate.baseCurrency,
+      quoteCurrency: rate.quoteCurrency,
+      rate: rate.rate,
+      date: rate.date,
+      source: rate.source,
+    })));
+  }
+
+  // A deleted copy still in the trash would block bringing the record back under its own id
+  const trashed = new Set((await storage.getTrash()).map(item => `${item.kind}:${item.record.id}`));
+  const clearTrash = async (kind: TrashKind, records: { id: string }[]) => {
+    for (const record of records) {
+      if (trashed.has(`${kind}:${record.id}`)) await storage.deletePermanently(kind, record.id);
+    }
+  };
+  await clearTrash('trip', plan.trips.create);
+  await clearTrash('wishlistItem', plan.wishlist.create);
+  await clearTrash('expense', plan.expenses.create);
+
+  for (const trip of plan.trips.create) await storage.addTrip(trip);
+  for (const trip of plan.trips.update) await storage.updateTrip(trip.id, trip);
+  for (const item of plan.wishlist.create) await storage.addWishlistItem(item);
+  for (const item of plan.wishlist.update) await storage.updateWishlistItem(item.id, item);
+  for (const item of plan.funding.create) await storage.addFunding(item);
+  for (const item of plan.funding.update) await storage.updateFunding(item.id, item);
+  for (const goal of plan.savingsGoals.create) await storage.addSavingsGoal(goal);
+  for (const goal of plan.savingsGoals.update) await storage.updateSavingsGoal(goal.id, goal);
+  for (const series of plan.recurringExpenses.create) await storage.addRecurringExpense(series);
+  for (const series of plan.recurringExpenses.update) await storage.updateRecurringExpense(series.id, series);
+
+  await storage.addExpenses(plan.expenses.create);
+  for (const expense of plan.expenses.update) await storage.updateExpense(expense.id, expense);
+
+  for (const { weekStart, event } of plan.weeklyPlanEvents.create) {
+    const weeklyPlan = await storage.createOrGetWeeklyPlan(weekStart);
+    await storage.addWeeklyPlanEvent(weeklyPlan.id, {
+      dayOfWeek: event.dayOfWeek,
+      eventName: event.eventName,
+      amount: event.amount,
+    });
+  }
+};
@@ -0,0 +1,9 @@
+// The message to show for something that was thrown. Supabase rejects with plain `{ message }`
+// objects rather than Errors, so both are read.
+export const errorMessage = (error: unknown): string => {
+  if (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string' && error.message) {
+    return error.message;
+  }
+  if (typeof error === 'string' && error) return error;
+  return 'Unknown error';
+};
@@ -0,0 +1,98 @@
+import { Budget, Cents, CurrencyCode, ExchangeRate } from '../types';
+import { getHomeCurrency } from './currency';
+import { multiplyCents } from './money';
+
+export type CurrencyConverter = (amount: Cents, currency: CurrencyCode | undefined, date?: string) => Cents;
+
+// Find the rate to convert `from` into `to` on a given date.
+// Uses the latest rate on or before the date (either direction of the pair), falls back to
+// the earliest known rate when the date is older than all of them, and returns null when
+// the pair has no rates at all. Without a date, the most recent rate is used.
+export const findRate = (
+  rates: ExchangeRate[],
+  from: CurrencyCode,
+  to: CurrencyCode,
+  date?: string
+): number | null => {
+  if (from === to) return 1;
+
+  const candidates = rates
+    .filter(r => (r.baseCurrency === from && r.quoteCurrency === to) || (r.baseCurrency === to && r.quoteCurrency === from))
+    .map(r => ({
+      date: r.date,
+      rate: r.baseCurrency === from ? r.rate : 1 / r.rate,
+      direct: r.baseCurrency === from,
+    }))
+    // Newest first; on the same date prefer the rate entered for this direction
+    .sort((a, b) => (a.date === b.date ? Number(b.direct) - Number(a.direct) : b.date.localeCompare(a.date)));
+
+  if (candidates.length === 0) return null;
+  if (!date) return candidates[0].rate;
+
+  const onOrBefore = candidates.find(c => c.date <= date);
+  return onOrBefore ? onOrBefore.rate : candidates[candidates.length - 1].rate;
+};
+
+// Build a converter into the budget's home currency. Amounts without a known rate are counted
+// 1:1 - use getMissingRates to warn the user about them.
+export const createConverter = (budget: Budget | null, rates: ExchangeRate[]): CurrencyConverter => {
+  const home = getHomeCurrency(budget);
+
+  return (amount, currency, date) => {
+    if (!currency || currency === home) return amount;
+
+    const rate = findRate(rates, currency, home, date);
+    return rate === null ? amount : multiplyCents(amount, rate);
+  };
+};
+
+// List the foreign currencies in use that have no rate to the home currency
+export const getMissingRates = (
+  currencies: (CurrencyCode | undefined)[],
+  budget: Budget | null,
+  rates: ExchangeRate[]
+): CurrencyCode[] => {
+  const home = getHomeCurrency(budget);
+  const missing = new Set<CurrencyCode>();
+
+  currencies.forEach(currency => {
+    if (currency && currency !== home && findRate(rates, currency, home) === null) {
+      missing.add(currency);
+    }
+  });
+
+  return Array.from(missing);
+};
+
+// Parse pasted rate history, one rate per line: "date,base,quote,rate" (e.g. "2024-09-01,EUR,USD,1.08").
+// A header line and blank lines are skipped; invalid lines are reported by line number.
+export const parseRatesImport = (text: string): {
+  rates: Omit<ExchangeRate, 'id'>[];
+  errors: string[];
+} => {
+  const rates: Omit<ExchangeRate, 'id'>[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || /^date\b/i.test(trimmed)) return;
+
+    const [date, base, quote, rateText] = trimmed.split(/[,;\t]/).map(part => part.trim());
+    const rate = parseFloat(rateText);
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date || '') || !/^[A-Za-z]{3}$/.test(base || '') || !/^[A-Za-z]{3}$/.test(quote || '') || !(rate > 0)) {
+      errors.push(`Line ${index + 1}: expected "date,base,quote,rate"`);
+      return;
+    }
+
+    rates.push({
+      baseCurrency: base.toUpperCase(),
+      quoteCurrency: quote.toUpperCase(),
+      rate,
+      date,
+      source: 'import',
+    });
+  });
+
+  return { rates, errors };
+};
@@ -0,0 +1,667 @@
+import { format, subDays } from 'date-fns';
+import {
+  Budget,
+  BudgetChange,
+  BudgetScenario,
+  BudgetSettings,
+  Trip,
+  WishlistItem,
+  Expense,
+  ExpenseCategory,
+  RecurringExpense,
+  Funding,
+  SavingsGoal,
+  WeeklyPlan,
+  ExchangeRate,
+} from '../types';
+import { CsvImportPreset } from './csvImport';
+import { getDueOccurrences } from './recurring';
+import { calculateSpentAndPlanned } from './budgetCalculations';
+import {
+  AuthEvent,
+  StorageBackend,
+  StorageBackendKind,
+  StorageConflictError,
+  StorageUser,
+  TRASH_DAYS,
+  TrashItem,
+  TrashKind,
+} from './storageBackend';
+
+// Everything one user has, as the in-memory and localStorage backends keep it
+export interface MemoryStorageData {
+  budget: Budget | null;
+  trips: Trip[];
+  wishlist: WishlistItem[];
+  expenses: Expense[];
+  categories: ExpenseCategory[];
+  recurringExpenses: RecurringExpense[];
+  funding: Funding[];
+  savingsGoals: SavingsGoal[];
+  csvPresets: CsvImportPreset[];
+  scenarios: BudgetScenario[];
+  exchangeRates: ExchangeRate[];
+  weeklyPlans: WeeklyPlan[];
+  trash: TrashItem[];
+  budgetChanges: BudgetChange[];
+}
+
+export interface MemoryBackendOptions {
+  kind?: StorageBackendKind;
+  initialData?: Partial<MemoryStorageData>;
+  // Signed in from the start; pass null to start signed out
+  user?: StorageUser | null;
+  // Called after every write with the full data set (the localStorage backend persists it here)
+  onChange?: (data: MemoryStorageData) => void;
+}
+
+// The in-memory backend also lets its owner swap data in and out (used by the offline cache)
+export interface MemoryBackend extends StorageBackend {
+  getData(): MemoryStorageData;
+  replaceData(data: Partial<MemoryStorageData>): void;
+}
+
+export const emptyStorageData = (): MemoryStorageData => ({
+  budget: null,
+  trips: [],
+  wishlist: [],
+  expenses: [],
+  categories: [],
+  recurringExpenses: [],
+  funding: [],
+  savingsGoals: [],
+  csvPresets: [],
+  scenarios: [],
+  exchangeRates: [],
+  weeklyPlans: [],
+  trash: [],
+  budgetChanges: [],
+});
+
+// What the budget audit log keeps of a budget
+// (an unset policy is 'none', as on the server)
+const toSettings = ({ budgetMode, semesterBudget, startDate, endDate, homeCurrency, rolloverPolicy, rolloverCap }: Budget): BudgetSettings =>
+  ({ budgetMode, semesterBudget, startDate, endDate, homeCurrency, rolloverPolicy: rolloverPolicy ?? 'none', rolloverCap });
+
+const sameSettings = (a: BudgetSettings, b: BudgetSettings) =>
+  (Object.keys(a) as (keyof BudgetSettings)[]).every(key => a[key] === b[key]);
+
+// Where each kind of trashed record lives while it isn't deleted
+const TRASH_COLLECTIONS: Record<TrashKind, 'trips' | 'expenses' | 'wishlist'> = {
+  trip: 'trips',
+  expense: 'expenses',
+  wishlistItem: 'wishlist',
+};
+
+export const LOCAL_USER: StorageUser = {
+  id: 'local',
+  email: 'local@abroadbuddy',
+  createdAt: new Date(0).toISOString(),
+};
+
+// Callers get copies, so editing a returned object never changes the stored one
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+const byField = <T>(field: keyof T, descending = false) => (a: T, b: T) => {
+  const result = String(a[field]).localeCompare(String(b[field]));
+  return descending ? -result : result;
+};
+
+// A complete backend that keeps data in memory. It mirrors the Supabase backend's ordering,
+// uniqueness and delete rules, so DataContext and components behave the same on top of it.
+export const createMemoryBackend = (options: MemoryBackendOptions = {}): MemoryBackend => {
+  const data: MemoryStorageData = { ...emptyStorageData(), ...clone(options.initialData || {}) };
+  let user: StorageUser | null = options.user === undefined ? LOCAL_USER : options.user;
+  const listeners = new Set<(event: AuthEvent, user: StorageUser | null) => void>();
+
+  const notifyAuth = (event: AuthEvent) => listeners.forEach(listener => listener(event, user));
+
+  const requireUser = () => {
+    if (!user) throw new Error('User not authenticated');
+  };
+
+  const commit = () => {
+    options.onChange?.(clone(data));
+  };
+
+  const findOrThrow = <T extends { id: string }>(items: T[], id: string): T => {
+    const item = items.find(entry => entry.id === id);
+    if (!item) throw new Error('Record not found');
+    return item;
+  };
+
+  // Row versions work as on the server: new records start at 1, every update bumps the version,
+  // and an update carrying a stale one is rejected
+  const insert = <T extends { id: string; version?: number }>(items: T[], item: T) => {
+    if (items.some(entry => entry.id === item.id)) throw new Error('A record with this id already exists');
+    items.push(clone({ ...item, version: 1 }));
+  };
+
+  const checkVersion = <T extends { version?: number }>(current: T | undefined, version: number | null | undefined) => {
+    if (typeof version === 'number' && current?.version !== version) {
+      throw new StorageConflictError(current ? clone(current) : null);
+    }
+  };
+
+  const update = <T extends { id: string; version?: number }>(items: T[], id: string, updates: Partial<T>) => {
+    const index = items.findIndex(entry => entry.id === id);
+    checkVersion(items[index], updates.version);
+    if (index >= 0) items[index] = clone({ ...items[index], ...updates, id, version: (items[index].version ?? 0) + 1 });
+  };
+
+  const remove = <T extends { id: string }>(items: T[], id: string): T[] => items.filter(entry => entry.id !== id);
+
+  // Deleting only stamps the record on the server, which bumps its version like any update
+  const moveToTrash = (kind: TrashKind, id: string) => {
+    const key = TRASH_COLLECTIONS[kind];
+    const items = data[key] as (Trip | Expense | WishlistItem)[];
+    const record = items.find(entry => entry.id === id);
+    if (!record) return;
+    data[key] = remove(items, id) as never;
+    data.trash.push({ kind, record: { ...record, version: (record.version ?? 0) + 1 }, deletedAt: new Date().toISOString() } as TrashItem);
+  };
+
+  // Removing a trip or wishlist item for good unlinks the goals saving for it, as the database does
+  const unlinkGoals = (kind: TrashKind, ids: string[]) => {
+    const field = kind === 'trip' ? 'tripId' : kind === 'wishlistItem' ? 'wishlistItemId' : null;
+    if (!field) return;
+    data.savingsGoals = data.savingsGoals.map(goal =>
+      goal[field] && ids.includes(goal[field]!) ? { ...goal, [field]: undefined, version: (goal.version ?? 0) + 1 } : goal
+    );
+  };
+
+  const isTrashed = (kind: TrashKind, id: string) => (entry: TrashItem) => entry.kind === kind && entry.record.id === id;
+
+  const read = <T>(value: T): Promise<T> => Promise.resolve(user ? clone(value) : (Array.isArray(value) ? [] : null) as T);
+
+  const findEvent = (eventId: string) => {
+    for (const plan of data.weeklyPlans) {
+      const event = plan.events.find(entry => entry.id === eventId);
+      if (event) return { plan, event };
+    }
+    return null;
+  };
+
+  const backend: MemoryBackend = {
+    kind: options.kind || 'memory',
+
+    getData() {
+      return clone(data);
+    },
+
+    replaceData(newData) {
+      Object.assign(data, clone(newData));
+      commit();
+    },
+
+    auth: {
+      async getUser() {
+        return user;
+      },
+
+      onAuthStateChange(callback) {
+        listeners.add(callback);
+        return () => {
+          listeners.delete(callback);
+        };
+      },
+
+      // There are no accounts here - any sign-in just opens this device's data
+      async signIn(email) {
+        user = { ...LOCAL_USER, email };
+        notifyAuth('SIGNED_IN');
+      },
+
+      async signUp(email) {
+        user = { ...LOCAL_USER, email };
+        notifyAuth('SIGNED_IN');
+        return { needsConfirmation: false };
+      },
+
+      async signOut() {
+        user = null;
+        notifyAuth('SIGNED_OUT');
+      },
+    },
+
+    rates: {
+      getCachedRates() {
+        return clone(data.exchangeRates);
+      },
+
+      clearCache() {
+        // Nothing cached separately - the rates are the stored data
+      },
+
+      async getRates() {
+        return read([...data.exchangeRates].sort(byField('date')));
+      },
+
+      async saveRates(newRates) {
+        requireUser();
+        const saved = newRates.map(rate => {
+          const existing = data.exchangeRates.find(entry =>
+            entry.baseCurrency === rate.baseCurrency && entry.quoteCurrency === rate.quoteCurrency && entry.date === rate.date
+          );
+          const savedRate = { ...rate, id: existing?.id || crypto.randomUUID() };
+          data.exchangeRates = [...remove(data.exchangeRates, savedRate.id), savedRate];
+          return savedRate;
+        });
+        commit();
+        return clone(saved);
+      },
+
+      async deleteRate(id) {
+        requireUser();
+        data.exchangeRates = remove(data.exchangeRates, id);
+        commit();
+      },
+    },
+
+    // Budget
+    async getBudget() {
+      return read(data.budget);
+    },
+
+    async saveBudget(budget, change) {
+      requireUser();
+      // As on the server, a budget that's gone is simply saved again
+      if (data.budget) checkVersion(data.budget, budget.version);
+      const before = data.budget && toSettings(data.budget);
+      const after = toSettings(budget);
+      // Saves that only recalculate the totals aren't logged
+      if (!before || !sameSettings(before, after)) {
+        data.budgetChanges.push({
+          id: crypto.randomUUID(),
+          changedAt: new Date().toISOString(),
+          reason: change?.reason ?? (before ? 'edit' : 'setup'),
+          note: change?.note || undefined,
+          before,
+          after,
+        });
+      }
+      data.budget = clone({ ...budget, version: data.budget ? (data.budget.version ?? 0) + 1 : 1 });
+      commit();
+    },
+
+    async getBudgetChanges() {
+      // Reversed first so changes made in the same millisecond still list newest first
+      return read([...data.budgetChanges].reverse().sort(byField('changedAt', true)));
+    },
+
+    // Trips
+    async getTrips() {
+      return read([...data.trips].sort(byField('startDate')));
+    },
+
+    async addTrip(trip) {
+      requireUser();
+      insert(data.trips, trip);
+      commit();
+    },
+
+    async updateTrip(id, updates) {
+      requireUser();
+      update(data.trips, id, updates);
+      commit();
+    },
+
+    async deleteTrip(id) {
+      requireUser();
+      moveToTrash('trip', id);
+      commit();
+    },
+
+    // Wishlist (newest first)
+    async getWishlist() {
+      return read([...data.wishlist].reverse());
+    },
+
+    async addWishlistItem(item) {
+      requireUser();
+      insert(data.wishlist, item);
+      commit();
+    },
+
+    async updateWishlistItem(id, updates) {
+      requireUser();
+      update(data.wishlist, id, updates);
+      commit();
+    },
+
+    async deleteWishlistItem(id) {
+      requireUser();
+      moveToTrash('wishlistItem', id);
+      commit();
+    },
+
+    // Expenses (most recent first)
+    async getExpenses() {
+      return read([...data.expenses].sort(byField('date', true)));
+    },
+
+    async addExpense(expense) {
+      requireUser();
+      insert(data.expenses, expense);
+      commit();
+    },
+
+    async addExpenses(expenses) {
+      requireUser();
+      if (expenses.length === 0) return;
+      expenses.forEach(expense => insert(data.expenses, expense));
+      commit();
+    },
+
+    async updateExpense(id, updates) {
+      requireUser();
+      update(data.expenses, id, updates);
+      commit();
+    },
+
+    async deleteExpense(id) {
+      requireUser();
+      moveToTrash('expense', id);
+      commit();
+    },
+
+    // Trash (newest deletion first)
+    async getTrash() {
+      return read([...data.trash].sort(byField('deletedAt', true)));
+    },
+
+    async restoreFromTrash(kind, id) {
+      requireUser();
+      const entry = data.trash.find(isTrashed(kind, id));
+      if (!entry) throw new Error('Record not found');
+      data.trash = data.trash.filter(other => other !== entry);
+      const record = { ...entry.record, version: (entry.record.version ?? 0) + 1 };
+      (data[TRASH_COLLECTIONS[kind]] as (typeof record)[]).push(record);
+      commit();
+    },
+
+    async deletePermanently(kind, id) {
+      requireUser();
+      const key = TRASH_COLLECTIONS[kind];
+      data[key] = remove(data[key] as { id: string }[], id) as never;
+      data.trash = data.trash.filter(entry => !isTrashed(kind, id)(entry));
+      unlinkGoals(kind, [id]);
+      commit();
+    },
+
+    async purgeExpiredTrash() {
+      if (!user) return 0;
+      const cutoff = subDays(new Date(), TRASH_DAYS).toISOString();
+      const kept = data.trash.filter(entry => entry.deletedAt >= cutoff);
+      const purged = data.trash.length - kept.length;
+      if (purged > 0) {
+        const expired = data.trash.filter(entry => entry.deletedAt < cutoff);
+        (['trip', 'wishlistItem'] as TrashKind[]).forEach(kind =>
+          unlinkGoals(kind, expired.filter(entry => entry.kind === kind).map(entry => entry.record.id))
+        );
+        data.trash = kept;
+        commit();
+      }
+      return purged;
+    },
+
+    // Categories
+    async getCategories() {
+      return read([...data.categories].sort(byField('name')));
+    },
+
+    async addCategory(category) {
+      requireUser();
+      if (data.categories.some(entry => entry.name === category.name)) {
+        throw new Error('A category with this name already exists');
+      }
+      insert(data.categories, category);
+      commit();
+    },
+
+    async addDefaultCategories(categories) {
+      requireUser();
+      for (const category of categories) {
+        if (!data.categories.some(entry => entry.name === category.name)) insert(data.categories, category);
+      }
+      commit();
+    },
+
+    async updateCategory(id, updates) {
+      requireUser();
+      if (updates.name && data.categories.some(entry => entry.id !== id && entry.name === updates.name)) {
+        throw new Error('A category with this name already exists');
+      }
+      update(data.categories, id, updates);
+      commit();
+    },
+
+    // Expenses and recurring series in the category become uncategorised
+    async deleteCategory(id) {
+      requireUser();
+      data.categories = remove(data.categories, id);
+      data.expenses = data.expenses.map(expense => expense.categoryId === id ? { ...expense, categoryId: undefined, version: (expense.version ?? 0) + 1 } : expense);
+      data.trash = data.trash.map(entry =>
+        entry.kind === 'expense' && entry.record.categoryId === id
+          ? { ...entry, record: { ...entry.record, categoryId: undefined, version: (entry.record.version ?? 0) + 1 } }
+          : entry
+      );
+      data.recurringExpenses = data.recurringExpenses.map(series =>
+        series.categoryId === id ? { ...series, categoryId: undefined, version: (series.version ?? 0) + 1 } : series
+      );
+      commit();
+    },
+
+    // Recurring expenses
+    async getRecurringExpenses() {
+      return read([...data.recurringExpenses].sort(byField('startDate')));
+    },
+
+    async addRecurringExpense(series) {
+      requireUser();
+      insert(data.recurringExpenses, series);
+      commit();
+    },
+
+    async updateRecurringExpense(id, updates) {
+      requireUser();
+      update(data.recurringExpenses, id, updates);
+      commit();
+    },
+
+    // Posted expenses are kept and just lose the link
+    async deleteRecurringExpense(id) {
+      requireUser();
+      data.recurringExpenses = remove(data.recurringExpenses, id);
+      data.expenses = data.expenses.map(expense =>
+        expense.recurringExpenseId === id ? { ...expense, recurringExpenseId: undefined, version: (expense.version ?? 0) + 1 } : expense
+      );
+      data.trash = data.trash.map(entry =>
+        entry.kind === 'expense' && entry.record.recurringExpenseId === id
+          ? { ...entry, record: { ...entry.record, recurringExpenseId: undefined, version: (entry.record.version ?? 0) + 1 } }
+          : entry
+      );
+      commit();
+    },
+
+    async postDueRecurringExpenses() {
+      if (!user) return 0;
+      const today = format(new Date(), 'yyyy-MM-dd');
+      let postedCount = 0;
+
+      data.recurringExpenses.forEach(series => {
+        const dates = getDueOccurrences(series, today);
+        if (dates.length === 0) return;
+
+        dates.forEach(date => {
+          // One expense per series and date, like the unique index in the database - which
+          // counts ones in the trash too
+          const posted = [...data.expenses, ...data.trash.flatMap(entry => entry.kind === 'expense' ? [entry.record] : [])];
+          if (posted.some(expense => expense.recurringExpenseId === series.id && expense.date === date)) return;
+          data.expenses.push({
+            id: crypto.randomUUID(),
+            description: series.description,
+            amount: series.amount,
+            currency: series.currency,
+            date,
+            categoryId: series.categoryId,
+            recurringExpenseId: series.id,
+            notes: series.notes,
+            version: 1,
+          });
+          postedCount++;
+        });
+        series.lastPostedDate = dates[dates.length - 1];
+        series.version = (series.version ?? 0) + 1;
+      });
+
+      commit();
+      return postedCount;
+    },
+
+    // Funding
+    async getFunding() {
+      return read([...data.funding].sort(byField('expectedDate')));
+    },
+
+    async addFunding(funding) {
+      requireUser();
+      insert(data.funding, funding);
+      commit();
+    },
+
+    async updateFunding(id, updates) {
+      requireUser();
+      update(data.funding, id, updates);
+      commit();
+    },
+
+    async deleteFunding(id) {
+      requireUser();
+      data.funding = remove(data.funding, id);
+      commit();
+    },
+
+    // Savings goals (by target date)
+    async getSavingsGoals() {
+      return read([...data.savingsGoals].sort(byField('targetDate')));
+    },
+
+    async addSavingsGoal(goal) {
+      requireUser();
+      insert(data.savingsGoals, goal);
+      commit();
+    },
+
+    async updateSavingsGoal(id, updates) {
+      requireUser();
+      update(data.savingsGoals, id, updates);
+      commit();
+    },
+
+    async deleteSavingsGoal(id) {
+      requireUser();
+      data.savingsGoals = remove(data.savingsGoals, id);
+      commit();
+    },
+
+    // CSV import presets - saving under an existing name replaces that preset
+    async getCsvPresets() {
+      return read([...data.csvPresets].sort(byField('name')));
+    },
+
+    async saveCsvPreset(preset) {
+      requireUser();
+      data.csvPresets = [...data.csvPresets.filter(entry => entry.name !== preset.name && entry.id !== preset.id), clone(preset)];
+      commit();
+    },
+
+    async deleteCsvPreset(id) {
+      requireUser();
+      data.csvPresets = remove(data.csvPresets, id);
+      commit();
+    },
+
+    // What-if scenarios - saving under an existing name replaces that scenario
+    async getScenarios() {
+      return read([...data.scenarios].sort(byField('name')));
+    },
+
+    async saveScenario(scenario) {
+      requireUser();
+      data.scenarios = [...data.scenarios.filter(entry => entry.name !== scenario.name && entry.id !== scenario.id), clone(scenario)];
+      commit();
+    },
+
+    async deleteScenario(id) {
+      requireUser();
+      data.scenarios = remove(data.scenarios, id);
+      commit();
+    },
+
+    // Totals
+    async calculateTotalSpent() {
+      return (await this.calculateSpentAndPlanned()).spent;
+    },
+
+    async calculateTotalPlanned() {
+      return (await this.calculateSpentAndPlanned()).planned;
+    },
+
+    async calculateSpentAndPlanned() {
+      return calculateSpentAndPlanned(data.budget, data.trips, data.expenses, data.recurringExpenses, data.exchangeRates);
+    },
+
+    // Weekly plans
+    async getWeeklyPlan(weekStart) {
+      return read(data.weeklyPlans.find(plan => plan.weekStart === weekStart) || null);
+    },
+
+    async getWeeklyPlans() {
+      return read([...data.weeklyPlans].sort(byField('weekStart')));
+    },
+
+    async createOrGetWeeklyPlan(weekStart, id) {
+      requireUser();
+      const existing = data.weeklyPlans.find(plan => plan.weekStart === weekStart);
+      if (existing) return clone(existing);
+
+      const plan: WeeklyPlan = { id: id || crypto.randomUUID(), weekStart, events: [] };
+      data.weeklyPlans.push(plan);
+      commit();
+      return clone(plan);
+    },
+
+    async addWeeklyPlanEvent(planId, event, id) {
+      requireUser();
+      const plan = findOrThrow(data.weeklyPlans, planId);
+      const saved = { ...clone(event), id: id || crypto.randomUUID(), planId, version: 1 };
+      plan.events.push(saved);
+      commit();
+      return clone(saved);
+    },
+
+    async updateWeeklyPlanEvent(eventId, updates) {
+      requireUser();
+      const found = findEvent(eventId);
+      checkVersion(found?.event, updates.version);
+      if (found) Object.assign(found.event, clone({ ...found.event, ...updates, version: (found.event.version ?? 0) + 1 }));
+      commit();
+    },
+
+    async deleteWeeklyPlanEvent(eventId) {
+      requireUser();
+      const found = findEvent(eventId);
+      if (found) found.plan.events = remove(found.plan.events, eventId);
+      commit();
+    },
+
+    async deleteWeeklyPlan(planId) {
+      requireUser();
+      data.weeklyPlans = remove(data.weeklyPlans, planId);
+      commit();
+    },
+  };
+
+  return backend;
+};
@@ -0,0 +1,74 @@
+import { Cents, CurrencyCode } from '../types';
+
+// All money in the app is held as integer cents (minor units) so sums and comparisons are exact.
+// Only parse at the edges (database rows, form inputs) and only divide by 100 when formatting.
+
+// Parse a decimal value such as a Supabase DECIMAL column ("12.30") into cents without going
+// through float arithmetic. null/undefined/invalid input gives 0.
+export const parseCents = (value: string | number | null | undefined): Cents => {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === 'number') return Number.isFinite(value) ? Math.round(value * 100) : 0;
+
+  const match = value.trim().match(/^(-)?(\d*)(?:\.(\d*))?$/);
+  if (!match || (!match[2] && !match[3])) return 0;
+
+  const [, sign, whole, fraction = ''] = match;
+  // Round half up on the third decimal, e.g. "1.005" -> 101
+  const padded = (fraction + '000').slice(0, 3);
+  const cents = parseInt(whole || '0', 10) * 100 + parseInt(padded.slice(0, 2), 10) + (parseInt(padded[2], 10) >= 5 ? 1 : 0);
+
+  return sign ? -cents : cents;
+};
+
+// Parse what the user typed into an amount field. Returns null for empty or invalid input.
+export const parseMoneyInput = (input: string): Cents | null => {
+  const trimmed = input.trim().replace(/,/g, '');
+  if (!/^-?(\d+\.?\d*|\.\d+)$/.test(trimmed)) return null;
+  return parseCents(trimmed);
+};
+
+// Cents as a plain decimal string, e.g. 1230 -> "12.30" (database writes and form prefill)
+export const centsToDecimal = (cents: Cents): string => {
+  const sign = cents < 0 ? '-' : '';
+  const abs = Math.abs(Math.round(cents));
+  return `${sign}${Math.floor(abs / 100)}.${(abs % 100).toString().padStart(2, '0')}`;
+};
+
+export const sumCents = <T>(items: T[], getAmount: (item: T) => Cents): Cents => {
+  return items.reduce((sum, item) => sum + getAmount(item), 0);
+};
+
+// Scale an amount (exchange rate, proration) and round back to whole cents
+export const multiplyCents = (cents: Cents, factor: number): Cents => {
+  return Math.round(cents * factor);
+};
+
+// Split an amount into `parts` and round each share to whole cents
+export const divideCents = (cents: Cents, parts: number): Cents => {
+  return parts > 0 ? Math.round(cents / parts) : 0;
+};
+
+export const compareCents = (a: Cents, b: Cents): number => {
+  return Math.sign(a - b);
+};
+
+// Format cents with the currency symbol, e.g. 1250 EUR -> "€12.50"
+export const formatMoney = (
+  cents: Cents,
+  currency: CurrencyCode,
+  fractionDigits: number = 2
+): string => {
+  const amount = cents / 100;
+
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    }).format(amount);
+  } catch (e) {
+    // Unknown currency code - fall back to a plain number with the code
+    return `${currency} ${amount.toFixed(fractionDigits)}`;
+  }
+};
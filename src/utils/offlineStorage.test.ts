@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Budget, ExpenseCategory } from '../types';
+import { createMemoryBackend, MemoryStorageData } from './memoryStorage';
+import { createOfflineBackend } from './offlineStorage';
+
+const category: ExpenseCategory = { id: 'food', name: 'Food', color: '#22c55e', icon: 'utensils', cap: 5000, capPeriod: 'monthly' };
+
+const budget: Budget = {
+  budgetMode: 'total',
+  semesterBudget: 100000,
+  startDate: '2024-01-01',
+  endDate: '2024-06-30',
+  homeCurrency: 'EUR',
+  spent: 0,
+  plannedSpending: 0,
+  rolloverPolicy: 'both',
+  rolloverCap: 1000,
+};
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    },
+  };
+};
+
+// A fresh page: its own window, so backends from earlier "page loads" stop listening
+const openPage = (onLine: boolean) => {
+  vi.stubGlobal('window', new EventTarget());
+  vi.stubGlobal('navigator', { onLine });
+};
+
+describe('offline write queue', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('replays cleared fields as cleared after a reload, not as null or 0', async () => {
+    const initialData: Partial<MemoryStorageData> = { budget, categories: [category] };
+    const remote = createMemoryBackend({ initialData });
+    localStorage.setItem('abroadBuddy_offlineCache', JSON.stringify(initialData));
+
+    openPage(false);
+    const offline = createOfflineBackend(remote);
+    await offline.updateCategory('food', { cap: undefined });
+    await offline.saveBudget({ ...budget, rolloverCap: undefined });
+    expect(offline.sync?.getState().queue).toHaveLength(2);
+
+    openPage(true);
+    const reloaded = createOfflineBackend(remote);
+    await reloaded.sync?.flush();
+
+    expect(reloaded.sync?.getState().queue).toEqual([]);
+    const [savedCategory] = await remote.getCategories();
+    expect(savedCategory.cap).toBeUndefined();
+    const savedBudget = await remote.getBudget();
+    expect(savedBudget?.rolloverCap).toBeUndefined();
+    expect(savedBudget?.rolloverPolicy).toBe('both');
+  });
+
+  it('replays default categories seeded on another device in the meantime without failing', async () => {
+    const remote = createMemoryBackend();
+    openPage(false);
+    const offline = createOfflineBackend(remote);
+    await offline.addDefaultCategories([category, { ...category, id: 'rent', name: 'Rent' }]);
+
+    // The same defaults, under other ids, from a device that was online
+    await remote.addDefaultCategories([{ ...category, id: 'food-elsewhere' }]);
+
+    openPage(true);
+    const reloaded = createOfflineBackend(remote);
+    await reloaded.sync?.flush();
+
+    expect(reloaded.sync?.getState().queue).toEqual([]);
+    const saved = await remote.getCategories();
+    expect(saved.map(({ id, name }) => ({ id, name }))).toEqual([
+      { id: 'food-elsewhere', name: 'Food' },
+      { id: 'rent', name: 'Rent' },
+    ]);
+  });
+});
+
+describe('offline planned events', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps an event's id through undo, redo and undo again", async () => {
+    const remote = createMemoryBackend();
+    openPage(false);
+    const offline = createOfflineBackend(remote);
+    const plan = await offline.createOrGetWeeklyPlan('2024-01-01');
+
+    // As DataContext does it: add, undo (delete), redo (add back under the same id), undo
+    const added = await offline.addWeeklyPlanEvent(plan.id, { dayOfWeek: 2, eventName: 'Concert', amount: 4000 });
+    await offline.deleteWeeklyPlanEvent(added.id);
+    const restored = await offline.addWeeklyPlanEvent(plan.id, { dayOfWeek: 2, eventName: 'Concert', amount: 4000 }, added.id);
+    expect(restored.id).toBe(added.id);
+    await offline.deleteWeeklyPlanEvent(added.id);
+    expect((await offline.getWeeklyPlan('2024-01-01'))?.events).toEqual([]);
+
+    openPage(true);
+    const reloaded = createOfflineBackend(remote);
+    await reloaded.sync?.flush();
+
+    expect(reloaded.sync?.getState().queue).toEqual([]);
+    expect((await remote.getWeeklyPlan('2024-01-01'))?.events).toEqual([]);
+  });
+});
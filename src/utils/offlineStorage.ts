@@ -0,0 +1,517 @@
+import { ExchangeRate } from '../types';
+import { errorMessage } from './errors';
+import { createMemoryBackend, MemoryStorageData } from './memoryStorage';
+import { QueuedWrite, StorageBackend, StorageConflictError, SyncState } from './storageBackend';
+
+// Last known server data plus every pending write, so the app works with no signal
+const CACHE_KEY = 'abroadBuddy_offlineCache';
+const QUEUE_KEY = 'abroadBuddy_writeQueue';
+
+const MAX_RETRY_DELAY = 60000;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const data = localStorage.getItem(key);
+    return data ? JSON.parse(data) : fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+// Supabase reports a dropped connection as a failed fetch rather than a distinct error type
+const isNetworkError = (error: unknown): boolean => {
+  if (!navigator.onLine) return true;
+  return error instanceof TypeError || /failed to fetch|networkerror|load failed|network request failed/i.test(errorMessage(error));
+};
+
+const WRITE_LABELS = {
+  saveBudget: 'Update budget',
+  addTrip: 'Add trip',
+  updateTrip: 'Edit trip',
+  deleteTrip: 'Delete trip',
+  addWishlistItem: 'Add wishlist item',
+  updateWishlistItem: 'Edit wishlist item',
+  deleteWishlistItem: 'Delete wishlist item',
+  addExpense: 'Add expense',
+  addExpenses: 'Import expenses',
+  updateExpense: 'Edit expense',
+  deleteExpense: 'Delete expense',
+  addCategory: 'Add category',
+  addDefaultCategories: 'Add default categories',
+  updateCategory: 'Edit category',
+  deleteCategory: 'Delete category',
+  addRecurringExpense: 'Add recurring expense',
+  updateRecurringExpense: 'Edit recurring expense',
+  deleteRecurringExpense: 'Delete recurring expense',
+  addFunding: 'Add funding',
+  updateFunding: 'Edit funding',
+  deleteFunding: 'Delete funding',
+  addSavingsGoal: 'Add savings goal',
+  updateSavingsGoal: 'Edit savings goal',
+  deleteSavingsGoal: 'Delete savings goal',
+  restoreFromTrash: 'Restore from trash',
+  deletePermanently: 'Delete permanently',
+  saveCsvPreset: 'Save import preset',
+  deleteCsvPreset: 'Delete import preset',
+  saveScenario: 'Save scenario',
+  deleteScenario: 'Delete scenario',
+  createOrGetWeeklyPlan: 'Create weekly plan',
+  addWeeklyPlanEvent: 'Add planned event',
+  updateWeeklyPlanEvent: 'Edit planned event',
+  deleteWeeklyPlanEvent: 'Delete planned event',
+  deleteWeeklyPlan: 'Delete weekly plan',
+  'rates.saveRates': 'Save exchange rates',
+  'rates.deleteRate': 'Delete exchange rate',
+};
+
+// The backend methods a queued write can replay, by the name stored with it
+type WriteMethod = keyof typeof WRITE_LABELS;
+
+const isWriteMethod = (method: string): method is WriteMethod => method in WRITE_LABELS;
+
+// The local collection each versioned edit changes, so a rejected edit can be swapped for the server's copy
+const EDIT_COLLECTIONS: Partial<Record<WriteMethod, keyof MemoryStorageData>> = {
+  updateTrip: 'trips',
+  updateWishlistItem: 'wishlist',
+  updateExpense: 'expenses',
+  updateCategory: 'categories',
+  updateRecurringExpense: 'recurringExpenses',
+  updateFunding: 'funding',
+  updateSavingsGoal: 'savingsGoals',
+};
+
+// "Add expense: Coffee" - the record's own name when the first or second argument has one
+const describeWrite = (method: WriteMethod, args: unknown[]): string => {
+  const label = WRITE_LABELS[method];
+  const record = args.find((arg): arg is Record<string, unknown> => !!arg && typeof arg === 'object' && !Array.isArray(arg));
+  const name = record && [record.name, record.description, record.eventName].find(value => typeof value === 'string' && value);
+  if (name) return `${label}: ${name}`;
+  if (Array.isArray(args[0])) return `${label} (${args[0].length})`;
+  return label;
+};
+
+// JSON has no undefined, and dropping the key would lose "clear this field" updates (`'cap' in
+// updates`), so undefined is stored as a marker and put back before the write is replayed
+const UNDEFINED_MARKER = '$undefined';
+
+const isUndefinedMarker = (value: unknown): boolean =>
+  !!value && typeof value === 'object' && Object.keys(value).length === 1 && (value as Record<string, unknown>)[UNDEFINED_MARKER] === true;
+
+const encodeArgs = (args: unknown[]): unknown[] =>
+  JSON.parse(JSON.stringify(args, (_key, value) => value === undefined ? { [UNDEFINED_MARKER]: true } : value));
+
+const decodeValue = (value: unknown): unknown => {
+  if (isUndefinedMarker(value)) return undefined;
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, decodeValue(entry)]));
+  }
+  return value;
+};
+
+type Replay = (args: unknown[]) => Promise<unknown>;
+
+// Queued arguments come back from JSON as unknown[]; they were the method's own when queued
+const replay = <A extends unknown[], R>(method: (...args: A) => Promise<R>): Replay =>
+  args => method(...(args as A));
+
+// Wraps a server backend so writes never wait for the network. Each write is applied to a
+// local copy straight away, queued in localStorage and replayed against the server in order.
+// Reads come from the server while it's reachable and nothing is waiting to sync, and from the
+// local copy otherwise, so pending writes always show up.
+export const createOfflineBackend = (remote: StorageBackend): StorageBackend => {
+  const local = createMemoryBackend({
+    kind: remote.kind,
+    initialData: readJson<Partial<MemoryStorageData>>(CACHE_KEY, {}),
+    onChange: data => localStorage.setItem(CACHE_KEY, JSON.stringify(data)),
+  });
+
+  let queue: QueuedWrite[] = readJson<QueuedWrite[]>(QUEUE_KEY, []).map(item =>
+    // A write that was mid-sync when the page closed is simply sent again
+    item.status === 'syncing' ? { ...item, status: 'pending' } : item
+  );
+  const listeners = new Set<(state: SyncState) => void>();
+  // Ids the server assigned differently from the local copy (an existing weekly plan, upserted rates)
+  const remappedIds = new Map<string, string>();
+  // Conflicts reported while replaying, for edits still waiting on the server's answer
+  const conflicts = new Map<string, StorageConflictError>();
+  let flushing: Promise<void> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const getState = (): SyncState => ({ online: navigator.onLine, queue: queue.map(item => ({ ...item })) });
+
+  const saveQueue = () => {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+    const state = getState();
+    listeners.forEach(listener => listener(state));
+  };
+
+  const setItem = (id: string, updates: Partial<QueuedWrite>) => {
+    queue = queue.map(item => item.id === id ? { ...item, ...updates } : item);
+    saveQueue();
+  };
+
+  const readsFromServer = () => navigator.onLine && queue.length === 0;
+
+  const scheduleRetry = (attempts: number) => {
+    if (retryTimer) clearTimeout(retryTimer);
+    const delay = Math.min(1000 * 2 ** attempts, MAX_RETRY_DELAY);
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      flush();
+    }, delay);
+  };
+
+  const remapArgs = (args: unknown[]) => args.map(arg => (typeof arg === 'string' && remappedIds.get(arg)) || arg);
+
+  // Later writes may still refer to the local id, so point them at the server's
+  const remapId = (localId: string, serverId: string) => {
+    remappedIds.set(localId, serverId);
+    queue = queue.map(item => ({ ...item, args: remapArgs(item.args) }));
+    saveQueue();
+  };
+
+  const serverWrites: Record<WriteMethod, Replay> = {
+    saveBudget: replay(remote.saveBudget.bind(remote)),
+    addTrip: replay(remote.addTrip.bind(remote)),
+    updateTrip: replay(remote.updateTrip.bind(remote)),
+    deleteTrip: replay(remote.deleteTrip.bind(remote)),
+    addWishlistItem: replay(remote.addWishlistItem.bind(remote)),
+    updateWishlistItem: replay(remote.updateWishlistItem.bind(remote)),
+    deleteWishlistItem: replay(remote.deleteWishlistItem.bind(remote)),
+    addExpense: replay(remote.addExpense.bind(remote)),
+    addExpenses: replay(remote.addExpenses.bind(remote)),
+    updateExpense: replay(remote.updateExpense.bind(remote)),
+    deleteExpense: replay(remote.deleteExpense.bind(remote)),
+    addCategory: replay(remote.addCategory.bind(remote)),
+    addDefaultCategories: replay(remote.addDefaultCategories.bind(remote)),
+    updateCategory: replay(remote.updateCategory.bind(remote)),
+    deleteCategory: replay(remote.deleteCategory.bind(remote)),
+    addRecurringExpense: replay(remote.addRecurringExpense.bind(remote)),
+    updateRecurringExpense: replay(remote.updateRecurringExpense.bind(remote)),
+    deleteRecurringExpense: replay(remote.deleteRecurringExpense.bind(remote)),
+    addFunding: replay(remote.addFunding.bind(remote)),
+    updateFunding: replay(remote.updateFunding.bind(remote)),
+    deleteFunding: replay(remote.deleteFunding.bind(remote)),
+    addSavingsGoal: replay(remote.addSavingsGoal.bind(remote)),
+    updateSavingsGoal: replay(remote.updateSavingsGoal.bind(remote)),
+    deleteSavingsGoal: replay(remote.deleteSavingsGoal.bind(remote)),
+    restoreFromTrash: replay(remote.restoreFromTrash.bind(remote)),
+    deletePermanently: replay(remote.deletePermanently.bind(remote)),
+    saveCsvPreset: replay(remote.saveCsvPreset.bind(remote)),
+    deleteCsvPreset: replay(remote.deleteCsvPreset.bind(remote)),
+    saveScenario: replay(remote.saveScenario.bind(remote)),
+    deleteScenario: replay(remote.deleteScenario.bind(remote)),
+    createOrGetWeeklyPlan: replay(remote.createOrGetWeeklyPlan.bind(remote)),
+    addWeeklyPlanEvent: replay(remote.addWeeklyPlanEvent.bind(remote)),
+    updateWeeklyPlanEvent: replay(remote.updateWeeklyPlanEvent.bind(remote)),
+    deleteWeeklyPlanEvent: replay(remote.deleteWeeklyPlanEvent.bind(remote)),
+    deleteWeeklyPlan: replay(remote.deleteWeeklyPlan.bind(remote)),
+    'rates.saveRates': replay(remote.rates.saveRates.bind(remote.rates)),
+    'rates.deleteRate': replay(remote.rates.deleteRate.bind(remote.rates)),
+  };
+
+  // A queue saved by an older version may name a method this one no longer has
+  const callServer = (method: string, args: unknown[]): Promise<unknown> => {
+    if (!isWriteMethod(method)) return Promise.reject(new Error(`Unknown write: ${method}`));
+    return serverWrites[method](args);
+  };
+
+  // Replay the queue in order. Stops at the first write that fails so later writes that
+  // depend on it (an expense in a new category, say) are never sent ahead of it.
+  const runQueue = async () => {
+    while (queue.length > 0 && navigator.onLine) {
+      const item = queue[0];
+      if (item.status === 'failed') return;
+
+      const args = remapArgs(item.args.map(decodeValue));
+      setItem(item.id, { status: 'syncing' });
+
+      try {
+        const result = await callServer(item.method, args);
+
+        if (item.method === 'createOrGetWeeklyPlan') {
+          const plan = result as { id: string };
+          if (plan.id !== args[1]) remapId(args[1] as string, plan.id);
+        }
+        if (item.method === 'rates.saveRates') {
+          const localRates = await local.rates.getRates();
+          (result as ExchangeRate[]).forEach(saved => {
+            const match = localRates.find(rate =>
+              rate.baseCurrency === saved.baseCurrency && rate.quoteCurrency === saved.quoteCurrency && rate.date === saved.date
+            );
+            if (match && match.id !== saved.id) remapId(match.id, saved.id);
+          });
+        }
+
+        queue = queue.filter(entry => entry.id !== item.id);
+        saveQueue();
+      } catch (error) {
+        const attempts = item.attempts + 1;
+        const lastError = errorMessage(error);
+        if (isNetworkError(error)) {
+          setItem(item.id, { status: 'pending', attempts, lastError });
+          scheduleRetry(attempts);
+        } else {
+          if (error instanceof StorageConflictError) conflicts.set(item.id, error);
+          setItem(item.id, { status: 'failed', attempts, lastError });
+        }
+        return;
+      }
+    }
+  };
+
+  const flush = (): Promise<void> => {
+    if (!flushing) {
+      flushing = runQueue().finally(() => {
+        flushing = null;
+      });
+    }
+    return flushing;
+  };
+
+  // Apply to the local copy first - it throws for invalid writes, which are then never queued.
+  // With `waitForServer` the write is sent straight away when nothing else is queued, and a
+  // conflict is thrown to the caller (and dropped from the queue) instead of left as failed.
+  const queueWrite = async <T>(method: WriteMethod, args: unknown[], apply: () => Promise<T>, waitForServer = false): Promise<T> => {
+    const checkNow = waitForServer && readsFromServer();
+    const result = await apply();
+    const item: QueuedWrite = {
+      id: crypto.randomUUID(),
+      method,
+      args: remapArgs(encodeArgs(args)),
+      label: describeWrite(method, args),
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+    };
+    queue = [...queue, item];
+    saveQueue();
+
+    if (!checkNow) {
+      flush();
+      return result;
+    }
+
+    await flush();
+    const conflict = conflicts.get(item.id);
+    if (conflict) {
+      conflicts.delete(item.id);
+      queue = queue.filter(entry => entry.id !== item.id);
+      saveQueue();
+      restoreLocal(method, args[0], conflict.current);
+      throw conflict;
+    }
+    return result;
+  };
+
+  // The local copy already has the rejected edit applied - put the server's version back
+  const restoreLocal = (method: WriteMethod, id: unknown, current: unknown) => {
+    if (method === 'saveBudget') {
+      local.replaceData({ budget: current as MemoryStorageData['budget'] });
+      return;
+    }
+    const key = EDIT_COLLECTIONS[method];
+    if (!key) return;
+    const items = local.getData()[key] as { id: string }[];
+    local.replaceData({
+      [key]: current ? items.map(entry => entry.id === id ? current : entry) : items.filter(entry => entry.id !== id),
+    } as Partial<MemoryStorageData>);
+  };
+
+  const write = <A extends unknown[], R>(method: WriteMethod, apply: (...args: A) => Promise<R>) =>
+    (...args: A): Promise<R> => queueWrite(method, args, () => apply(...args));
+
+  // Edits that carry the version they were based on wait for the server while it's reachable
+  const versionedWrite = <A extends unknown[], R>(method: WriteMethod, apply: (...args: A) => Promise<R>) =>
+    (...args: A): Promise<R> => {
+      const record = args.find((arg): arg is { version?: unknown } => !!arg && typeof arg === 'object');
+      return queueWrite(method, args, () => apply(...args), typeof record?.version === 'number');
+    };
+
+  // Read from the server when possible, keeping the local copy up to date with what it returned
+  const read = async <T>(fromServer: () => Promise<T>, fromLocal: () => Promise<T>, cache: (value: T) => void): Promise<T> => {
+    if (!readsFromServer()) return fromLocal();
+    const value = await fromServer();
+    cache(value);
+    return value;
+  };
+
+  window.addEventListener('online', () => {
+    saveQueue();
+    flush();
+  });
+  window.addEventListener('offline', saveQueue);
+
+  const backend: StorageBackend = {
+    kind: remote.kind,
+
+    auth: {
+      ...remote.auth,
+
+      // Pending writes belong to the account that made them
+      async signOut() {
+        queue = [];
+        saveQueue();
+        local.replaceData({
+          budget: null, trips: [], wishlist: [], expenses: [], categories: [], recurringExpenses: [],
+          funding: [], savingsGoals: [], csvPresets: [], scenarios: [], exchangeRates: [], weeklyPlans: [], trash: [],
+          budgetChanges: [],
+        });
+        await remote.auth.signOut();
+      },
+    },
+
+    rates: {
+      getCachedRates: () => remote.rates.getCachedRates(),
+      clearCache: () => remote.rates.clearCache(),
+      getRates: () => read(() => remote.rates.getRates(), () => local.rates.getRates(), exchangeRates => local.replaceData({ exchangeRates })),
+      saveRates: newRates => queueWrite('rates.saveRates', [newRates], () => local.rates.saveRates(newRates)),
+      deleteRate: id => queueWrite('rates.deleteRate', [id], () => local.rates.deleteRate(id)),
+    },
+
+    // Changes made elsewhere are only passed on while nothing is waiting to sync. Otherwise they
+    // could undo pending edits on screen; the reload once the queue drains picks them up instead.
+    subscribeToChanges: remote.subscribeToChanges && ((userId, onChange) =>
+      remote.subscribeToChanges!(userId, change => {
+        if (readsFromServer()) onChange(change);
+      })
+    ),
+
+    subscribeToMalformedRows: remote.subscribeToMalformedRows,
+
+    sync: {
+      getState,
+
+      subscribe(listener) {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+
+      flush,
+
+      async retry(id) {
+        conflicts.delete(id);
+        setItem(id, { status: 'pending' });
+        await flush();
+      },
+
+      discard(id) {
+        conflicts.delete(id);
+        queue = queue.filter(item => item.id !== id);
+        saveQueue();
+        flush();
+      },
+    },
+
+    getBudget: () => read(() => remote.getBudget(), () => local.getBudget(), budget => local.replaceData({ budget })),
+    saveBudget: versionedWrite('saveBudget', local.saveBudget),
+    // Offline, this lists the changes made on this device; the server's log replaces it once online
+    getBudgetChanges: () => read(
+      () => remote.getBudgetChanges(),
+      () => local.getBudgetChanges(),
+      budgetChanges => local.replaceData({ budgetChanges })
+    ),
+
+    getTrips: () => read(() => remote.getTrips(), () => local.getTrips(), trips => local.replaceData({ trips })),
+    addTrip: write('addTrip', local.addTrip),
+    updateTrip: versionedWrite('updateTrip', local.updateTrip),
+    deleteTrip: write('deleteTrip', local.deleteTrip),
+
+    getWishlist: () => read(
+      () => remote.getWishlist(),
+      () => local.getWishlist(),
+      // The local copy stores oldest first and lists newest first
+      wishlist => local.replaceData({ wishlist: [...wishlist].reverse() })
+    ),
+    addWishlistItem: write('addWishlistItem', local.addWishlistItem),
+    updateWishlistItem: versionedWrite('updateWishlistItem', local.updateWishlistItem),
+    deleteWishlistItem: write('deleteWishlistItem', local.deleteWishlistItem),
+
+    getExpenses: () => read(() => remote.getExpenses(), () => local.getExpenses(), expenses => local.replaceData({ expenses })),
+    addExpense: write('addExpense', local.addExpense),
+    addExpenses: write('addExpenses', local.addExpenses),
+    updateExpense: versionedWrite('updateExpense', local.updateExpense),
+    deleteExpense: write('deleteExpense', local.deleteExpense),
+
+    getCategories: () => read(() => remote.getCategories(), () => local.getCategories(), categories => local.replaceData({ categories })),
+    addCategory: write('addCategory', local.addCategory),
+    addDefaultCategories: write('addDefaultCategories', local.addDefaultCategories),
+    updateCategory: versionedWrite('updateCategory', local.updateCategory),
+    deleteCategory: write('deleteCategory', local.deleteCategory),
+
+    getRecurringExpenses: () => read(
+      () => remote.getRecurringExpenses(),
+      () => local.getRecurringExpenses(),
+      recurringExpenses => local.replaceData({ recurringExpenses })
+    ),
+    addRecurringExpense: write('addRecurringExpense', local.addRecurringExpense),
+    updateRecurringExpense: versionedWrite('updateRecurringExpense', local.updateRecurringExpense),
+    deleteRecurringExpense: write('deleteRecurringExpense', local.deleteRecurringExpense),
+
+    // Posting is idempotent on the server, so it just waits until the queue has drained
+    postDueRecurringExpenses: () => readsFromServer() ? remote.postDueRecurringExpenses() : Promise.resolve(0),
+
+    getFunding: () => read(() => remote.getFunding(), () => local.getFunding(), funding => local.replaceData({ funding })),
+    addFunding: write('addFunding', local.addFunding),
+    updateFunding: versionedWrite('updateFunding', local.updateFunding),
+    deleteFunding: write('deleteFunding', local.deleteFunding),
+
+    getSavingsGoals: () => read(() => remote.getSavingsGoals(), () => local.getSavingsGoals(), savingsGoals => local.replaceData({ savingsGoals })),
+    addSavingsGoal: write('addSavingsGoal', local.addSavingsGoal),
+    updateSavingsGoal: versionedWrite('updateSavingsGoal', local.updateSavingsGoal),
+    deleteSavingsGoal: write('deleteSavingsGoal', local.deleteSavingsGoal),
+
+    getTrash: () => read(() => remote.getTrash(), () => local.getTrash(), trash => local.replaceData({ trash })),
+    restoreFromTrash: write('restoreFromTrash', local.restoreFromTrash),
+    deletePermanently: write('deletePermanently', local.deletePermanently),
+    // Like posting, purging waits until the queue has drained; the local copy catches up on the next read
+    purgeExpiredTrash: () => readsFromServer() ? remote.purgeExpiredTrash() : Promise.resolve(0),
+
+    getCsvPresets: () => read(() => remote.getCsvPresets(), () => local.getCsvPresets(), csvPresets => local.replaceData({ csvPresets })),
+    saveCsvPreset: write('saveCsvPreset', local.saveCsvPreset),
+    deleteCsvPreset: write('deleteCsvPreset', local.deleteCsvPreset),
+
+    getScenarios: () => read(() => remote.getScenarios(), () => local.getScenarios(), scenarios => local.replaceData({ scenarios })),
+    saveScenario: write('saveScenario', local.saveScenario),
+    deleteScenario: write('deleteScenario', local.deleteScenario),
+
+    calculateTotalSpent: () => readsFromServer() ? remote.calculateTotalSpent() : local.calculateTotalSpent(),
+    calculateTotalPlanned: () => readsFromServer() ? remote.calculateTotalPlanned() : local.calculateTotalPlanned(),
+    calculateSpentAndPlanned: () => readsFromServer() ? remote.calculateSpentAndPlanned() : local.calculateSpentAndPlanned(),
+
+    getWeeklyPlan: weekStart => read(
+      () => remote.getWeeklyPlan(weekStart),
+      () => local.getWeeklyPlan(weekStart),
+      plan => {
+        const others = local.getData().weeklyPlans.filter(entry => entry.weekStart !== weekStart);
+        local.replaceData({ weeklyPlans: plan ? [...others, plan] : others });
+      }
+    ),
+    getWeeklyPlans: () => read(() => remote.getWeeklyPlans(), () => local.getWeeklyPlans(), weeklyPlans => local.replaceData({ weeklyPlans })),
+
+    async createOrGetWeeklyPlan(weekStart) {
+      const existing = await local.getWeeklyPlan(weekStart);
+      if (existing) return existing;
+      const plan = await local.createOrGetWeeklyPlan(weekStart);
+      return queueWrite('createOrGetWeeklyPlan', [weekStart, plan.id], async () => plan);
+    },
+
+    // Undo puts a deleted event back under its old id, so later undos still find it
+    async addWeeklyPlanEvent(planId, event, id) {
+      const saved = await local.addWeeklyPlanEvent(planId, event, id);
+      return queueWrite('addWeeklyPlanEvent', [planId, event, id ?? saved.id], async () => saved);
+    },
+
+    updateWeeklyPlanEvent: versionedWrite('updateWeeklyPlanEvent', local.updateWeeklyPlanEvent),
+    deleteWeeklyPlanEvent: write('deleteWeeklyPlanEvent', local.deleteWeeklyPlanEvent),
+    deleteWeeklyPlan: write('deleteWeeklyPlan', local.deleteWeeklyPlan),
+  };
+
+  // Send anything left over from the last session
+  flush();
+
+  return backend;
+};
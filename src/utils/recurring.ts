@@ -0,0 +1,80 @@
+import { addMonths, addWeeks, addYears, format, parseISO } from 'date-fns';
+import { Budget, Cents, RecurrenceCadence, RecurringExpense } from '../types';
+import { CurrencyConverter } from './exchangeRates';
+import { sumCents } from './money';
+
+export const CADENCE_LABELS: Record<RecurrenceCadence, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+};
+
+// Safety limit so a bad start date can't loop forever (~20 years of weekly occurrences)
+const MAX_OCCURRENCES = 1000;
+
+const addCadence = (date: Date, cadence: RecurrenceCadence, count: number): Date => {
+  switch (cadence) {
+    case 'weekly':
+      return addWeeks(date, count);
+    case 'yearly':
+      return addYears(date, count);
+    default:
+      // Always step from the start date so the 31st stays the last day of short months
+      return addMonths(date, count);
+  }
+};
+
+// Occurrence dates (yyyy-MM-dd) strictly after `after` and up to and including `until`
+export const getOccurrences = (
+  series: RecurringExpense,
+  after: string | undefined,
+  until: string
+): string[] => {
+  const start = parseISO(series.startDate);
+  const last = series.endDate && series.endDate < until ? series.endDate : until;
+  const dates: string[] = [];
+
+  for (let i = 0; i < MAX_OCCURRENCES; i++) {
+    const date = format(addCadence(start, series.cadence, i), 'yyyy-MM-dd');
+    if (date > last) break;
+    if (!after || date > after) dates.push(date);
+  }
+
+  return dates;
+};
+
+// The next occurrence that hasn't been posted yet, or null once the series has ended
+export const getNextOccurrence = (series: RecurringExpense): string | null => {
+  const start = parseISO(series.startDate);
+
+  for (let i = 0; i < MAX_OCCURRENCES; i++) {
+    const date = format(addCadence(start, series.cadence, i), 'yyyy-MM-dd');
+    if (series.endDate && date > series.endDate) return null;
+    if (!series.lastPostedDate || date > series.lastPostedDate) return date;
+  }
+
+  return null;
+};
+
+// Occurrences that have come due (up to today) but haven't been posted as expenses yet
+export const getDueOccurrences = (series: RecurringExpense, today: string): string[] => {
+  return getOccurrences(series, series.lastPostedDate, today);
+};
+
+// Occurrences still to come after today, up to `until`
+export const getUpcomingOccurrences = (series: RecurringExpense, today: string, until: string): string[] => {
+  const after = series.lastPostedDate && series.lastPostedDate > today ? series.lastPostedDate : today;
+  return getOccurrences(series, after, until);
+};
+
+// Committed spending from recurring expenses still to come before the budget period ends
+export const calculateUpcomingRecurring = (
+  budget: Budget,
+  recurringExpenses: RecurringExpense[],
+  convert: CurrencyConverter,
+  today: string = format(new Date(), 'yyyy-MM-dd')
+): Cents => {
+  return sumCents(recurringExpenses, series =>
+    sumCents(getUpcomingOccurrences(series, today, budget.endDate), date => convert(series.amount, series.currency, date))
+  );
+};
@@ -0,0 +1,272 @@
+import {
+  Budget,
+  BudgetChange,
+  BudgetChangeCause,
+  BudgetScenario,
+  Trip,
+  WishlistItem,
+  Expense,
+  ExpenseCategory,
+  RecurringExpense,
+  Funding,
+  SavingsGoal,
+  WeeklyPlan,
+  WeeklyPlanEvent,
+  ExchangeRate,
+  Cents,
+} from '../types';
+import { CsvImportPreset } from './csvImport';
+
+export type StorageBackendKind = 'supabase' | 'local' | 'memory';
+
+// The signed-in user, independent of where the data lives
+export interface StorageUser {
+  id: string;
+  email: string;
+  createdAt: string;
+}
+
+export type AuthEvent = 'SIGNED_IN' | 'SIGNED_OUT' | 'UPDATED';
+
+export interface StorageAuth {
+  getUser(): Promise<StorageUser | null>;
+  // Returns an unsubscribe function
+  onAuthStateChange(callback: (event: AuthEvent, user: StorageUser | null) => void): () => void;
+  signIn(email: string, password: string): Promise<void>;
+  // `needsConfirmation` is set when the user must confirm their email before signing in
+  signUp(email: string, password: string): Promise<{ needsConfirmation: boolean }>;
+  signOut(): Promise<void>;
+}
+
+export interface ExchangeRateStore {
+  // Rates seen last, available synchronously for the first render
+  getCachedRates(): ExchangeRate[];
+  clearCache(): void;
+  getRates(): Promise<ExchangeRate[]>;
+  // Add or replace rates; a pair has at most one rate per date
+  saveRates(newRates: Omit<ExchangeRate, 'id'>[]): Promise<ExchangeRate[]>;
+  deleteRate(id: string): Promise<void>;
+}
+
+// Thrown by saveBudget and the update* methods when the caller passes the `version` it last saw
+// and the record has since been changed on another device. `current` is the record as stored
+// now, or null when it was deleted.
+export class StorageConflictError<T = unknown> extends Error {
+  current: T | null;
+
+  constructor(current: T | null) {
+    super(current ? 'This was changed on another device' : 'This was deleted on another device');
+    this.name = 'StorageConflictError';
+    this.current = current;
+  }
+}
+
+// Thrown by the get* methods when the query itself fails (network, permissions, a missing
+// table), so a failed load is never mistaken for an empty one. `table` is the one being read.
+export class StorageReadError extends Error {
+  table: string;
+
+  constructor(table: string, message: string) {
+    super(`Couldn't load ${table}: ${message}`);
+    this.name = 'StorageReadError';
+    this.table = table;
+  }
+}
+
+// A row the server returned that doesn't fit its table's schema (a missing column, text where
+// a number belongs). The get* methods leave it out rather than pass on NaN amounts or bad dates.
+export interface MalformedRow {
+  table: string;
+  id: string | null;
+  problems: string[];       // One per column, e.g. 'amount: expected a decimal number, got "abc"'
+}
+
+// Deleted trips, expenses and wishlist items are kept in a trash for TRASH_DAYS, then purged
+export const TRASH_DAYS = 30;
+
+export type TrashKind = 'trip' | 'expense' | 'wishlistItem';
+
+export type TrashItem =
+  | { kind: 'trip'; record: Trip; deletedAt: string }
+  | { kind: 'expense'; record: Expense; deletedAt: string }
+  | { kind: 'wishlistItem'; record: WishlistItem; deletedAt: string };
+
+export type QueuedWriteStatus = 'pending' | 'syncing' | 'failed';
+
+// A write made on this device that hasn't reached the server yet
+export interface QueuedWrite {
+  id: string;
+  method: string;                  // Backend method to replay, e.g. 'addExpense' or 'rates.saveRates'
+  args: unknown[];
+  label: string;                   // Shown in the sync indicator, e.g. "Add expense: Coffee"
+  createdAt: string;
+  status: QueuedWriteStatus;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface SyncState {
+  online: boolean;
+  queue: QueuedWrite[];
+}
+
+export interface SyncController {
+  getState(): SyncState;
+  // Returns an unsubscribe function
+  subscribe(listener: (state: SyncState) => void): () => void;
+  flush(): Promise<void>;
+  retry(id: string): Promise<void>;
+  // Drop a write that can't be synced; the next refresh shows the server's data again
+  discard(id: string): void;
+}
+
+// A record added, edited or deleted somewhere else (another device or tab), already in the
+// app's types. `record` is null when it was deleted.
+export type StorageChange =
+  | { kind: 'budget'; record: Budget }
+  | { kind: 'trip'; id: string; record: Trip | null }
+  | { kind: 'wishlistItem'; id: string; record: WishlistItem | null }
+  | { kind: 'expense'; id: string; record: Expense | null }
+  | { kind: 'weeklyPlanEvent'; id: string; record: WeeklyPlanEvent | null };
+
+export type WeeklyPlanEventChange = Extract<StorageChange, { kind: 'weeklyPlanEvent' }>;
+
+// Apply one change to a list already in memory: replace the record, add it (at the front, or
+// where `compare` puts it) or drop it. Dropping an id that isn't there returns `items` itself:
+// realtime can't filter deletes by user, so other users' deletes arrive too and must change nothing.
+export const patchById = <T extends { id: string }>(
+  items: T[],
+  id: string,
+  record: T | null,
+  compare?: (a: T, b: T) => number
+): T[] => {
+  if (!record) return items.some(item => item.id === id) ? items.filter(item => item.id !== id) : items;
+  const next = items.some(item => item.id === id)
+    ? items.map(item => item.id === id ? record : item)
+    : [record, ...items];
+  return compare ? [...next].sort(compare) : next;
+};
+
+// Everything the app reads and writes. Each backend (Supabase, this browser's localStorage,
+// in-memory) implements the same contract, so components never depend on where data lives.
+export interface StorageBackend {
+  kind: StorageBackendKind;
+  auth: StorageAuth;
+  rates: ExchangeRateStore;
+  // Only present on backends that queue writes for a server
+  sync?: SyncController;
+  // Live changes to the user's budget, trips, wishlist, expenses and planned events made
+  // elsewhere. Only present on backends shared between devices. Returns an unsubscribe function.
+  subscribeToChanges?(userId: string, onChange: (change: StorageChange) => void): () => void;
+  // Rows left out of the latest reads because they didn't fit their schema. Only present on
+  // backends reading rows they didn't write themselves. Returns an unsubscribe function.
+  subscribeToMalformedRows?(listener: (rows: MalformedRow[]) => void): () => void;
+
+  // The get* methods throw StorageReadError when the data can't be loaded, rather than
+  // returning nothing
+  getBudget(): Promise<Budget | null>;
+  // saveBudget and every update* reject a stale `version` with StorageConflictError; writes
+  // without one always go through. A save that changes the settings (not just the totals) is
+  // added to the audit log, with `change` saying why ('edit' when it isn't given).
+  saveBudget(budget: Budget, change?: BudgetChangeCause): Promise<void>;
+  // The budget audit log, newest first
+  getBudgetChanges(): Promise<BudgetChange[]>;
+
+  getTrips(): Promise<Trip[]>;
+  addTrip(trip: Trip): Promise<void>;
+  updateTrip(id: string, updates: Partial<Trip>): Promise<void>;
+  deleteTrip(id: string): Promise<void>;
+
+  getWishlist(): Promise<WishlistItem[]>;
+  addWishlistItem(item: WishlistItem): Promise<void>;
+  updateWishlistItem(id: string, updates: Partial<WishlistItem>): Promise<void>;
+  deleteWishlistItem(id: string): Promise<void>;
+
+  getExpenses(): Promise<Expense[]>;
+  addExpense(expense: Expense): Promise<void>;
+  addExpenses(expenses: Expense[]): Promise<void>;
+  updateExpense(id: string, updates: Partial<Expense>): Promise<void>;
+  deleteExpense(id: string): Promise<void>;
+
+  getCategories(): Promise<ExpenseCategory[]>;
+  addCategory(category: ExpenseCategory): Promise<void>;
+  // The categories a new account starts with. Names already taken (e.g. seeded from another
+  // device at the same time) are skipped rather than failing the rest.
+  addDefaultCategories(categories: ExpenseCategory[]): Promise<void>;
+  updateCategory(id: string, updates: Partial<ExpenseCategory>): Promise<void>;
+  deleteCategory(id: string): Promise<void>;
+
+  getRecurringExpenses(): Promise<RecurringExpense[]>;
+  addRecurringExpense(series: RecurringExpense): Promise<void>;
+  updateRecurringExpense(id: string, updates: Partial<RecurringExpense>): Promise<void>;
+  deleteRecurringExpense(id: string): Promise<void>;
+  // Posts occurrences that have come due as expenses; returns how many were posted
+  postDueRecurringExpenses(): Promise<number>;
+
+  getFunding(): Promise<Funding[]>;
+  addFunding(funding: Funding): Promise<void>;
+  updateFunding(id: string, updates: Partial<Funding>): Promise<void>;
+  deleteFunding(id: string): Promise<void>;
+
+  // By target date. A goal outlives the trip or wishlist item it's for, unlinked once that is
+  // deleted for good.
+  getSavingsGoals(): Promise<SavingsGoal[]>;
+  addSavingsGoal(goal: SavingsGoal): Promise<void>;
+  updateSavingsGoal(id: string, updates: Partial<SavingsGoal>): Promise<void>;
+  deleteSavingsGoal(id: string): Promise<void>;
+
+  // deleteTrip, deleteExpense and deleteWishlistItem move the record to the trash; the get*
+  // methods and totals leave trashed records out. Newest deletion first.
+  getTrash(): Promise<TrashItem[]>;
+  restoreFromTrash(kind: TrashKind, id: string): Promise<void>;
+  // Removes the record for good, whether it's in the trash or not
+  deletePermanently(kind: TrashKind, id: string): Promise<void>;
+  // Purges whatever has been in the trash longer than TRASH_DAYS; returns how many were purged
+  purgeExpiredTrash(): Promise<number>;
+
+  getCsvPresets(): Promise<CsvImportPreset[]>;
+  saveCsvPreset(preset: CsvImportPreset): Promise<void>;
+  deleteCsvPreset(id: string): Promise<void>;
+
+  // What-if scenarios, by name; saving under an existing name replaces that scenario
+  getScenarios(): Promise<BudgetScenario[]>;
+  saveScenario(scenario: BudgetScenario): Promise<void>;
+  deleteScenario(id: string): Promise<void>;
+
+  calculateTotalSpent(): Promise<Cents>;
+  calculateTotalPlanned(): Promise<Cents>;
+  calculateSpentAndPlanned(): Promise<{ spent: Cents; planned: Cents }>;
+
+  getWeeklyPlan(weekStart: string): Promise<WeeklyPlan | null>;
+  getWeeklyPlans(): Promise<WeeklyPlan[]>;
+  // Ids may be supplied by the caller so a write queued offline keeps its id when replayed
+  createOrGetWeeklyPlan(weekStart: string, id?: string): Promise<WeeklyPlan>;
+  addWeeklyPlanEvent(planId: string, event: Omit<WeeklyPlanEvent, 'id' | 'planId'>, id?: string): Promise<WeeklyPlanEvent>;
+  updateWeeklyPlanEvent(eventId: string, updates: Partial<Omit<WeeklyPlanEvent, 'id' | 'planId'>>): Promise<void>;
+  deleteWeeklyPlanEvent(eventId: string): Promise<void>;
+  deleteWeeklyPlan(planId: string): Promise<void>;
+}
+
+// Pick the backend at startup (VITE_STORAGE_BACKEND, default Supabase). Backends are loaded
+// on demand so the local and in-memory ones never touch the Supabase client.
+export const createStorageBackend = async (
+  kind: StorageBackendKind = import.meta.env.VITE_STORAGE_BACKEND || 'supabase'
+): Promise<StorageBackend> => {
+  switch (kind) {
+    case 'local': {
+      const { createLocalStorageBackend } = await import('./localStorage');
+      return createLocalStorageBackend();
+    }
+    case 'memory': {
+      const { createMemoryBackend } = await import('./memoryStorage');
+      return createMemoryBackend();
+    }
+    default: {
+      const [{ supabaseBackend }, { createOfflineBackend }] = await Promise.all([
+        import('./supabaseStorage'),
+        import('./offlineStorage'),
+      ]);
+      return createOfflineBackend(supabaseBackend);
+    }
+  }
+};
@@ -0,0 +1,700 @@
+import {
+  Budget,
+  BudgetChange,
+  BudgetChangeReason,
+  BudgetMode,
+  BudgetScenario,
+  BudgetSettings,
+  CategoryCapPeriod,
+  Expense,
+  ExpenseCategory,
+  ExchangeRate,
+  Funding,
+  FundingKind,
+  RecurrenceCadence,
+  RecurringExpense,
+  RolloverPolicy,
+  SavingsGoal,
+  ScenarioChoice,
+  Trip,
+  WeeklyPlanEvent,
+  WishlistItem,
+} from '../types';
+import { CSV_DATE_FORMATS, CsvColumnMapping, CsvImportPreset } from './csvImport';
+import { parseCents } from './money';
+import { MalformedRow } from './storageBackend';
+
+// Rows as Supabase returns them (from a query or a realtime payload): the columns the app reads
+// from each table, typed as Postgres sends them. The schema is in supabase/migrations.
+
+// DECIMAL/NUMERIC columns arrive as JSON numbers, or strings for values too precise for one
+export type Decimal = number | string;
+
+export interface BudgetSettingsRow {
+  budget_mode: BudgetMode;
+  semester_budget: Decimal;
+  start_date: string;
+  end_date: string;
+  home_currency: string;
+  // Missing from history snapshots logged before 0019_budget_history_rollover.sql
+  rollover_policy: RolloverPolicy | null;
+  rollover_cap: Decimal | null;
+}
+
+export interface BudgetRow extends BudgetSettingsRow {
+  spent: Decimal;
+  planned_spending: Decimal;
+  rollover_policy: RolloverPolicy;
+  change_reason: BudgetChangeReason | null;
+  change_note: string | null;
+  version: number;
+}
+
+export interface BudgetChangeRow {
+  id: string;
+  changed_at: string;
+  reason: BudgetChangeReason;
+  note: string | null;
+  before: BudgetSettingsRow | null;
+  after: BudgetSettingsRow;
+}
+
+export interface TripRow {
+  id: string;
+  name: string;
+  destination: string | null;
+  start_date: string;
+  end_date: string;
+  prepaid_cost: Decimal;
+  planned_cost: Decimal;
+  currency: string;
+  notes: string | null;
+  version: number;
+  deleted_at: string | null;
+}
+
+export interface WishlistItemRow {
+  id: string;
+  name: string;
+  location: string | null;
+  estimated_cost: Decimal;
+  currency: string;
+  priority: WishlistItem['priority'];
+  notes: string | null;
+  version: number;
+  deleted_at: string | null;
+}
+
+export interface ExpenseRow {
+  id: string;
+  description: string;
+  amount: Decimal;
+  currency: string;
+  date: string;
+  category_id: string | null;
+  recurring_expense_id: string | null;
+  notes: string | null;
+  version: number;
+  deleted_at: string | null;
+}
+
+export interface ExpenseCategoryRow {
+  id: string;
+  name: string;
+  color: string;
+  icon: string;
+  cap: Decimal | null;
+  cap_period: CategoryCapPeriod;
+  version: number;
+}
+
+export interface RecurringExpenseRow {
+  id: string;
+  description: string;
+  amount: Decimal;
+  currency: string;
+  category_id: string | null;
+  cadence: RecurrenceCadence;
+  start_date: string;
+  end_date: string | null;
+  last_posted_date: string | null;
+  notes: string | null;
+  version: number;
+}
+
+export interface FundingRow {
+  id: string;
+  name: string;
+  kind: FundingKind;
+  amount: Decimal;
+  currency: string;
+  expected_date: string;
+  received_date: string | null;
+  notes: string | null;
+  version: number;
+}
+
+export interface SavingsGoalRow {
+  id: string;
+  name: string;
+  trip_id: string | null;
+  wishlist_item_id: string | null;
+  target: Decimal;
+  saved: Decimal;
+  start_date: string;
+  target_date: string;
+  version: number;
+}
+
+export interface CsvImportPresetRow {
+  id: string;
+  name: string;
+  mapping: CsvColumnMapping;
+}
+
+export interface ScenarioChoiceRow {
+  kind: ScenarioChoice['kind'];
+  item_id: string;
+  included: boolean;
+  cost: Decimal | null;
+}
+
+export interface BudgetScenarioRow {
+  id: string;
+  name: string;
+  choices: ScenarioChoiceRow[];
+}
+
+export interface ExchangeRateRow {
+  id: string;
+  base_currency: string;
+  quote_currency: string;
+  rate: Decimal;
+  rate_date: string;
+  source: ExchangeRate['source'];
+}
+
+export interface WeeklyPlanRow {
+  id: string;
+  week_start: string;
+}
+
+export interface WeeklyPlanEventRow {
+  id: string;
+  plan_id: string;
+  day_of_week: number;
+  event_name: string;
+  amount: Decimal;
+  version: number;
+}
+
+// The fields of an update, plus the timestamp every update sets
+export type RowUpdate<R> = Partial<R> & { updated_at?: string };
+
+type RawRow = Record<string, unknown>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DECIMAL_PATTERN = /^-?\d+(\.\d+)?$/;
+
+const isRow = (value: unknown): value is RawRow =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isText = (value: unknown): value is string => typeof value === 'string';
+const isDecimal = (value: unknown): value is Decimal =>
+  typeof value === 'number' ? Number.isFinite(value) : typeof value === 'string' && DECIMAL_PATTERN.test(value.trim());
+const isDate = (value: unknown): value is string => typeof value === 'string' && DATE_PATTERN.test(value);
+const isTimestamp = (value: unknown): value is string => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isList = (value: unknown): value is unknown[] => Array.isArray(value);
+
+// Reads typed columns off a raw row, noting every column that doesn't fit rather than stopping
+// at the first. A row with any problems is never mapped, so what's returned for it is unused.
+interface ColumnReader {
+  problems: string[];
+  text(key: string): string;
+  nullableText(key: string): string | null;
+  decimal(key: string): Decimal;
+  nullableDecimal(key: string): Decimal | null;
+  date(key: string): string;
+  nullableDate(key: string): string | null;
+  timestamp(key: string): string;
+  nullableTimestamp(key: string): string | null;
+  integer(key: string): number;
+  nullableInteger(key: string): number | null;
+  boolean(key: string): boolean;
+  oneOf<T extends string>(key: string, values: readonly T[]): T;
+  nullableOneOf<T extends string>(key: string, values: readonly T[]): T | null;
+  // A JSON column holding an object with columns of its own
+  nested<T>(key: string, read: (columns: ColumnReader) => T): T;
+  nullableNested<T>(key: string, read: (columns: ColumnReader) => T): T | null;
+  // A JSON column holding an array of such objects
+  nestedList<T>(key: string, read: (columns: ColumnReader) => T): T[];
+}
+
+const columnReader = (raw: RawRow): ColumnReader => {
+  const problems: string[] = [];
+
+  const required = <T>(key: string, expected: string, valid: (value: unknown) => value is T): T => {
+    const value = raw[key];
+    if (!valid(value)) {
+      problems.push(`${key}: expected ${expected}, got ${value === undefined ? 'nothing' : JSON.stringify(value)}`);
+    }
+    return value as T;
+  };
+
+  const nullable = <T>(key: string, expected: string, valid: (value: unknown) => value is T): T | null =>
+    raw[key] === null || raw[key] === undefined ? null : required(key, expected, valid);
+
+  const oneOf = <T extends string>(values: readonly T[]) => (value: unknown): value is T =>
+    values.includes(value as T);
+
+  const nested = <T>(key: string, read: (columns: ColumnReader) => T): T => {
+    const value = required(key, 'an object', isRow);
+    if (!isRow(value)) return value as T;
+    const columns = columnReader(value);
+    const result = read(columns);
+    problems.push(...columns.problems.map(problem => `${key}.${problem}`));
+    return result;
+  };
+
+  const nestedList = <T>(key: string, read: (columns: ColumnReader) => T): T[] => {
+    const value = required(key, 'a list', isList);
+    if (!isList(value)) return value as T[];
+    return value.map((item, index) => {
+      if (!isRow(item)) {
+        problems.push(`${key}[${index}]: expected an object, got ${JSON.stringify(item)}`);
+        return item as T;
+      }
+      const columns = columnReader(item);
+      const result = read(columns);
+      problems.push(...columns.problems.map(problem => `${key}[${index}].${problem}`));
+      return result;
+    });
+  };
+
+  return {
+    problems,
+    text: (key: string) => required(key, 'text', isText),
+    nullableText: (key: string) => nullable(key, 'text', isText),
+    decimal: (key: string) => required(key, 'a decimal number', isDecimal),
+    nullableDecimal: (key: string) => nullable(key, 'a decimal number', isDecimal),
+    date: (key: string) => required(key, 'a date', isDate),
+    nullableDate: (key: string) => nullable(key, 'a date', isDate),
+    timestamp: (key: string) => required(key, 'a timestamp', isTimestamp),
+    nullableTimestamp: (key: string) => nullable(key, 'a timestamp', isTimestamp),
+    integer: (key: string) => required(key, 'a whole number', isInteger),
+    nullableInteger: (key: string) => nullable(key, 'a whole number', isInteger),
+    boolean: (key: string) => required(key, 'true or false', isBoolean),
+    oneOf: <T extends string>(key: string, values: readonly T[]) => required(key, `one of ${values.join(', ')}`, oneOf(values)),
+    nullableOneOf: <T extends string>(key: string, values: readonly T[]) =>
+      nullable(key, `one of ${values.join(', ')}`, oneOf(values)),
+    nested,
+    nullableNested: <T>(key: string, read: (columns: ColumnReader) => T): T | null =>
+      raw[key] === null || raw[key] === undefined ? null : nested(key, read),
+    nestedList,
+  };
+};
+
+// How to check a table's rows and turn them into the app's type
+export interface RowSchema<R, T> {
+  table: string;
+  read: (columns: ColumnReader) => R;
+  toRecord: (row: R) => T;
+}
+
+export type RowResult<T> = { ok: true; record: T } | { ok: false; malformed: MalformedRow };
+
+export const parseRow = <R, T>(schema: RowSchema<R, T>, raw: unknown): RowResult<T> => {
+  if (!isRow(raw)) {
+    return { ok: false, malformed: { table: schema.table, id: null, problems: [`expected a row, got ${JSON.stringify(raw)}`] } };
+  }
+  const columns = columnReader(raw);
+  const row = schema.read(columns);
+  if (columns.problems.length > 0) {
+    return {
+      ok: false,
+      malformed: { table: schema.table, id: isText(raw.id) ? raw.id : null, problems: columns.problems },
+    };
+  }
+  return { ok: true, record: schema.toRecord(row) };
+};
+
+// Every row that fits the schema, and the ones that don't
+export const parseRows = <R, T>(schema: RowSchema<R, T>, raws: unknown[]): { records: T[]; malformed: MalformedRow[] } => {
+  const records: T[] = [];
+  const malformed: MalformedRow[] = [];
+  for (const raw of raws) {
+    const result = parseRow(schema, raw);
+    if (result.ok) {
+      records.push(result.record);
+    } else {
+      malformed.push(result.malformed);
+    }
+  }
+  return { records, malformed };
+};
+
+const BUDGET_MODES: readonly BudgetMode[] = ['total', 'remaining', 'tracking'];
+const ROLLOVER_POLICIES: readonly RolloverPolicy[] = ['none', 'surplus', 'deficit', 'both'];
+const BUDGET_CHANGE_REASONS: readonly BudgetChangeReason[] = [
+  'setup', 'edit', 'balance_update', 'expense', 'funding', 'undo', 'redo', 'restore',
+];
+const PRIORITIES: readonly WishlistItem['priority'][] = ['high', 'medium', 'low'];
+const CAP_PERIODS: readonly CategoryCapPeriod[] = ['monthly', 'semester'];
+const CADENCES: readonly RecurrenceCadence[] = ['weekly', 'monthly', 'yearly'];
+const FUNDING_KINDS: readonly FundingKind[] = ['scholarship', 'family', 'job', 'other'];
+const RATE_SOURCES: readonly ExchangeRate['source'][] = ['manual', 'import'];
+
+const readBudgetSettings = (columns: ColumnReader): BudgetSettingsRow => ({
+  budget_mode: columns.oneOf('budget_mode', BUDGET_MODES),
+  semester_budget: columns.decimal('semester_budget'),
+  start_date: columns.date('start_date'),
+  end_date: columns.date('end_date'),
+  home_currency: columns.text('home_currency'),
+  rollover_policy: columns.nullableOneOf('rollover_policy', ROLLOVER_POLICIES),
+  rollover_cap: columns.nullableDecimal('rollover_cap'),
+});
+
+const toBudgetSettings = (row: BudgetSettingsRow): BudgetSettings => ({
+  budgetMode: row.budget_mode,
+  semesterBudget: parseCents(row.semester_budget),
+  startDate: row.start_date,
+  endDate: row.end_date,
+  homeCurrency: row.home_currency,
+  rolloverPolicy: row.rollover_policy ?? undefined,
+  rolloverCap: row.rollover_cap !== null ? parseCents(row.rollover_cap) : undefined,
+});
+
+export const budgetSchema: RowSchema<BudgetRow, Budget> = {
+  table: 'budgets',
+  read: columns => ({
+    ...readBudgetSettings(columns),
+    spent: columns.decimal('spent'),
+    planned_spending: columns.decimal('planned_spending'),
+    rollover_policy: columns.oneOf('rollover_policy', ROLLOVER_POLICIES),
+    change_reason: columns.nullableOneOf('change_reason', BUDGET_CHANGE_REASONS),
+    change_note: columns.nullableText('change_note'),
+    version: columns.integer('version'),
+  }),
+  toRecord: row => ({
+    ...toBudgetSettings(row),
+    spent: parseCents(row.spent),
+    plannedSpending: parseCents(row.planned_spending),
+    version: row.version,
+  }),
+};
+
+// The before/after snapshots the log_budget_change trigger stores
+export const budgetChangeSchema: RowSchema<BudgetChangeRow, BudgetChange> = {
+  table: 'budget_changes',
+  read: columns => ({
+    id: columns.text('id'),
+    changed_at: columns.timestamp('changed_at'),
+    reason: columns.oneOf('reason', BUDGET_CHANGE_REASONS),
+    note: columns.nullableText('note'),
+    before: columns.nullableNested('before', readBudgetSettings),
+    after: columns.nested('after', readBudgetSettings),
+  }),
+  toRecord: row => ({
+    id: row.id,
+    changedAt: row.changed_at,
+    reason: row.reason,
+    note: row.note || undefined,
+    before: row.before ? toBudgetSettings(row.before) : null,
+    after: toBudgetSettings(row.after),
+  }),
+};
+
+export const tripSchema: RowSchema<TripRow, Trip> = {
+  table: 'trips',
+  read: columns => ({
+    id: columns.text('id'),
+    name: columns.text('name'),
+    destination: columns.nullableText('destination'),
+    start_date: columns.date('start_date'),
+    end_date: columns.date('end_date'),
+    prepaid_cost: columns.decimal('prepaid_cost'),
+    planned_cost: columns.decimal('planned_cost'),
+    currency: columns.text('currency'),
+    notes: columns.nullableText('notes'),
+    version: columns.integer('version'),
+    deleted_at: columns.nullableTimestamp('deleted_at'),
+  }),
+  toRecord: row => ({
+    id: row.id,
+    name: row.name,
+    destination: row.destination || '',
+    startDate: row.start_date,
+    endDate: row.end_date,
+    prepaidCost: parseCents(row.prepaid_cost),
+    plannedCost: parseCents(row.planned_cost),
+    currency: row.currency,
+    notes: row.notes || undefined,
+    version: row.version,
+  }),
+};
+
+export const wishlistItemSchema: RowSchema<WishlistItemRow, WishlistItem> = {
+  table: 'wishlist_items',
+  read: columns => ({
+    id: columns.text('id'),
+    name: columns.text('name'),
+    location: columns.nullableText('location'),
+    estimated_cost: columns.decimal('estimated_cost'),
+    currency: columns.text('currency'),
+    priority: columns.oneOf('priority', PRIORITIES),
+    notes: columns.nullableText('notes'),
+    version: columns.integer('version'),
+    deleted_at: columns.nullableTimestamp('deleted_at'),
+  }),
+  toRecord: row => ({
+    id: row.id,
+    name: row.name,
+    location: row.location || '',
+    estimatedCost: parseCents(row.estimated_cost),
+    currency: row.currency,
+    priority: row.priority,
+    notes: row.notes || undefined,
+    version: row.version,
+  }),
+};
+
+export const expenseSchema: RowSchema<ExpenseRow, Expense> = {
+  table: 'expenses',
+  read: columns => ({
+    id: columns.text('id'),
+    description: columns.text('description'),
+    amount: columns.decimal('amount'),
+    currency: columns.text('currency'),
+    date: columns.date('date'),
+    category_id: columns.nullableText('category_id'),
+    recurring_expense_id: columns.nullableText('recurring_expense_id'),
+    notes: columns.nullableText('notes'),
+    version: columns.integer('version'),
+    deleted_at: columns.nullableTimestamp('deleted_at'),
+  }),
+  toRecord: row => ({
+    id: row.id,
+    description: row.description,
+    amount: parseCents(row.amount),
+    currency: row.currency,
+    date: row.date,
+    categoryId: row.category_id || undefined,
+    recurringExpenseId: row.recurring_expense_id || undefined,
+    notes: row.notes || undefined,
+    version: row.version,
+  }),
+};
+
+// A row read from the trash, with when it was moved there
+export const trashedSchema = <R extends { deleted_at: string | null }, T>(
+  schema: RowSchema<R, T>
+): RowSchema<R, { record: T; deletedAt: string }> => ({
+  table: schema.table,
+  read: schema.read,
+  toRecord: row => ({ record: schema.toRecord(row), deletedAt: row.deleted_at || '' }),
+});
+
+export const expenseCategorySchema: RowSchema<ExpenseCategoryRow, ExpenseCategory> = {
+  table: 'expense_categories',
+  read: columns => ({
+    id: columns.text('id'),
+    name: columns.text('name'),
+    color: columns.text('color'),
+    icon: columns.text('icon'),
+    cap: columns.nullableDecimal('cap'),
+    cap_period: columns.oneOf('cap_period', CAP_PERIODS),
+    version: columns.integer('version'),
+  }),
+  toRecord: row => ({
+    id: row.id,
+    name: row.name,
+    color: row.color,
+    icon: row.icon,
+    cap: row.cap !== null ? parseCents(row.cap) : undefined,
+    capPeriod: row.cap_period,
+    version: row.version,
+  }),
+};
+
+export const recurringExpenseSchema: RowSchema<RecurringExpenseRow, RecurringExpense> = {
+  table: 'recurring_expenses',
+  read: columns => ({
+    id: columns.text('id'),
+    description: columns.text('description'),
+    amount: columns.decimal('amount'),
+    currency: columns.text('currency'),
+    category_id: columns.nullableText('category_id'),
+    cadence: columns.oneOf('cadence', CADENCES),
+    start_date: columns.date('start_date'),
+    end_date: columns.nullableDate('end_date'),
+    last_posted_date: columns.nullableDate('last_posted_date'),
+    notes: columns.nullableText('notes'),
+    version: columns.integer('version'),
+  }),
+  toRecord: row => ({
+    id: row.id,
+    description: row.description,
+    amount: parseCents(row.amount),
+    currency: row.currency,
+    categoryId: row.category_id || undefined,
+    cadence: row.cadence,
+    startDate: row.start_date,
+    endDate: row.end_date || undefined,
+    lastPostedDate: row.last_posted_date || undefined,
+    notes: row.notes || undefined,
+    version: row.version,
+  }),
+};
+
+export const fundingSchema: RowSchema<FundingRow, Funding> = {
+  table: 'funding',
+  read: columns => ({
+    id: columns.text('id'),
+    name: columns.text('name'),
+    kind: columns.oneOf('kind', FUNDING_KINDS),
+    amount: columns.decimal('amount'),
+    currency: columns.text('currency'),
+    expected_date: columns.date('expected_date'),
+    received_date: columns.nullableDate('received_date'),
+    notes: columns.nullableText('notes'),
+    version: columns.integer('version'),
+  }),
+  toRecord: row => ({
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    amount: parseCents(row.amount),
+    currency: row.currency,
+    expectedDate: row.expected_date,
+    receivedDate: row.received_date || undefined,
+    notes: row.notes || undefined,
+    version: row.version,
+  }),
+};
+
+export const savingsGoalSchema: RowSchema<SavingsGoalRow, SavingsGoal> = {
+  table: 'savings_goals',
+  read: columns => ({
+    id: columns.text('id'),
+    name: columns.text('name'),
+    trip_id: columns.nullableText('trip_id'),
+    wishlist_item_id: columns.nullableText('wishlist_item_id'),
+    target: columns.decimal('target'),
+    saved: columns.decimal('saved'),
+    start_date: columns.date('start_date'),
+    target_date: columns.date('target_date'),
+    version: columns.integer('version'),
+  }),
+  toRecord: row => ({
+    id: row.id,
+    name: row.name,
+    tripId: row.trip_id || undefined,
+    wishlistItemId: row.wishlist_item_id || undefined,
+    target: parseCents(row.target),
+    saved: parseCents(row.saved),
+    startDate: row.start_date,
+    targetDate: row.target_date,
+    version: row.version,
+  }),
+};
+
+const readCsvMapping = (columns: ColumnReader): CsvColumnMapping => ({
+  dateColumn: columns.integer('dateColumn'),
+  descriptionColumn: columns.integer('descriptionColumn'),
+  amountColumn: columns.integer('amountColumn'),
+  currencyColumn: columns.nullableInteger('currencyColumn'),
+  dateFormat: columns.oneOf('dateFormat', CSV_DATE_FORMATS),
+  decimalComma: columns.boolean('decimalComma'),
+  debitsNegative: columns.boolean('debitsNegative'),
+  hasHeader: columns.boolean('hasHeader'),
+  defaultCurrency: columns.text('defaultCurrency'),
+});
+
+export const csvImportPresetSchema: RowSchema<CsvImportPresetRow, CsvImportPreset> = {
+  table: 'csv_import_presets',
+  read: columns => ({
+    id: columns.text('id'),
+    name: columns.text('name'),
+    mapping: columns.nested('mapping', readCsvMapping),
+  }),
+  toRecord: row => ({ id: row.id, name: row.name, mapping: row.mapping }),
+};
+
+const SCENARIO_CHOICE_KINDS: readonly ScenarioChoice['kind'][] = ['trip', 'wishlistItem'];
+
+const readScenarioChoice = (columns: ColumnReader): ScenarioChoiceRow => ({
+  kind: columns.oneOf('kind', SCENARIO_CHOICE_KINDS),
+  item_id: columns.text('item_id'),
+  included: columns.boolean('included'),
+  cost: columns.nullableDecimal('cost'),
+});
+
+export const budgetScenarioSchema: RowSchema<BudgetScenarioRow, BudgetScenario> = {
+  table: 'budget_scenarios',
+  read: columns => ({
+    id: columns.text('id'),
+    name: columns.text('name'),
+    choices: columns.nestedList('choices', readScenarioChoice),
+  }),
+  toRecord: row => ({
+    id: row.id,
+    name: row.name,
+    choices: row.choices.map(choice => ({
+      kind: choice.kind,
+      itemId: choice.item_id,
+      included: choice.included,
+      cost: choice.cost !== null ? parseCents(choice.cost) : undefined,
+    })),
+  }),
+};
+
+export const exchangeRateSchema: RowSchema<ExchangeRateRow, ExchangeRate> = {
+  table: 'exchange_rates',
+  read: columns => ({
+    id: columns.text('id'),
+    base_currency: columns.text('base_currency'),
+    quote_currency: columns.text('quote_currency'),
+    rate: columns.decimal('rate'),
+    rate_date: columns.date('rate_date'),
+    source: columns.oneOf('source', RATE_SOURCES),
+  }),
+  toRecord: row => ({
+    id: row.id,
+    baseCurrency: row.base_currency,
+    quoteCurrency: row.quote_currency,
+    rate: Number(row.rate),
+    date: row.rate_date,
+    source: row.source,
+  }),
+};
+
+// Events are read separately (they arrive nested under the plan or from their own query)
+export const weeklyPlanSchema: RowSchema<WeeklyPlanRow, WeeklyPlanRow> = {
+  table: 'weekly_plans',
+  read: columns => ({
+    id: columns.text('id'),
+    week_start: columns.date('week_start'),
+  }),
+  toRecord: row => row,
+};
+
+export const weeklyPlanEventSchema: RowSchema<WeeklyPlanEventRow, WeeklyPlanEvent> = {
+  table: 'weekly_plan_events',
+  read: columns => ({
+    id: columns.text('id'),
+    plan_id: columns.text('plan_id'),
+    day_of_week: columns.integer('day_of_week'),
+    event_name: columns.text('event_name'),
+    amount: columns.decimal('amount'),
+    version: columns.integer('version'),
+  }),
+  toRecord: row => ({
+    id: row.id,
+    planId: row.plan_id,
+    dayOfWeek: row.day_of_week,
+    eventName: row.event_name,
+    amount: parseCents(row.amount),
+    version: row.version,
+  }),
+};
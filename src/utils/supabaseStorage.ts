@@ -1,5 +1,57 @@
 import { supabase } from '../lib/supabase';
-import { Budget, Trip, WishlistItem, Expense, BudgetMode, WeeklyPlan, WeeklyPlanEvent } from '../types';
+import type { RealtimePostgresChangesPayload, User as SupabaseUser } from '@supabase/supabase-js';
+import { format, subDays } from 'date-fns';
+import { Budget, BudgetChange, BudgetChangeCause, BudgetScenario, Trip, WishlistItem, Expense, ExpenseCategory, RecurringExpense, Funding, SavingsGoal, WeeklyPlan, WeeklyPlanEvent, ExchangeRate, Cents } from '../types';
+import { centsToDecimal } from './money';
+import { getDueOccurrences } from './recurring';
+import { calculateSpentAndPlanned } from './budgetCalculations';
+import { CsvImportPreset } from './csvImport';
+import {
+  BudgetRow,
+  ExpenseCategoryRow,
+  ExpenseRow,
+  FundingRow,
+  RecurringExpenseRow,
+  RowSchema,
+  RowUpdate,
+  SavingsGoalRow,
+  TripRow,
+  WeeklyPlanEventRow,
+  WishlistItemRow,
+  budgetChangeSchema,
+  budgetScenarioSchema,
+  budgetSchema,
+  csvImportPresetSchema,
+  exchangeRateSchema,
+  expenseCategorySchema,
+  expenseSchema,
+  fundingSchema,
+  parseRow,
+  parseRows,
+  recurringExpenseSchema,
+  savingsGoalSchema,
+  trashedSchema,
+  tripSchema,
+  weeklyPlanEventSchema,
+  weeklyPlanSchema,
+  wishlistItemSchema,
+} from './supabaseRows';
+import {
+  MalformedRow,
+  StorageAuth,
+  StorageBackend,
+  StorageChange,
+  StorageUser,
+  ExchangeRateStore,
+  StorageConflictError,
+  StorageReadError,
+  TRASH_DAYS,
+  TrashItem,
+  TrashKind,
+} from './storageBackend';
+
+// Local copy of the user's exchange rates so conversions still work offline
+const RATES_CACHE_KEY = 'abroadBuddy_exchangeRates';
 
 // Helper to ensure fresh session for write operations
 async function ensureFreshSession() {
@@ -14,7 +66,84 @@ async function ensureFreshSession() {
   return session?.user ?? null;
 }
 
-export const storage = {
+// The table each kind of trashable record lives in
+const TRASH_TABLES: Record<TrashKind, string> = {
+  trip: 'trips',
+  expense: 'expenses',
+  wishlistItem: 'wishlist_items',
+};
+
+// Update a row only while it's still at the version the caller last saw, when one is given.
+// No row matching means another device changed or deleted it first, so the row as it is now
+// is loaded for the conflict prompt. The version column itself is bumped by a trigger.
+async function updateVersioned<T, R>(
+  table: string,
+  id: string,
+  userId: string | null,
+  updateData: RowUpdate<R>,
+  version: number | null | undefined,
+  loadCurrent: () => Promise<T | null>
+): Promise<void> {
+  let query = supabase.from(table).update(updateData).eq('id', id);
+  if (userId) query = query.eq('user_id', userId);
+  if (typeof version === 'number') query = query.eq('version', version);
+
+  const { data, error } = await query.select('id');
+  if (error) throw error;
+
+  if (typeof version === 'number' && (!data || data.length === 0)) {
+    throw new StorageConflictError(await loadCurrent());
+  }
+}
+
+// Malformed rows from the latest read of each source (a get* method or query), so a row that
+// has been fixed on the server drops out of the report the next time it's read
+const malformedBySource = new Map<string, MalformedRow[]>();
+const malformedListeners = new Set<(rows: MalformedRow[]) => void>();
+
+const currentMalformedRows = (): MalformedRow[] => {
+  // A row can be read by more than one source, e.g. a weekly plan by getWeeklyPlan and getWeeklyPlans
+  const seen = new Set<string>();
+  return [...malformedBySource.values()].flat().filter(row => {
+    const key = `${row.table}:${row.id ?? row.problems.join()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const reportMalformedRows = (source: string, rows: MalformedRow[]) => {
+  if (rows.length === 0 && !malformedBySource.has(source)) return;
+
+  if (rows.length > 0) {
+    malformedBySource.set(source, rows);
+    rows.forEach(row => console.error(`Malformed row in ${row.table}${row.id ? ` (${row.id})` : ''}: ${row.problems.join('; ')}`));
+  } else {
+    malformedBySource.delete(source);
+  }
+
+  const current = currentMalformedRows();
+  malformedListeners.forEach(listener => listener(current));
+};
+
+// A query's rows in the app's types, leaving out (and reporting) the ones that don't fit the schema
+const mapRows = <R, T>(source: string, schema: RowSchema<R, T>, data: unknown[] | null): T[] => {
+  const { records, malformed } = parseRows(schema, data || []);
+  reportMalformedRows(source, malformed);
+  return records;
+};
+
+const mapRow = <R, T>(source: string, schema: RowSchema<R, T>, data: unknown): T | null =>
+  mapRows(source, schema, [data])[0] ?? null;
+
+// The row a write returned; the write went through, but the app can't use a row it can't read
+const mapWrittenRow = <R, T>(schema: RowSchema<R, T>, data: unknown): T => {
+  const result = parseRow(schema, data);
+  if (!result.ok) throw new StorageReadError(schema.table, result.malformed.problems.join('; '));
+  return result.record;
+};
+
+const storage = {
   // Budget
   async getBudget(): Promise<Budget | null> {
     const { data: { session } } = await supabase.auth.getSession();
@@ -25,42 +154,78 @@ export const storage = {
       .from('budgets')
       .select('*')
       .eq('user_id', user.id)
-      .single();
+      .maybeSingle();
 
-    if (error || !data) return null;
+    if (error) throw new StorageReadError('budgets', error.message);
+    if (!data) return null;
 
-    return {
-      budgetMode: (data.budget_mode as BudgetMode) || 'total',
-      semesterBudget: parseFloat(data.semester_budget),
-      startDate: data.start_date,
-      endDate: data.end_date,
-      spent: parseFloat(data.spent),
-      plannedSpending: parseFloat(data.planned_spending || '0'),
-    };
+    return mapRow('budget', budgetSchema, data);
   },
 
-  async saveBudget(budget: Budget): Promise<void> {
+  async saveBudget(budget: Budget, change?: BudgetChangeCause): Promise<void> {
     const user = await ensureFreshSession();
     if (!user) throw new Error('User not authenticated');
 
+    const budgetData: RowUpdate<BudgetRow> & { user_id: string } = {
+      user_id: user.id,
+      budget_mode: budget.budgetMode,
+      semester_budget: centsToDecimal(budget.semesterBudget),
+      start_date: budget.startDate,
+      end_date: budget.endDate,
+      home_currency: budget.homeCurrency,
+      spent: centsToDecimal(budget.spent),
+      planned_spending: centsToDecimal(budget.plannedSpending),
+      rollover_policy: budget.rolloverPolicy ?? 'none',
+      // No limit is stored as NULL; a limit of 0 would carry nothing over
+      rollover_cap: budget.rolloverCap != null ? centsToDecimal(budget.rolloverCap) : null,
+      // Picked up by the log_budget_change trigger; cleared so an old reason isn't reused
+      change_reason: change?.reason ?? null,
+      change_note: change?.note ?? null,
+      updated_at: new Date().toISOString(),
+    };
+
+    // An edit of a budget this device has seen only applies if nobody changed it since
+    if (typeof budget.version === 'number') {
+      const { data, error } = await supabase
+        .from('budgets')
+        .update(budgetData)
+        .eq('user_id', user.id)
+        .eq('version', budget.version)
+        .select('user_id');
+
+      if (error) throw error;
+      if (data && data.length > 0) return;
+
+      const current = await this.getBudget();
+      if (current) throw new StorageConflictError(current);
+      // Deleted elsewhere - fall through and create it again
+    }
+
     const { error } = await supabase
       .from('budgets')
-      .upsert({
-        user_id: user.id,
-        budget_mode: budget.budgetMode,
-        semester_budget: budget.semesterBudget,
-        start_date: budget.startDate,
-        end_date: budget.endDate,
-        spent: budget.spent,
-        planned_spending: budget.plannedSpending,
-        updated_at: new Date().toISOString(),
-      }, {
+      .upsert(budgetData, {
         onConflict: 'user_id'
       });
 
     if (error) throw error;
   },
 
+  async getBudgetChanges(): Promise<BudgetChange[]> {
+    const { data: { session } } = await supabase.auth.getSession();
+    const user = session?.user;
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('budget_changes')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('changed_at', { ascending: false });
+
+    if (error) throw new StorageReadError('budget_changes', error.message);
+
+    return mapRows('budgetChanges', budgetChangeSchema, data);
+  },
+
   // Trips
   async getTrips(): Promise<Trip[]> {
     const { data: { session } } = await supabase.auth.getSession();
@@ -71,33 +236,18 @@ export const storage = {
       .from('trips')
       .select('*')
       .eq('user_id', user.id)
+      .is('deleted_at', null)
       .order('start_date', { ascending: true });
 
-    if (error || !data) return [];
-
-    return data.map(trip => ({
-      id: trip.id,
-      name: trip.name,
-      destination: trip.destination,
-      startDate: trip.start_date,
-      endDate: trip.end_date,
-      // New fields - use them if available, otherwise fallback to legacy fields
-      prepaidCost: trip.prepaid_cost !== null ? parseFloat(trip.prepaid_cost) : (trip.actual_cost ? parseFloat(trip.actual_cost) : 0),
-      plannedCost: trip.planned_cost !== null ? parseFloat(trip.planned_cost) : parseFloat(trip.estimated_cost),
-      // Legacy fields for backward compatibility
-      estimatedCost: parseFloat(trip.estimated_cost),
-      actualCost: trip.actual_cost ? parseFloat(trip.actual_cost) : undefined,
-      notes: trip.notes || undefined,
-    }));
+    if (error) throw new StorageReadError('trips', error.message);
+
+    return mapRows('trips', tripSchema, data);
   },
 
   async addTrip(trip: Trip): Promise<void> {
     const user = await ensureFreshSession();
     if (!user) throw new Error('User not authenticated');
 
-    // Calculate legacy fields from new fields for backward compatibility
-    const totalCost = trip.prepaidCost + trip.plannedCost;
-
     const { error } = await supabase
       .from('trips')
       .insert({
@@ -107,11 +257,9 @@ export const storage = {
         destination: trip.destination,
         start_date: trip.startDate,
         end_date: trip.endDate,
-        prepaid_cost: trip.prepaidCost,
-        planned_cost: trip.plannedCost,
-        // Legacy fields - keep them in sync
-        estimated_cost: totalCost,
-        actual_cost: trip.prepaidCost > 0 ? trip.prepaidCost : null,
+        prepaid_cost: centsToDecimal(trip.prepaidCost),
+        planned_cost: centsToDecimal(trip.plannedCost),
+        currency: trip.currency,
         notes: trip.notes,
       });
 
@@ -122,39 +270,31 @@ export const storage = {
     const user = await ensureFreshSession();
     if (!user) throw new Error('User not authenticated');
 
-    const updateData: any = {};
+    const updateData: RowUpdate<TripRow> = {};
     if (updates.name) updateData.name = updates.name;
     if (updates.destination) updateData.destination = updates.destination;
     if (updates.startDate) updateData.start_date = updates.startDate;
     if (updates.endDate) updateData.end_date = updates.endDate;
-    if (updates.prepaidCost !== undefined) updateData.prepaid_cost = updates.prepaidCost;
-    if (updates.plannedCost !== undefined) updateData.planned_cost = updates.plannedCost;
-    // Update legacy fields too
-    if (updates.prepaidCost !== undefined || updates.plannedCost !== undefined) {
-      const prepaid = updates.prepaidCost ?? 0;
-      const planned = updates.plannedCost ?? 0;
-      updateData.estimated_cost = prepaid + planned;
-      updateData.actual_cost = prepaid > 0 ? prepaid : null;
-    }
+    if (updates.prepaidCost !== undefined) updateData.prepaid_cost = centsToDecimal(updates.prepaidCost);
+    if (updates.plannedCost !== undefined) updateData.planned_cost = centsToDecimal(updates.plannedCost);
+    if (updates.currency) updateData.currency = updates.currency;
     if (updates.notes !== undefined) updateData.notes = updates.notes;
     updateData.updated_at = new Date().toISOString();
 
-    const { error } = await supabase
-      .from('trips')
-      .update(updateData)
-      .eq('id', id)
-      .eq('user_id', user.id);
-
-    if (error) throw error;
+    await updateVersioned(
+      'trips', id, user.id, updateData, updates.version,
+      async () => (await this.getTrips()).find(trip => trip.id === id) || null
+    );
   },
 
   async deleteTrip(id: string): Promise<void> {
     const user = await ensureFreshSession();
     if (!user) throw new Error('User not authenticated');
 
+    // Into the trash; see supabase/migrations/0012_trash.sql
     const { error } = await supabase
       .from('trips')
-      .delete()
+      .update({ deleted_at: new Date().toISOString() })
       .eq('id', id)
       .eq('user_id', user.id);
 
@@ -171,18 +311,12 @@ export const storage = {
       .from('wishlist_items')
       .select('*')
       .eq('user_id', user.id)
+      .is('deleted_at', null)
       .order('created_at', { ascending: false });
 
-    if (error || !data) return [];
+    if (error) throw new StorageReadError('wishlist_items', error.message);
 
-    return data.map(item => ({
-      id: item.id,
-      name: item.name,
-      location: item.location,
-      estimatedCost: parseFloat(item.estimated_cost),
-      priority: item.priority as 'high' | 'medium' | 'low',
-      notes: item.notes || undefined,
-    }));
+    return mapRows('wishlist', wishlistItemSchema, data);
   },
 
   async addWishlistItem(item: WishlistItem): Promise<void> {
@@ -196,7 +330,8 @@ export const storage = {
         user_id: user.id,
         name: item.name,
         location: item.location,
-        estimated_cost: item.estimatedCost,
+        estimated_cost: centsToDecimal(item.estimatedCost),
+        currency: item.currency,
         priority: item.priority,
         notes: item.notes,
       });
@@ -208,30 +343,29 @@ export const storage = {
     const user = await ensureFreshSession();
     if (!user) throw new Error('User not authenticated');
 
-    const updateData: any = {};
+    const updateData: RowUpdate<WishlistItemRow> = {};
     if (updates.name) updateData.name = updates.name;
     if (updates.location) updateData.location = updates.location;
-    if (updates.estimatedCost !== undefined) updateData.estimated_cost = updates.estimatedCost;
+    if (updates.estimatedCost !== undefined) updateData.estimated_cost = centsToDecimal(updates.estimatedCost);
+    if (updates.currency) updateData.currency = updates.currency;
     if (updates.priority) updateData.priority = updates.priority;
     if (updates.notes !== undefined) updateData.notes = updates.notes;
     updateData.updated_at = new Date().toISOString();
 
-    const { error } = await supabase
-      .from('wishlist_items')
-      .update(updateData)
-      .eq('id', id)
-      .eq('user_id', user.id);
-
-    if (error) throw error;
+    await updateVersioned(
+      'wishlist_items', id, user.id, updateData, updates.version,
+      async () => (await this.getWishlist()).find(item => item.id === id) || null
+    );
   },
 
   async deleteWishlistItem(id: string): Promise<void> {
     const user = await ensureFreshSession();
     if (!user) throw new Error('User not authenticated');
 
+    // Into the trash; see supabase/migrations/0012_trash.sql
     const { error } = await supabase
       .from('wishlist_items')
-      .delete()
+      .update({ deleted_at: new Date().toISOString() })
       .eq('id', id)
       .eq('user_id', user.id);
 
@@ -248,18 +382,12 @@ export const storage = {
       .from('expenses')
       .select('*')
       .eq('user_id', user.id)
+      .is('deleted_at', null)
       .order('date', { ascending: false });
 
-    if (error || !data) return [];
+    if (error) throw new StorageReadError('expenses', error.message);
 
-    return data.map(expense => ({
-      id: expense.id,
-      description: expense.description,
-      amount: parseFloat(expense.amount),
-      date: expense.date,
-      category: expense.category || undefined,
-      notes: expense.notes || undefined,
-    }));
+    return mapRows('expenses', expenseSchema, data);
   },
 
   async addExpense(expense: Expense): Promise<void> {
@@ -273,42 +401,417 @@ export const storage = {
         id: expense.id,
         user_id: user.id,
         description: expense.description,
-        amount: expense.amount,
+        amount: centsToDecimal(expense.amount),
+        currency: expense.currency,
         date: expense.date,
-        category: expense.category,
+        category_id: expense.categoryId || null,
+        recurring_expense_id: expense.recurringExpenseId || null,
         notes: expense.notes,
       });
 
     if (error) throw error;
   },
 
+  // Insert many expenses in one request (CSV import)
+  async addExpenses(expenses: Expense[]): Promise<void> {
+    if (expenses.length === 0) return;
+
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('expenses')
+      .insert(expenses.map(expense => ({
+        id: expense.id,
+        user_id: user.id,
+        description: expense.description,
+        amount: centsToDecimal(expense.amount),
+        currency: expense.currency,
+        date: expense.date,
+        category_id: expense.categoryId || null,
+        recurring_expense_id: expense.recurringExpenseId || null,
+        notes: expense.notes,
+      })));
+
+    if (error) throw error;
+  },
+
   async updateExpense(id: string, updates: Partial<Expense>): Promise<void> {
     const user = await ensureFreshSession();
     if (!user) throw new Error('User not authenticated');
 
-    const updateData: any = {};
+    const updateData: RowUpdate<ExpenseRow> = {};
     if (updates.description) updateData.description = updates.description;
-    if (updates.amount !== undefined) updateData.amount = updates.amount;
+    if (updates.amount !== undefined) updateData.amount = centsToDecimal(updates.amount);
+    if (updates.currency) updateData.currency = updates.currency;
     if (updates.date) updateData.date = updates.date;
-    if (updates.category !== undefined) updateData.category = updates.category;
+    if (updates.categoryId !== undefined) updateData.category_id = updates.categoryId || null;
+    if (updates.recurringExpenseId !== undefined) updateData.recurring_expense_id = updates.recurringExpenseId || null;
     if (updates.notes !== undefined) updateData.notes = updates.notes;
     updateData.updated_at = new Date().toISOString();
 
+    await updateVersioned(
+      'expenses', id, user.id, updateData, updates.version,
+      async () => (await this.getExpenses()).find(expense => expense.id === id) || null
+    );
+  },
+
+  async deleteExpense(id: string): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    // Into the trash; see supabase/migrations/0012_trash.sql
     const { error } = await supabase
       .from('expenses')
-      .update(updateData)
+      .update({ deleted_at: new Date().toISOString() })
       .eq('id', id)
       .eq('user_id', user.id);
 
     if (error) throw error;
   },
 
-  async deleteExpense(id: string): Promise<void> {
+  // Trash
+  async getTrash(): Promise<TrashItem[]> {
+    const { data: { session } } = await supabase.auth.getSession();
+    const user = session?.user;
+    if (!user) return [];
+
+    const trashed = (table: string) => supabase
+      .from(table)
+      .select('*')
+      .eq('user_id', user.id)
+      .not('deleted_at', 'is', null);
+
+    const [trips, wishlist, expenses] = await Promise.all([trashed('trips'), trashed('wishlist_items'), trashed('expenses')]);
+    if (trips.error) throw new StorageReadError('trips', trips.error.message);
+    if (wishlist.error) throw new StorageReadError('wishlist_items', wishlist.error.message);
+    if (expenses.error) throw new StorageReadError('expenses', expenses.error.message);
+
+    const items: TrashItem[] = [
+      ...mapRows('trash.trips', trashedSchema(tripSchema), trips.data).map(item => ({ kind: 'trip' as const, ...item })),
+      ...mapRows('trash.wishlist', trashedSchema(wishlistItemSchema), wishlist.data).map(item => ({ kind: 'wishlistItem' as const, ...item })),
+      ...mapRows('trash.expenses', trashedSchema(expenseSchema), expenses.data).map(item => ({ kind: 'expense' as const, ...item })),
+    ];
+    return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  },
+
+  async restoreFromTrash(kind: TrashKind, id: string): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from(TRASH_TABLES[kind])
+      .update({ deleted_at: null })
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+  },
+
+  async deletePermanently(kind: TrashKind, id: string): Promise<void> {
     const user = await ensureFreshSession();
     if (!user) throw new Error('User not authenticated');
 
+    const { error } = await supabase
+      .from(TRASH_TABLES[kind])
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+  },
+
+  async purgeExpiredTrash(): Promise<number> {
+    const user = await ensureFreshSession();
+    if (!user) return 0;
+
+    const cutoff = subDays(new Date(), TRASH_DAYS).toISOString();
+    const results = await Promise.all(Object.values(TRASH_TABLES).map(table => supabase
+      .from(table)
+      .delete()
+      .eq('user_id', user.id)
+      .lt('deleted_at', cutoff)
+      .select('id')
+    ));
+
+    const failed = results.find(result => result.error);
+    if (failed?.error) throw failed.error;
+    return results.reduce((count, result) => count + (result.data?.length || 0), 0);
+  },
+
+  // Expense categories
+  async getCategories(): Promise<ExpenseCategory[]> {
+    const { data: { session } } = await supabase.auth.getSession();
+    const user = session?.user;
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('expense_categories')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true });
+
+    if (error) throw new StorageReadError('expense_categories', error.message);
+
+    return mapRows('categories', expenseCategorySchema, data);
+  },
+
+  async addCategory(category: ExpenseCategory): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('expense_categories')
+      .insert({
+        id: category.id,
+        user_id: user.id,
+        name: category.name,
+        color: category.color,
+        icon: category.icon,
+        // No cap is stored as NULL; `!= null` also covers writes queued with null for undefined
+        cap: category.cap != null ? centsToDecimal(category.cap) : null,
+        cap_period: category.capPeriod,
+      });
+
+    if (error) throw error;
+  },
+
+  async addDefaultCategories(categories: ExpenseCategory[]): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    // UNIQUE(user_id, name) turns names that are already there into no-ops
+    const { error } = await supabase
+      .from('expense_categories')
+      .upsert(categories.map(category => ({
+        id: category.id,
+        user_id: user.id,
+        name: category.name,
+        color: category.color,
+        icon: category.icon,
+        cap: category.cap != null ? centsToDecimal(category.cap) : null,
+        cap_period: category.capPeriod,
+      })), { onConflict: 'user_id,name', ignoreDuplicates: true });
+
+    if (error) throw error;
+  },
+
+  async updateCategory(id: string, updates: Partial<ExpenseCategory>): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    const updateData: RowUpdate<ExpenseCategoryRow> = {};
+    if (updates.name) updateData.name = updates.name;
+    if (updates.color) updateData.color = updates.color;
+    if (updates.icon) updateData.icon = updates.icon;
+    // `cap` is explicitly cleared when the key is present but undefined (or null)
+    if ('cap' in updates) updateData.cap = updates.cap != null ? centsToDecimal(updates.cap) : null;
+    if (updates.capPeriod) updateData.cap_period = updates.capPeriod;
+    updateData.updated_at = new Date().toISOString();
+
+    await updateVersioned(
+      'expense_categories', id, user.id, updateData, updates.version,
+      async () => (await this.getCategories()).find(category => category.id === id) || null
+    );
+  },
+
+  async deleteCategory(id: string): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    // Expenses in this category become uncategorised (ON DELETE SET NULL)
+    const { error } = await supabase
+      .from('expense_categories')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+  },
+
+  // Recurring expenses
+  async getRecurringExpenses(): Promise<RecurringExpense[]> {
+    const { data: { session } } = await supabase.auth.getSession();
+    const user = session?.user;
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('recurring_expenses')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('start_date', { ascending: true });
+
+    if (error) throw new StorageReadError('recurring_expenses', error.message);
+
+    return mapRows('recurringExpenses', recurringExpenseSchema, data);
+  },
+
+  async addRecurringExpense(series: RecurringExpense): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('recurring_expenses')
+      .insert({
+        id: series.id,
+        user_id: user.id,
+        description: series.description,
+        amount: centsToDecimal(series.amount),
+        currency: series.currency,
+        category_id: series.categoryId || null,
+        cadence: series.cadence,
+        start_date: series.startDate,
+        end_date: series.endDate || null,
+        last_posted_date: series.lastPostedDate || null,
+        notes: series.notes,
+      });
+
+    if (error) throw error;
+  },
+
+  // Only changes the definition - expenses already posted from the series are left as they are
+  async updateRecurringExpense(id: string, updates: Partial<RecurringExpense>): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    const updateData: RowUpdate<RecurringExpenseRow> = {};
+    if (updates.description) updateData.description = updates.description;
+    if (updates.amount !== undefined) updateData.amount = centsToDecimal(updates.amount);
+    if (updates.currency) updateData.currency = updates.currency;
+    if (updates.categoryId !== undefined) updateData.category_id = updates.categoryId || null;
+    if (updates.cadence) updateData.cadence = updates.cadence;
+    if (updates.startDate) updateData.start_date = updates.startDate;
+    // `endDate` is explicitly cleared when the key is present but undefined
+    if ('endDate' in updates) updateData.end_date = updates.endDate || null;
+    if (updates.lastPostedDate) updateData.last_posted_date = updates.lastPostedDate;
+    if (updates.notes !== undefined) updateData.notes = updates.notes;
+    updateData.updated_at = new Date().toISOString();
+
+    await updateVersioned(
+      'recurring_expenses', id, user.id, updateData, updates.version,
+      async () => (await this.getRecurringExpenses()).find(series => series.id === id) || null
+    );
+  },
+
+  async deleteRecurringExpense(id: string): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    // Posted expenses are kept and just lose the link (ON DELETE SET NULL)
+    const { error } = await supabase
+      .from('recurring_expenses')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+  },
+
+  // Post every occurrence that has come due since the last run as a normal expense.
+  // The unique (recurring_expense_id, date) index makes this safe to run from several tabs/devices.
+  // Returns the number of occurrences posted.
+  async postDueRecurringExpenses(): Promise<number> {
+    const seriesList = await this.getRecurringExpenses();
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const due = seriesList
+      .map(series => ({ series, dates: getDueOccurrences(series, today) }))
+      .filter(item => item.dates.length > 0);
+
+    if (due.length === 0) return 0;
+
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    const rows = due.flatMap(({ series, dates }) => dates.map(date => ({
+      id: crypto.randomUUID(),
+      user_id: user.id,
+      description: series.description,
+      amount: centsToDecimal(series.amount),
+      currency: series.currency,
+      date,
+      category_id: series.categoryId || null,
+      recurring_expense_id: series.id,
+      notes: series.notes,
+    })));
+
     const { error } = await supabase
       .from('expenses')
+      .upsert(rows, { onConflict: 'recurring_expense_id,date', ignoreDuplicates: true });
+
+    if (error) throw error;
+
+    await Promise.all(due.map(({ series, dates }) =>
+      this.updateRecurringExpense(series.id, { lastPostedDate: dates[dates.length - 1] })
+    ));
+
+    return rows.length;
+  },
+
+  // Funding (income)
+  async getFunding(): Promise<Funding[]> {
+    const { data: { session } } = await supabase.auth.getSession();
+    const user = session?.user;
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('funding')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('expected_date', { ascending: true });
+
+    if (error) throw new StorageReadError('funding', error.message);
+
+    return mapRows('funding', fundingSchema, data);
+  },
+
+  async addFunding(funding: Funding): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('funding')
+      .insert({
+        id: funding.id,
+        user_id: user.id,
+        name: funding.name,
+        kind: funding.kind,
+        amount: centsToDecimal(funding.amount),
+        currency: funding.currency,
+        expected_date: funding.expectedDate,
+        received_date: funding.receivedDate || null,
+        notes: funding.notes,
+      });
+
+    if (error) throw error;
+  },
+
+  async updateFunding(id: string, updates: Partial<Funding>): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    const updateData: RowUpdate<FundingRow> = {};
+    if (updates.name) updateData.name = updates.name;
+    if (updates.kind) updateData.kind = updates.kind;
+    if (updates.amount !== undefined) updateData.amount = centsToDecimal(updates.amount);
+    if (updates.currency) updateData.currency = updates.currency;
+    if (updates.expectedDate) updateData.expected_date = updates.expectedDate;
+    // `receivedDate` is explicitly cleared when the key is present but undefined
+    if ('receivedDate' in updates) updateData.received_date = updates.receivedDate || null;
+    if (updates.notes !== undefined) updateData.notes = updates.notes;
+    updateData.updated_at = new Date().toISOString();
+
+    await updateVersioned(
+      'funding', id, user.id, updateData, updates.version,
+      async () => (await this.getFunding()).find(funding => funding.id === id) || null
+    );
+  },
+
+  async deleteFunding(id: string): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('funding')
       .delete()
       .eq('id', id)
       .eq('user_id', user.id);
@@ -316,48 +819,198 @@ export const storage = {
     if (error) throw error;
   },
 
-  // Calculate total spent (prepaid trip costs + expenses)
-  async calculateTotalSpent(): Promise<number> {
-    const trips = await this.getTrips();
-    const expenses = await this.getExpenses();
+  // Savings goals
+  async getSavingsGoals(): Promise<SavingsGoal[]> {
+    const { data: { session } } = await supabase.auth.getSession();
+    const user = session?.user;
+    if (!user) return [];
 
-    // Sum prepaid costs from trips (money already spent)
-    const tripSpent = trips.reduce((sum, trip) => {
-      return sum + trip.prepaidCost;
-    }, 0);
+    const { data, error } = await supabase
+      .from('savings_goals')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('target_date', { ascending: true });
 
-    const expenseSpent = expenses.reduce((sum, expense) => {
-      return sum + expense.amount;
-    }, 0);
+    if (error) throw new StorageReadError('savings_goals', error.message);
 
-    return tripSpent + expenseSpent;
+    return mapRows('savingsGoals', savingsGoalSchema, data);
   },
 
-  // Calculate total planned spending (planned trip costs)
-  async calculateTotalPlanned(): Promise<number> {
-    const trips = await this.getTrips();
+  async addSavingsGoal(goal: SavingsGoal): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
 
-    // Sum planned costs from trips (money still to be spent)
-    const tripPlanned = trips.reduce((sum, trip) => {
-      return sum + trip.plannedCost;
-    }, 0);
+    const { error } = await supabase
+      .from('savings_goals')
+      .insert({
+        id: goal.id,
+        user_id: user.id,
+        name: goal.name,
+        trip_id: goal.tripId || null,
+        wishlist_item_id: goal.wishlistItemId || null,
+        target: centsToDecimal(goal.target),
+        saved: centsToDecimal(goal.saved),
+        start_date: goal.startDate,
+        target_date: goal.targetDate,
+      });
 
-    return tripPlanned;
+    if (error) throw error;
   },
 
-  // Calculate both spent and planned in one call (more efficient)
-  async calculateSpentAndPlanned(): Promise<{ spent: number; planned: number }> {
-    const trips = await this.getTrips();
-    const expenses = await this.getExpenses();
+  async updateSavingsGoal(id: string, updates: Partial<SavingsGoal>): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
 
-    const tripSpent = trips.reduce((sum, trip) => sum + trip.prepaidCost, 0);
-    const tripPlanned = trips.reduce((sum, trip) => sum + trip.plannedCost, 0);
-    const expenseSpent = expenses.reduce((sum, expense) => sum + expense.amount, 0);
+    const updateData: RowUpdate<SavingsGoalRow> = {};
+    if (updates.name) updateData.name = updates.name;
+    // The links are explicitly cleared when the key is present but undefined
+    if ('tripId' in updates) updateData.trip_id = updates.tripId || null;
+    if ('wishlistItemId' in updates) updateData.wishlist_item_id = updates.wishlistItemId || null;
+    if (updates.target !== undefined) updateData.target = centsToDecimal(updates.target);
+    if (updates.saved !== undefined) updateData.saved = centsToDecimal(updates.saved);
+    if (updates.startDate) updateData.start_date = updates.startDate;
+    if (updates.targetDate) updateData.target_date = updates.targetDate;
+    updateData.updated_at = new Date().toISOString();
 
-    return {
-      spent: tripSpent + expenseSpent,
-      planned: tripPlanned,
-    };
+    await updateVersioned(
+      'savings_goals', id, user.id, updateData, updates.version,
+      async () => (await this.getSavingsGoals()).find(goal => goal.id === id) || null
+    );
+  },
+
+  async deleteSavingsGoal(id: string): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('savings_goals')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+  },
+
+  // CSV import presets (one column mapping per bank)
+  async getCsvPresets(): Promise<CsvImportPreset[]> {
+    const { data: { session } } = await supabase.auth.getSession();
+    const user = session?.user;
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('csv_import_presets')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true });
+
+    if (error) throw new StorageReadError('csv_import_presets', error.message);
+
+    return mapRows('csvPresets', csvImportPresetSchema, data);
+  },
+
+  // Saving under an existing name replaces that preset
+  async saveCsvPreset(preset: CsvImportPreset): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('csv_import_presets')
+      .upsert({
+        id: preset.id,
+        user_id: user.id,
+        name: preset.name,
+        mapping: preset.mapping,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'user_id,name' });
+
+    if (error) throw error;
+  },
+
+  async deleteCsvPreset(id: string): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('csv_import_presets')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+  },
+
+  // What-if scenarios
+  async getScenarios(): Promise<BudgetScenario[]> {
+    const { data: { session } } = await supabase.auth.getSession();
+    const user = session?.user;
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('budget_scenarios')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true });
+
+    if (error) throw new StorageReadError('budget_scenarios', error.message);
+
+    return mapRows('scenarios', budgetScenarioSchema, data);
+  },
+
+  // Saving under an existing name replaces that scenario
+  async saveScenario(scenario: BudgetScenario): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('budget_scenarios')
+      .upsert({
+        id: scenario.id,
+        user_id: user.id,
+        name: scenario.name,
+        choices: scenario.choices.map(choice => ({
+          kind: choice.kind,
+          item_id: choice.itemId,
+          included: choice.included,
+          // NULL keeps the item's own cost; 0 would make it free
+          cost: choice.cost != null ? centsToDecimal(choice.cost) : null,
+        })),
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'user_id,name' });
+
+    if (error) throw error;
+  },
+
+  async deleteScenario(id: string): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('budget_scenarios')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+  },
+
+  // Totals in the home currency; each row is converted with the rate from its own date
+  async calculateTotalSpent(): Promise<Cents> {
+    return (await this.calculateSpentAndPlanned()).spent;
+  },
+
+  async calculateTotalPlanned(): Promise<Cents> {
+    return (await this.calculateSpentAndPlanned()).planned;
+  },
+
+  async calculateSpentAndPlanned(): Promise<{ spent: Cents; planned: Cents }> {
+    const [budget, trips, expenses, recurringExpenses, exchangeRates] = await Promise.all([
+      this.getBudget(),
+      this.getTrips(),
+      this.getExpenses(),
+      this.getRecurringExpenses(),
+      rates.getRates(),
+    ]);
+    return calculateSpentAndPlanned(budget, trips, expenses, recurringExpenses, exchangeRates);
   },
 
   // Weekly Plans
@@ -372,33 +1025,52 @@ export const storage = {
       .select('*')
       .eq('user_id', user.id)
       .eq('week_start', weekStart)
-      .single();
+      .maybeSingle();
 
-    if (planError || !planData) return null;
+    if (planError) throw new StorageReadError('weekly_plans', planError.message);
+    const plan = planData && mapRow(`weeklyPlan:${weekStart}`, weeklyPlanSchema, planData);
+    if (!plan) return null;
 
     // Get all events for this plan
     const { data: eventsData, error: eventsError } = await supabase
       .from('weekly_plan_events')
       .select('*')
-      .eq('plan_id', planData.id)
+      .eq('plan_id', plan.id)
       .order('created_at', { ascending: true });
 
-    if (eventsError) return null;
+    if (eventsError) throw new StorageReadError('weekly_plan_events', eventsError.message);
 
     return {
-      id: planData.id,
-      weekStart: planData.week_start,
-      events: (eventsData || []).map(event => ({
-        id: event.id,
-        planId: event.plan_id,
-        dayOfWeek: event.day_of_week,
-        eventName: event.event_name,
-        amount: parseFloat(event.amount),
-      })),
+      id: plan.id,
+      weekStart: plan.week_start,
+      events: mapRows(`weeklyPlanEvents:${weekStart}`, weeklyPlanEventSchema, eventsData),
     };
   },
 
-  async createOrGetWeeklyPlan(weekStart: string): Promise<WeeklyPlan> {
+  // Every weekly plan with its events, oldest week first (used by the data export)
+  async getWeeklyPlans(): Promise<WeeklyPlan[]> {
+    const { data: { session } } = await supabase.auth.getSession();
+    const user = session?.user;
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('weekly_plans')
+      .select('*, weekly_plan_events(*)')
+      .eq('user_id', user.id)
+      .order('week_start', { ascending: true });
+
+    if (error) throw new StorageReadError('weekly_plans', error.message);
+
+    const plans = mapRows('weeklyPlans', weeklyPlanSchema, data);
+    const events = mapRows('weeklyPlans.events', weeklyPlanEventSchema, data.flatMap(plan => plan.weekly_plan_events || []));
+    return plans.map(plan => ({
+      id: plan.id,
+      weekStart: plan.week_start,
+      events: events.filter(event => event.planId === plan.id),
+    }));
+  },
+
+  async createOrGetWeeklyPlan(weekStart: string, id?: string): Promise<WeeklyPlan> {
     const user = await ensureFreshSession();
     if (!user) throw new Error('User not authenticated');
 
@@ -410,6 +1082,7 @@ export const storage = {
     const { data, error } = await supabase
       .from('weekly_plans')
       .insert({
+        ...(id ? { id } : {}),
         user_id: user.id,
         week_start: weekStart,
       })
@@ -418,54 +1091,49 @@ export const storage = {
 
     if (error) throw error;
 
+    const plan = mapWrittenRow(weeklyPlanSchema, data);
     return {
-      id: data.id,
-      weekStart: data.week_start,
+      id: plan.id,
+      weekStart: plan.week_start,
       events: [],
     };
   },
 
-  async addWeeklyPlanEvent(planId: string, event: Omit<WeeklyPlanEvent, 'id' | 'planId'>): Promise<WeeklyPlanEvent> {
+  async addWeeklyPlanEvent(planId: string, event: Omit<WeeklyPlanEvent, 'id' | 'planId'>, id?: string): Promise<WeeklyPlanEvent> {
     const user = await ensureFreshSession();
     if (!user) throw new Error('User not authenticated');
 
     const { data, error } = await supabase
       .from('weekly_plan_events')
       .insert({
+        ...(id ? { id } : {}),
         plan_id: planId,
         day_of_week: event.dayOfWeek,
         event_name: event.eventName,
-        amount: event.amount,
+        amount: centsToDecimal(event.amount),
       })
       .select()
       .single();
 
     if (error) throw error;
 
-    return {
-      id: data.id,
-      planId: data.plan_id,
-      dayOfWeek: data.day_of_week,
-      eventName: data.event_name,
-      amount: parseFloat(data.amount),
-    };
+    return mapWrittenRow(weeklyPlanEventSchema, data);
   },
 
   async updateWeeklyPlanEvent(eventId: string, updates: Partial<Omit<WeeklyPlanEvent, 'id' | 'planId'>>): Promise<void> {
     const user = await ensureFreshSession();
     if (!user) throw new Error('User not authenticated');
 
-    const updateData: any = {};
+    const updateData: RowUpdate<WeeklyPlanEventRow> = {};
     if (updates.dayOfWeek !== undefined) updateData.day_of_week = updates.dayOfWeek;
     if (updates.eventName !== undefined) updateData.event_name = updates.eventName;
-    if (updates.amount !== undefined) updateData.amount = updates.amount;
+    if (updates.amount !== undefined) updateData.amount = centsToDecimal(updates.amount);
 
-    const { error } = await supabase
-      .from('weekly_plan_events')
-      .update(updateData)
-      .eq('id', eventId);
-
-    if (error) throw error;
+    await updateVersioned('weekly_plan_events', eventId, null, updateData, updates.version, async () => {
+      const { data, error } = await supabase.from('weekly_plan_events').select('*').eq('id', eventId).maybeSingle();
+      if (error) throw new StorageReadError('weekly_plan_events', error.message);
+      return data && mapRow(`weeklyPlanEvent:${eventId}`, weeklyPlanEventSchema, data);
+    });
   },
 
   async deleteWeeklyPlanEvent(eventId: string): Promise<void> {
@@ -492,4 +1160,248 @@ export const storage = {
 
     if (error) throw error;
   },
-};
\ No newline at end of file
+};
+
+// Exchange rates - every lookup falls back to the local cache when Supabase can't be reached
+function readCachedRates(): ExchangeRate[] {
+  try {
+    const data = localStorage.getItem(RATES_CACHE_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+function writeCachedRates(exchangeRates: ExchangeRate[]) {
+  localStorage.setItem(RATES_CACHE_KEY, JSON.stringify(exchangeRates));
+}
+
+const rates: ExchangeRateStore = {
+  getCachedRates(): ExchangeRate[] {
+    return readCachedRates();
+  },
+
+  clearCache(): void {
+    localStorage.removeItem(RATES_CACHE_KEY);
+  },
+
+  async getRates(): Promise<ExchangeRate[]> {
+    const { data: { session } } = await supabase.auth.getSession();
+    const user = session?.user;
+    if (!user) return readCachedRates();
+
+    try {
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('rate_date', { ascending: true });
+
+      if (error) {
+        console.error('Error loading exchange rates:', error.message);
+        return readCachedRates();
+      }
+
+      const exchangeRates = mapRows('rates', exchangeRateSchema, data);
+      writeCachedRates(exchangeRates);
+      return exchangeRates;
+    } catch (e) {
+      // Offline - use the rates we saw last
+      return readCachedRates();
+    }
+  },
+
+  // Add or replace rates; a pair has at most one rate per date
+  async saveRates(newRates: Omit<ExchangeRate, 'id'>[]): Promise<ExchangeRate[]> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+    if (newRates.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .upsert(newRates.map(rate => ({
+        user_id: user.id,
+        base_currency: rate.baseCurrency,
+        quote_currency: rate.quoteCurrency,
+        rate: rate.rate,
+        rate_date: rate.date,
+        source: rate.source,
+      })), {
+        onConflict: 'user_id,base_currency,quote_currency,rate_date'
+      })
+      .select();
+
+    if (error) throw error;
+
+    const saved = (data || []).map(row => mapWrittenRow(exchangeRateSchema, row));
+    const savedIds = new Set(saved.map(rate => rate.id));
+    const cached = readCachedRates().filter(rate => !savedIds.has(rate.id) && !saved.some(s =>
+      s.baseCurrency === rate.baseCurrency && s.quoteCurrency === rate.quoteCurrency && s.date === rate.date
+    ));
+    writeCachedRates([...cached, ...saved]);
+
+    return saved;
+  },
+
+  async deleteRate(id: string): Promise<void> {
+    const user = await ensureFreshSession();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('exchange_rates')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+
+    writeCachedRates(readCachedRates().filter(rate => rate.id !== id));
+  },
+};
+
+const toStorageUser = (user: SupabaseUser): StorageUser => ({
+  id: user.id,
+  email: user.email || '',
+  createdAt: user.created_at,
+});
+
+const auth: StorageAuth = {
+  async getUser() {
+    // getSession() uses the cached session, so it doesn't hang when the tab is in the background
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user ? toStorageUser(session.user) : null;
+  },
+
+  onAuthStateChange(callback) {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      const authEvent = event === 'SIGNED_IN' || event === 'SIGNED_OUT' ? event : 'UPDATED';
+      callback(authEvent, session?.user ? toStorageUser(session.user) : null);
+    });
+    return () => subscription.unsubscribe();
+  },
+
+  async signIn(email, password) {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+  },
+
+  async signUp(email, password) {
+    const { data, error } = await supabase.auth.signUp({ email, password });
+    if (error) throw error;
+    return { needsConfirmation: !data.session };
+  },
+
+  async signOut() {
+    await supabase.auth.signOut();
+    // The next account's rows are checked afresh
+    [...malformedBySource.keys()].forEach(source => reportMalformedRows(source, []));
+  },
+};
+
+// A realtime payload's row: the whole row for inserts and updates, only its id for deletes
+type RealtimeRow = { [column: string]: unknown };
+
+// Rows arriving over realtime get the same checks as query results; one that doesn't fit is
+// skipped, and the next full read reports it
+const realtimeRecord = <R, T>(schema: RowSchema<R, T>, row: RealtimeRow): T | null => {
+  const result = parseRow(schema, row);
+  if (result.ok) return result.record;
+  console.error(`Skipped a malformed ${schema.table} change: ${result.malformed.problems.join('; ')}`);
+  return null;
+};
+
+// Tables streamed over Supabase realtime (see supabase/migrations/0011_realtime.sql). `ownRows` is false for
+// weekly_plan_events, which has no user_id column - row level security limits its inserts and updates instead.
+const REALTIME_TABLES: { table: string; ownRows: boolean; toChange: (row: RealtimeRow, deleted: boolean) => StorageChange | null }[] = [
+  // Budgets are never deleted, and a delete can't be traced back to its user anyway
+  {
+    table: 'budgets',
+    ownRows: true,
+    toChange: (row, deleted) => {
+      const record = deleted ? null : realtimeRecord(budgetSchema, row);
+      return record && { kind: 'budget', record };
+    },
+  },
+  // Moving to the trash (or back) arrives as an update
+  {
+    table: 'trips',
+    ownRows: true,
+    toChange: (row, deleted) => {
+      if (deleted || row.deleted_at) return { kind: 'trip', id: String(row.id), record: null };
+      const record = realtimeRecord(tripSchema, row);
+      return record && { kind: 'trip', id: record.id, record };
+    },
+  },
+  {
+    table: 'wishlist_items',
+    ownRows: true,
+    toChange: (row, deleted) => {
+      if (deleted || row.deleted_at) return { kind: 'wishlistItem', id: String(row.id), record: null };
+      const record = realtimeRecord(wishlistItemSchema, row);
+      return record && { kind: 'wishlistItem', id: record.id, record };
+    },
+  },
+  {
+    table: 'expenses',
+    ownRows: true,
+    toChange: (row, deleted) => {
+      if (deleted || row.deleted_at) return { kind: 'expense', id: String(row.id), record: null };
+      const record = realtimeRecord(expenseSchema, row);
+      return record && { kind: 'expense', id: record.id, record };
+    },
+  },
+  {
+    table: 'weekly_plan_events',
+    ownRows: false,
+    toChange: (row, deleted) => {
+      if (deleted) return { kind: 'weeklyPlanEvent', id: String(row.id), record: null };
+      const record = realtimeRecord(weeklyPlanEventSchema, row);
+      return record && { kind: 'weeklyPlanEvent', id: record.id, record };
+    },
+  },
+];
+
+const subscribeToChanges = (userId: string, onChange: (change: StorageChange) => void): (() => void) => {
+  const report = (payload: RealtimePostgresChangesPayload<RealtimeRow>, toChange: (row: RealtimeRow, deleted: boolean) => StorageChange | null) => {
+    const change = payload.eventType === 'DELETE' ? toChange(payload.old, true) : toChange(payload.new, false);
+    if (change) onChange(change);
+  };
+
+  const channel = supabase.channel(`changes:${userId}`);
+  REALTIME_TABLES.forEach(({ table, ownRows, toChange }) => {
+    channel.on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table,
+      ...(ownRows ? { filter: `user_id=eq.${userId}` } : {}),
+    }, payload => report(payload, toChange));
+    // A delete only carries the row's id, so it can't match the user filter (and with row level
+    // security on, not even REPLICA IDENTITY FULL sends more). Every user's deletes arrive here;
+    // patchById ignores ids this client doesn't hold.
+    if (ownRows) {
+      channel.on('postgres_changes', { event: 'DELETE', schema: 'public', table }, payload => report(payload, toChange));
+    }
+  });
+  channel.subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+const subscribeToMalformedRows = (listener: (rows: MalformedRow[]) => void): (() => void) => {
+  malformedListeners.add(listener);
+  listener(currentMalformedRows());
+  return () => {
+    malformedListeners.delete(listener);
+  };
+};
+
+export const supabaseBackend: StorageBackend = {
+  kind: 'supabase',
+  auth,
+  rates,
+  subscribeToChanges,
+  subscribeToMalformedRows,
+  ...storage,
+};
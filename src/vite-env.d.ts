@@ -3,6 +3,8 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
+  // 'supabase' (default), 'local' (this browser only) or 'memory' (nothing saved)
+  readonly VITE_STORAGE_BACKEND?: 'supabase' | 'local' | 'memory'
 }
 
 interface ImportMeta {
@@ -0,0 +1,120 @@
+-- SQL Migration for the base schema: budgets, trips, wishlist items and expenses
+-- as the first version of GlobeBudget created them. Later migrations build on these tables.
+
+-- One budget per user
+CREATE TABLE budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  semester_budget DECIMAL(10, 2) DEFAULT 0 NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  spent DECIMAL(10, 2) DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Planned trips. estimated_cost/actual_cost are replaced by prepaid_cost/planned_cost in
+-- 0002_budget_modes.sql and dropped in 0014_drop_legacy_trip_columns.sql.
+CREATE TABLE trips (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  destination TEXT DEFAULT '' NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  estimated_cost DECIMAL(10, 2) DEFAULT 0 NOT NULL,
+  actual_cost DECIMAL(10, 2),      -- NULL = not paid yet
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Places the user would like to visit
+CREATE TABLE wishlist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  location TEXT DEFAULT '' NOT NULL,
+  estimated_cost DECIMAL(10, 2) DEFAULT 0 NOT NULL,
+  priority TEXT DEFAULT 'medium' NOT NULL CHECK (priority IN ('high', 'medium', 'low')),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Day-to-day spending. The free-text category is replaced by category_id in
+-- 0006_expense_categories.sql.
+CREATE TABLE expenses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  description TEXT NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL,
+  date DATE NOT NULL,
+  category TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE budgets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE trips ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wishlist_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE expenses ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can only access their own budget
+CREATE POLICY "Users can view their own budget" ON budgets
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own budget" ON budgets
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own budget" ON budgets
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own budget" ON budgets
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- RLS Policy: Users can only access their own trips
+CREATE POLICY "Users can view their own trips" ON trips
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own trips" ON trips
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own trips" ON trips
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own trips" ON trips
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- RLS Policy: Users can only access their own wishlist
+CREATE POLICY "Users can view their own wishlist items" ON wishlist_items
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own wishlist items" ON wishlist_items
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own wishlist items" ON wishlist_items
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own wishlist items" ON wishlist_items
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- RLS Policy: Users can only access their own expenses
+CREATE POLICY "Users can view their own expenses" ON expenses
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own expenses" ON expenses
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own expenses" ON expenses
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own expenses" ON expenses
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Indexes for faster lookups
+CREATE INDEX idx_trips_user_date ON trips(user_id, start_date);
+CREATE INDEX idx_wishlist_items_user ON wishlist_items(user_id, created_at);
+CREATE INDEX idx_expenses_user_date ON expenses(user_id, date);
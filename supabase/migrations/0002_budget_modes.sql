@@ -1,5 +1,4 @@
 -- Migration script to update GlobeBudget schema for multiple budget modes
--- Run this in your Supabase SQL editor
 
 -- =====================================================
 -- STEP 1: Update budgets table
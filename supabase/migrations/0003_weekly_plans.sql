@@ -1,5 +1,4 @@
 -- SQL Migration for Weekly Budget Planner
--- Run this in your Supabase SQL editor
 
 -- Table to store weekly plans (one per week per user)
 CREATE TABLE weekly_plans (
@@ -0,0 +1,33 @@
+-- Migration script to add multi-currency support
+
+-- =====================================================
+-- STEP 1: Home currency and exchange rates on budgets
+-- =====================================================
+
+ALTER TABLE budgets
+ADD COLUMN IF NOT EXISTS home_currency TEXT DEFAULT 'USD' NOT NULL,
+ADD COLUMN IF NOT EXISTS exchange_rates JSONB DEFAULT '{}'::jsonb NOT NULL;
+
+-- =====================================================
+-- STEP 2: Currency code on every money row
+-- =====================================================
+
+-- Existing rows were entered in the budget's currency, which was always USD
+ALTER TABLE trips
+ADD COLUMN IF NOT EXISTS currency TEXT DEFAULT 'USD' NOT NULL;
+
+ALTER TABLE wishlist_items
+ADD COLUMN IF NOT EXISTS currency TEXT DEFAULT 'USD' NOT NULL;
+
+ALTER TABLE expenses
+ADD COLUMN IF NOT EXISTS currency TEXT DEFAULT 'USD' NOT NULL;
+
+-- =====================================================
+-- NOTES:
+-- =====================================================
+--
+-- - Amounts are stored in their original currency (trips.currency, expenses.currency, ...)
+-- - budgets.home_currency is the currency the budget and all totals are shown in
+-- - budgets.exchange_rates maps a currency code to units of home currency,
+--   e.g. {"EUR": 1.08, "GBP": 1.27} for a USD budget
+-- - weekly_plan_events.amount is always in the home currency
@@ -0,0 +1,42 @@
+-- SQL Migration for the exchange rate store
+
+-- Table to store exchange rate history (one rate per currency pair per day per user)
+CREATE TABLE exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  base_currency TEXT NOT NULL,  -- 1 unit of base_currency...
+  quote_currency TEXT NOT NULL, -- ...is worth `rate` units of quote_currency
+  rate NUMERIC NOT NULL CHECK (rate > 0),
+  rate_date DATE NOT NULL,
+  source TEXT DEFAULT 'manual' NOT NULL CHECK (source IN ('manual', 'import')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, base_currency, quote_currency, rate_date)
+);
+
+-- Enable Row Level Security
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can only access their own exchange rates
+CREATE POLICY "Users can view their own exchange rates" ON exchange_rates
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own exchange rates" ON exchange_rates
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own exchange rates" ON exchange_rates
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own exchange rates" ON exchange_rates
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Index for faster lookups
+CREATE INDEX idx_exchange_rates_user_pair ON exchange_rates(user_id, base_currency, quote_currency, rate_date);
+
+-- Move the single rates saved on budgets into the history, dated at the budget start
+INSERT INTO exchange_rates (user_id, base_currency, quote_currency, rate, rate_date)
+SELECT b.user_id, r.key, b.home_currency, (r.value)::NUMERIC, b.start_date
+FROM budgets b, jsonb_each_text(b.exchange_rates) r
+WHERE (r.value)::NUMERIC > 0
+ON CONFLICT (user_id, base_currency, quote_currency, rate_date) DO NOTHING;
+
+ALTER TABLE budgets DROP COLUMN IF EXISTS exchange_rates;
@@ -0,0 +1,53 @@
+-- SQL Migration for expense categories
+
+-- Table to store each user's expense categories and their optional spending caps
+CREATE TABLE expense_categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  color TEXT DEFAULT '#64748b' NOT NULL, -- Hex colour, e.g. #22c55e
+  icon TEXT DEFAULT 'tag' NOT NULL,      -- Icon key, see src/utils/categories.ts
+  cap DECIMAL(10, 2),                    -- NULL = no cap, in the budget's home currency
+  cap_period TEXT DEFAULT 'monthly' NOT NULL CHECK (cap_period IN ('monthly', 'semester')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, name)
+);
+
+-- Enable Row Level Security
+ALTER TABLE expense_categories ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can only access their own categories
+CREATE POLICY "Users can view their own expense categories" ON expense_categories
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own expense categories" ON expense_categories
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own expense categories" ON expense_categories
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own expense categories" ON expense_categories
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Index for faster lookups
+CREATE INDEX idx_expense_categories_user ON expense_categories(user_id);
+
+-- Expenses point at a category; deleting the category leaves them uncategorised
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS category_id UUID REFERENCES expense_categories(id) ON DELETE SET NULL;
+CREATE INDEX idx_expenses_category ON expenses(category_id);
+
+-- Turn the free-text categories already typed on expenses into categories ("food " and "Food" become one)
+INSERT INTO expense_categories (user_id, name)
+SELECT DISTINCT user_id, initcap(trim(category))
+FROM expenses
+WHERE category IS NOT NULL AND trim(category) <> '' AND trim(category) <> 'Balance Adjustment'
+ON CONFLICT (user_id, name) DO NOTHING;
+
+UPDATE expenses e
+SET category_id = c.id
+FROM expense_categories c
+WHERE c.user_id = e.user_id
+  AND c.name = initcap(trim(e.category));
+
+-- The old text column is kept for now so existing rows can still be checked; it is no longer read by the app
@@ -0,0 +1,44 @@
+-- SQL Migration for recurring expenses
+
+-- Table to store recurring expense definitions (rent, phone plan, transit pass)
+CREATE TABLE recurring_expenses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  description TEXT NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL,
+  currency TEXT DEFAULT 'USD' NOT NULL,
+  category_id UUID REFERENCES expense_categories(id) ON DELETE SET NULL,
+  cadence TEXT NOT NULL CHECK (cadence IN ('weekly', 'monthly', 'yearly')),
+  start_date DATE NOT NULL,        -- First occurrence
+  end_date DATE,                   -- NULL = no end
+  last_posted_date DATE,           -- Latest occurrence already posted to expenses
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+-- Enable Row Level Security
+ALTER TABLE recurring_expenses ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can only access their own recurring expenses
+CREATE POLICY "Users can view their own recurring expenses" ON recurring_expenses
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own recurring expenses" ON recurring_expenses
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own recurring expenses" ON recurring_expenses
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recurring expenses" ON recurring_expenses
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Index for faster lookups
+CREATE INDEX idx_recurring_expenses_user ON recurring_expenses(user_id);
+
+-- Posted occurrences link back to their series; deleting the series keeps them as plain expenses
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS recurring_expense_id UUID REFERENCES recurring_expenses(id) ON DELETE SET NULL;
+
+-- One expense per series per due date, so posting from two devices at once can't double up
+CREATE UNIQUE INDEX idx_expenses_recurring_date ON expenses(recurring_expense_id, date);
@@ -0,0 +1,35 @@
+-- SQL Migration for income and funding sources
+
+-- Table to store money coming in (scholarships, transfers from home, part-time pay)
+CREATE TABLE funding (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  kind TEXT DEFAULT 'other' NOT NULL CHECK (kind IN ('scholarship', 'family', 'job', 'other')),
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT DEFAULT 'USD' NOT NULL,
+  expected_date DATE NOT NULL,
+  received_date DATE,              -- NULL = not arrived yet
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE funding ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can only access their own funding
+CREATE POLICY "Users can view their own funding" ON funding
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own funding" ON funding
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own funding" ON funding
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own funding" ON funding
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Index for faster lookups
+CREATE INDEX idx_funding_user_date ON funding(user_id, expected_date);
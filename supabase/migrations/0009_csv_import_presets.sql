@@ -0,0 +1,28 @@
+-- SQL Migration for bank-statement CSV import presets
+
+-- Table to store saved column mappings, one per bank export format
+CREATE TABLE csv_import_presets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  mapping JSONB NOT NULL, -- CsvColumnMapping, see src/utils/csvImport.ts
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, name)
+);
+
+-- Enable Row Level Security
+ALTER TABLE csv_import_presets ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can only access their own presets
+CREATE POLICY "Users can view their own import presets" ON csv_import_presets
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own import presets" ON csv_import_presets
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own import presets" ON csv_import_presets
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own import presets" ON csv_import_presets
+  FOR DELETE USING (auth.uid() = user_id);
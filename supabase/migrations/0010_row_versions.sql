@@ -0,0 +1,39 @@
+-- SQL Migration for row versions (multi-device conflict detection)
+
+-- Every editable row gets a version number. The app sends the version it last saw with each
+-- update and filters on it, so a write based on an out-of-date copy matches no rows.
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE wishlist_items ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE expense_categories ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE recurring_expenses ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE funding ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE weekly_plan_events ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- Bump the version on every update, whoever makes it (including ON DELETE SET NULL), so the
+-- client never has to and can't get it wrong
+CREATE OR REPLACE FUNCTION bump_row_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.version := OLD.version + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER bump_budgets_version BEFORE UPDATE ON budgets
+  FOR EACH ROW EXECUTE FUNCTION bump_row_version();
+CREATE TRIGGER bump_trips_version BEFORE UPDATE ON trips
+  FOR EACH ROW EXECUTE FUNCTION bump_row_version();
+CREATE TRIGGER bump_wishlist_items_version BEFORE UPDATE ON wishlist_items
+  FOR EACH ROW EXECUTE FUNCTION bump_row_version();
+CREATE TRIGGER bump_expenses_version BEFORE UPDATE ON expenses
+  FOR EACH ROW EXECUTE FUNCTION bump_row_version();
+CREATE TRIGGER bump_expense_categories_version BEFORE UPDATE ON expense_categories
+  FOR EACH ROW EXECUTE FUNCTION bump_row_version();
+CREATE TRIGGER bump_recurring_expenses_version BEFORE UPDATE ON recurring_expenses
+  FOR EACH ROW EXECUTE FUNCTION bump_row_version();
+CREATE TRIGGER bump_funding_version BEFORE UPDATE ON funding
+  FOR EACH ROW EXECUTE FUNCTION bump_row_version();
+CREATE TRIGGER bump_weekly_plan_events_version BEFORE UPDATE ON weekly_plan_events
+  FOR EACH ROW EXECUTE FUNCTION bump_row_version();
@@ -0,0 +1,5 @@
+-- SQL Migration for live updates across devices
+
+-- Stream changes to these tables over Supabase realtime. Subscribers only receive inserts and
+-- updates to rows their RLS policies let them see; deletes carry just the row's id.
+ALTER PUBLICATION supabase_realtime ADD TABLE budgets, trips, wishlist_items, expenses, weekly_plan_events;
@@ -0,0 +1,27 @@
+-- SQL Migration for the trash (soft delete of trips, expenses and wishlist items)
+
+-- Deleting sets deleted_at instead of removing the row. The app leaves these rows out of every
+-- list and total, shows them under Profile > Trash, and removes them for good after 30 days.
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE wishlist_items ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Only the trash looks rows up by deleted_at, so index just those
+CREATE INDEX idx_trips_deleted ON trips(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_wishlist_items_deleted ON wishlist_items(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_expenses_deleted ON expenses(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- A deleted occurrence of a recurring expense still holds its (recurring_expense_id, date)
+-- slot, so it isn't posted again while it sits in the trash.
+
+-- The app purges its own expired rows each time it loads. This purges everyone's, for
+-- accounts that haven't been opened in a while - e.g. nightly with pg_cron:
+--   SELECT cron.schedule('purge-expired-trash', '0 3 * * *', 'SELECT purge_expired_trash()');
+CREATE OR REPLACE FUNCTION purge_expired_trash()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM trips WHERE deleted_at < NOW() - INTERVAL '30 days';
+  DELETE FROM wishlist_items WHERE deleted_at < NOW() - INTERVAL '30 days';
+  DELETE FROM expenses WHERE deleted_at < NOW() - INTERVAL '30 days';
+END;
+$$ LANGUAGE plpgsql;
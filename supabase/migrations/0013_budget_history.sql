@@ -0,0 +1,66 @@
+-- SQL Migration for the budget audit log (balance history timeline)
+
+-- Why the budget was last saved. The app sends these with every save; the trigger below copies
+-- them into the log, so every device's writes are recorded the same way.
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS change_reason TEXT;
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS change_note TEXT;
+
+-- One row per change to the budget settings, with the values before and after
+CREATE TABLE budget_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('setup', 'edit', 'balance_update', 'expense', 'funding', 'undo', 'redo', 'restore')),
+  note TEXT,
+  before JSONB,                    -- NULL for the first budget
+  after JSONB NOT NULL
+);
+
+-- Enable Row Level Security
+ALTER TABLE budget_changes ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can read their own log. It's written by the trigger and never edited,
+-- so there are no update or delete policies.
+CREATE POLICY "Users can view their own budget changes" ON budget_changes
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own budget changes" ON budget_changes
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Index for faster lookups
+CREATE INDEX idx_budget_changes_user_date ON budget_changes(user_id, changed_at DESC);
+
+-- Snapshot of the settings a user sets, in the same shape as the budgets columns
+CREATE OR REPLACE FUNCTION budget_settings(b budgets)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'budget_mode', b.budget_mode,
+    'semester_budget', b.semester_budget,
+    'start_date', b.start_date,
+    'end_date', b.end_date,
+    'home_currency', b.home_currency
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Saves that only recalculate spent/planned_spending aren't logged
+CREATE OR REPLACE FUNCTION log_budget_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND budget_settings(OLD) = budget_settings(NEW) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO budget_changes (user_id, reason, note, before, after)
+  VALUES (
+    NEW.user_id,
+    COALESCE(NEW.change_reason, CASE WHEN TG_OP = 'INSERT' THEN 'setup' ELSE 'edit' END),
+    NEW.change_note,
+    CASE WHEN TG_OP = 'UPDATE' THEN budget_settings(OLD) END,
+    budget_settings(NEW)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER log_budgets_change AFTER INSERT OR UPDATE ON budgets
+  FOR EACH ROW EXECUTE FUNCTION log_budget_change();
@@ -0,0 +1,26 @@
+-- SQL Migration to drop the legacy trip cost columns (estimated_cost, actual_cost)
+
+-- Trips saved by app versions from before prepaid/planned costs (after 0002_budget_modes.sql had
+-- already backfilled) only have the legacy columns filled in. Convert them the same way.
+UPDATE trips
+SET
+  prepaid_cost = COALESCE(actual_cost, 0),
+  planned_cost = CASE
+    WHEN actual_cost IS NOT NULL THEN GREATEST(estimated_cost - actual_cost, 0)
+    ELSE estimated_cost
+  END
+WHERE COALESCE(prepaid_cost, 0) = 0
+  AND COALESCE(planned_cost, 0) = 0
+  AND (estimated_cost > 0 OR actual_cost > 0);
+
+-- prepaid_cost/planned_cost are the only trip costs from here on. Rows the legacy columns were
+-- written wrongly for (by updateTrip when only one cost changed) lose nothing: the new columns
+-- were always written correctly.
+UPDATE trips SET prepaid_cost = 0 WHERE prepaid_cost IS NULL;
+UPDATE trips SET planned_cost = 0 WHERE planned_cost IS NULL;
+
+ALTER TABLE trips
+  ALTER COLUMN prepaid_cost SET NOT NULL,
+  ALTER COLUMN planned_cost SET NOT NULL,
+  DROP COLUMN estimated_cost,
+  DROP COLUMN actual_cost;
@@ -0,0 +1,9 @@
+-- SQL Migration for weekly budget rollover
+
+-- What happens to a week's leftover money or overspend (see calculateWeeklyBudgets):
+-- 'none' starts every week afresh, 'surplus' carries unspent money forward, 'deficit' takes
+-- overspend off the following weeks, 'both' does both. rollover_cap limits how much is carried
+-- either way; NULL = no limit.
+ALTER TABLE budgets
+ADD COLUMN IF NOT EXISTS rollover_policy TEXT DEFAULT 'none' NOT NULL CHECK (rollover_policy IN ('none', 'surplus', 'deficit', 'both')),
+ADD COLUMN IF NOT EXISTS rollover_cap DECIMAL(10,2) CHECK (rollover_cap >= 0);
@@ -0,0 +1,28 @@
+-- SQL Migration for what-if budget scenarios
+
+-- Table to store saved scenarios; the real trips and wishlist are never changed by them
+CREATE TABLE budget_scenarios (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  choices JSONB NOT NULL DEFAULT '[]', -- [{ kind, item_id, included, cost }], see src/types.ts
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, name)
+);
+
+-- Enable Row Level Security
+ALTER TABLE budget_scenarios ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can only access their own scenarios
+CREATE POLICY "Users can view their own scenarios" ON budget_scenarios
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own scenarios" ON budget_scenarios
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own scenarios" ON budget_scenarios
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own scenarios" ON budget_scenarios
+  FOR DELETE USING (auth.uid() = user_id);
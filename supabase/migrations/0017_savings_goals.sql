@@ -0,0 +1,43 @@
+-- SQL Migration for savings goals (sinking funds for trips and wishlist items)
+
+-- Table to store money put aside week by week for something coming up
+CREATE TABLE savings_goals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  -- What it's saving for; the goal is kept (unlinked) when that is deleted for good
+  trip_id UUID REFERENCES trips(id) ON DELETE SET NULL,
+  wishlist_item_id UUID REFERENCES wishlist_items(id) ON DELETE SET NULL,
+  target DECIMAL(10, 2) NOT NULL CHECK (target > 0), -- In the budget's home currency
+  saved DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (saved >= 0),
+  start_date DATE NOT NULL,
+  target_date DATE NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (trip_id IS NULL OR wishlist_item_id IS NULL),
+  CHECK (target_date >= start_date)
+);
+
+-- Enable Row Level Security
+ALTER TABLE savings_goals ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can only access their own goals
+CREATE POLICY "Users can view their own savings goals" ON savings_goals
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own savings goals" ON savings_goals
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own savings goals" ON savings_goals
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own savings goals" ON savings_goals
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Versioned like every other editable row (see 0010_row_versions.sql)
+CREATE TRIGGER bump_savings_goals_version BEFORE UPDATE ON savings_goals
+  FOR EACH ROW EXECUTE FUNCTION bump_row_version();
+
+-- Index for faster lookups
+CREATE INDEX idx_savings_goals_user_date ON savings_goals(user_id, target_date);
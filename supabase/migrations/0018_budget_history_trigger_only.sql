@@ -0,0 +1,26 @@
+-- SQL Migration so the budget audit log can only be written by its trigger
+
+-- Users could insert rows of their own into budget_changes and so make up history. Only
+-- log_budget_change() writes there now; users keep read access.
+DROP POLICY IF EXISTS "Users can create their own budget changes" ON budget_changes;
+
+-- Runs as its owner so the insert still passes RLS without an insert policy. search_path is
+-- pinned so nobody can slip in their own budget_changes or budget_settings ahead of these.
+CREATE OR REPLACE FUNCTION log_budget_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND public.budget_settings(OLD) = public.budget_settings(NEW) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.budget_changes (user_id, reason, note, before, after)
+  VALUES (
+    NEW.user_id,
+    COALESCE(NEW.change_reason, CASE WHEN TG_OP = 'INSERT' THEN 'setup' ELSE 'edit' END),
+    NEW.change_note,
+    CASE WHEN TG_OP = 'UPDATE' THEN public.budget_settings(OLD) END,
+    public.budget_settings(NEW)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
@@ -0,0 +1,16 @@
+-- SQL Migration to log rollover changes in the budget history
+
+-- The rollover policy and cap (see 0015_budget_rollover.sql) are settings the user picks too, so
+-- changing them is logged like any other. Snapshots logged before this don't have them.
+CREATE OR REPLACE FUNCTION budget_settings(b budgets)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'budget_mode', b.budget_mode,
+    'semester_budget', b.semester_budget,
+    'start_date', b.start_date,
+    'end_date', b.end_date,
+    'home_currency', b.home_currency,
+    'rollover_policy', b.rollover_policy,
+    'rollover_cap', b.rollover_cap
+  );
+$$ LANGUAGE sql IMMUTABLE;